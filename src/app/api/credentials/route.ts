@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ApiCredentials,
+  clearSessionCredentials,
+  credentialStatus,
+  saveSessionCredentials,
+  setCredentialCookie,
+} from '@/lib/credentials';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Which keys are in use for this browser session and where each comes from.
+ * The keys themselves are never returned.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ status: credentialStatus(request) });
+}
+
+/**
+ * Keep API keys from Settings in server memory for this browser session.
+ * Routes prefer them over the server's environment.
+ */
+export async function PUT(request: NextRequest) {
+  let changes: Partial<ApiCredentials>;
+  try {
+    const body = await request.json();
+    changes = {
+      openaiApiKey: typeof body.openaiApiKey === 'string' ? body.openaiApiKey : undefined,
+      googleApiKey: typeof body.googleApiKey === 'string' ? body.googleApiKey : undefined,
+      googleProjectId: typeof body.googleProjectId === 'string' ? body.googleProjectId : undefined,
+    };
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const { sessionId, status } = saveSessionCredentials(request, changes);
+  const response = NextResponse.json({ status });
+  setCredentialCookie(response, sessionId);
+  return response;
+}
+
+export async function DELETE(request: NextRequest) {
+  const response = NextResponse.json({ ok: true });
+  clearSessionCredentials(request, response);
+  return response;
+}
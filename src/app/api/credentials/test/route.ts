@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CredentialService, resolveCredentials, testConnection } from '@/lib/credentials';
+
+export const dynamic = 'force-dynamic';
+
+const SERVICES: CredentialService[] = ['openai', 'google'];
+
+/**
+ * Check a key with the provider. Keys typed into Settings but not yet saved
+ * are tested as given; otherwise the session's or server's key is used.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const service = body.service as CredentialService;
+
+  if (!SERVICES.includes(service)) {
+    return NextResponse.json(
+      { error: `Unknown service: ${body.service}` },
+      { status: 400 }
+    );
+  }
+
+  const credentials = resolveCredentials(request);
+  if (service === 'openai' && typeof body.apiKey === 'string' && body.apiKey.trim()) {
+    credentials.openaiApiKey = body.apiKey.trim();
+  }
+  if (service === 'google' && typeof body.apiKey === 'string' && body.apiKey.trim()) {
+    credentials.googleApiKey = body.apiKey.trim();
+  }
+  if (service === 'google' && typeof body.projectId === 'string' && body.projectId.trim()) {
+    credentials.googleProjectId = body.projectId.trim();
+  }
+
+  return NextResponse.json(await testConnection(service, credentials));
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { checkSelfHostedHealth } from '@/lib/self-hosted';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const [transcription, llm] = await Promise.all([
+    checkSelfHostedHealth('transcription'),
+    checkSelfHostedHealth('llm'),
+  ]);
+
+  return NextResponse.json({
+    selfHosted: { transcription, llm },
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BUILT_IN_INTERACTIONS, parseInteractionCsv, parseInteractions } from '@/lib/interactions';
+import { loadInteractions, saveInteractions } from '@/lib/interaction-store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const interactions = await loadInteractions();
+    return NextResponse.json({ interactions, defaults: BUILT_IN_INTERACTIONS });
+  } catch (error) {
+    console.error('Interaction table load error:', error);
+    return NextResponse.json(
+      { error: 'Could not load the interaction table' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the whole table, from `interactions` as JSON or `csv` as the text
+ * of a CSV file.
+ */
+export async function PUT(request: NextRequest) {
+  let interactions;
+  try {
+    const body = await request.json();
+    interactions = typeof body?.csv === 'string'
+      ? parseInteractionCsv(body.csv)
+      : parseInteractions(body?.interactions);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid interaction table' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveInteractions(interactions);
+    return NextResponse.json({ interactions });
+  } catch (error) {
+    console.error('Interaction table save error:', error);
+    return NextResponse.json(
+      { error: 'Could not save the interaction table' },
+      { status: 500 }
+    );
+  }
+}
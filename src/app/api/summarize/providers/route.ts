@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_SUMMARIZER, listSummarizers } from '@/lib/summarization';
+import { resolveCredentials } from '@/lib/credentials';
+
+// Availability depends on the server's environment and the caller's keys, so never cache it
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    summarizers: listSummarizers(resolveCredentials(request)),
+    defaultSummarizer: DEFAULT_SUMMARIZER,
+  });
+}
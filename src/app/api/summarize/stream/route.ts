@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveCredentials } from '@/lib/credentials';
+import {
+  DEFAULT_SUMMARIZER,
+  describeSummaryFailure,
+  getSummarizer,
+  readSummaryInput,
+  summarizeTranscript,
+} from '@/lib/summarization';
+import { getTemplate } from '@/lib/template-store';
+import { SummaryStreamEvent } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+// Room for the summarizer timeout, a repair and a failover
+export const maxDuration = 300;
+
+// Comment lines keep proxies from closing the stream while a summarizer thinks
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-sent events with the note template, drafts of its sections as the
+ * summarizer writes them, then the validated summary. Closing the connection cancels it.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const input = readSummaryInput(body);
+  if (!input) {
+    return NextResponse.json({ error: 'No text provided' }, { status: 400 });
+  }
+
+  const summarizerId = body.summarizer || DEFAULT_SUMMARIZER;
+  const summarizer = getSummarizer(summarizerId);
+  if (!summarizer) {
+    return NextResponse.json({ error: `Unknown summarizer: ${summarizerId}` }, { status: 400 });
+  }
+
+  const template = await getTemplate(body.template);
+  if (!template) {
+    return NextResponse.json({ error: `Unknown note template: ${body.template}` }, { status: 400 });
+  }
+
+  const credentials = resolveCredentials(request);
+  const encoder = new TextEncoder();
+  const cancellation = new AbortController();
+  request.signal.addEventListener('abort', () => cancellation.abort());
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: SummaryStreamEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Client already disconnected
+        }
+      };
+
+      const heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        } catch {
+          clearInterval(heartbeat);
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+
+      send({ type: 'template', template });
+      try {
+        const summary = await summarizeTranscript(summarizer, input, template, credentials, {
+          signal: cancellation.signal,
+          onAttempt: candidate => send({ type: 'attempt', provider: candidate.id, label: candidate.label }),
+          onDraft: draft => send({ type: 'draft', draft }),
+        });
+        send({ type: 'summary', summary });
+      } catch (error) {
+        if (!cancellation.signal.aborted) {
+          console.error('Summary generation error:', error);
+          const { error: message, attempts } = describeSummaryFailure(error);
+          send({ type: 'error', error: message, attempts });
+        }
+      } finally {
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a disconnect
+        }
+      }
+    },
+    cancel() {
+      cancellation.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BUILT_IN_TEMPLATES, parseTemplates } from '@/lib/templates';
+import { loadTemplates, saveTemplates } from '@/lib/template-store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const templates = await loadTemplates();
+    return NextResponse.json({ templates, defaults: BUILT_IN_TEMPLATES });
+  } catch (error) {
+    console.error('Template load error:', error);
+    return NextResponse.json(
+      { error: 'Could not load the note templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the whole template list.
+ */
+export async function PUT(request: NextRequest) {
+  let templates;
+  try {
+    const body = await request.json();
+    templates = parseTemplates(body?.templates);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid templates' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveTemplates(templates);
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Template save error:', error);
+    return NextResponse.json(
+      { error: 'Could not save the note templates' },
+      { status: 500 }
+    );
+  }
+}
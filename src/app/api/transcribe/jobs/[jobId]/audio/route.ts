@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionError } from '@/lib/transcription';
+import { getTranscriptionJob, receiveJobAudio } from '@/lib/transcription/jobs';
+
+// Large files on slow connections take a while to arrive
+export const maxDuration = 300;
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+/**
+ * Upload the job's audio as the raw request body. Progress shows up in the
+ * job's receivedBytes while the upload is running.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+
+  try {
+    if (!request.headers.get('content-type')?.startsWith('audio/')) {
+      return NextResponse.json(
+        { error: 'Invalid file type. Please upload an audio file.' },
+        { status: 400 }
+      );
+    }
+
+    if (!request.body) {
+      return NextResponse.json({ error: 'No audio file provided' }, { status: 400 });
+    }
+
+    await receiveJobAudio(jobId, request.body);
+
+    return NextResponse.json(getTranscriptionJob(jobId));
+
+  } catch (error) {
+    if (error instanceof TranscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Job upload error:', error);
+    return NextResponse.json({ error: 'Audio upload failed. Please try again.' }, { status: 500 });
+  }
+}
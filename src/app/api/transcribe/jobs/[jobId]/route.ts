@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelTranscriptionJob, getTranscriptionJob } from '@/lib/transcription/jobs';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+/**
+ * Current status and progress of a job, with the transcript once it is done.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getTranscriptionJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Transcription job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  cancelTranscriptionJob(jobId);
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_TRANSCRIPTION_PROVIDER, getTranscriptionProvider } from '@/lib/transcription';
+import { attachJobAudio, createTranscriptionJob, getTranscriptionJob, MAX_JOB_AUDIO_BYTES } from '@/lib/transcription/jobs';
+import { resolveCredentials } from '@/lib/credentials';
+import { deleteUpload, readUploadedAudio, UploadError } from '@/lib/uploads';
+import { getVocabularyTerms } from '@/lib/vocabulary-store';
+import { AUTO_DETECT_LANGUAGE } from '@/lib/languages';
+
+/**
+ * Create a background transcription job. With an `uploadId` from a finalized
+ * resumable upload the job is queued straight away; otherwise the client PUTs
+ * the audio to /api/transcribe/jobs/[jobId]/audio. Either way it then polls
+ * /api/transcribe/jobs/[jobId].
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const providerId = body.provider || DEFAULT_TRANSCRIPTION_PROVIDER;
+    const language = body.language || AUTO_DETECT_LANGUAGE;
+    const size = Number.isFinite(body.size) ? Number(body.size) : null;
+
+    const provider = getTranscriptionProvider(providerId);
+    if (!provider) {
+      return NextResponse.json(
+        { error: `Unknown transcription provider: ${providerId}` },
+        { status: 400 }
+      );
+    }
+
+    const credentials = resolveCredentials(request);
+    if (!provider.isConfigured(credentials)) {
+      return NextResponse.json(
+        { error: `${provider.label} is not configured. Add its API key in Settings or on the server.` },
+        { status: 500 }
+      );
+    }
+
+    if (size !== null && size > MAX_JOB_AUDIO_BYTES) {
+      return NextResponse.json(
+        { error: 'Audio file is larger than 50MB' },
+        { status: 413 }
+      );
+    }
+
+    const vocabulary = await getVocabularyTerms(body.pharmacy || undefined);
+
+    if (body.uploadId) {
+      const audio = await readUploadedAudio(String(body.uploadId));
+      const job = createTranscriptionJob(provider, { language, vocabulary, credentials }, audio.length);
+      attachJobAudio(job.id, audio);
+      await deleteUpload(String(body.uploadId));
+
+      return NextResponse.json(getTranscriptionJob(job.id));
+    }
+
+    const job = createTranscriptionJob(provider, { language, vocabulary, credentials }, size);
+
+    return NextResponse.json(job);
+
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Transcription job error:', error);
+    return NextResponse.json(
+      { error: 'Could not create transcription job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_TRANSCRIPTION_PROVIDER, listTranscriptionProviders } from '@/lib/transcription';
+import { resolveCredentials } from '@/lib/credentials';
+
+// Provider availability depends on the server's environment and the caller's keys, so never cache it
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    providers: listTranscriptionProviders(resolveCredentials(request)),
+    defaultProvider: DEFAULT_TRANSCRIPTION_PROVIDER,
+  });
+}
@@ -1,21 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import {
+  DEFAULT_TRANSCRIPTION_PROVIDER,
+  getTranscriptionProvider,
+  transcribeWithFailover,
+  TranscriptionError,
+} from '@/lib/transcription';
+import { FailoverError } from '@/lib/failover';
+import { resolveCredentials } from '@/lib/credentials';
+import { getVocabularyTerms } from '@/lib/vocabulary-store';
+import { AUTO_DETECT_LANGUAGE } from '@/lib/languages';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
+// Long recordings may be polled or sent in several windows
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
   try {
-    if (!process.env.OPENAI_API_KEY) {
+    const formData = await request.formData();
+    const audioFile = formData.get('audio') as File;
+    const providerId = formData.get('provider') as string || DEFAULT_TRANSCRIPTION_PROVIDER;
+    const language = formData.get('language') as string || AUTO_DETECT_LANGUAGE;
+    const pharmacyId = formData.get('pharmacy') as string || undefined;
+
+    const provider = getTranscriptionProvider(providerId);
+    if (!provider) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
+        { error: `Unknown transcription provider: ${providerId}` },
+        { status: 400 }
       );
     }
 
-    const formData = await request.formData();
-    const audioFile = formData.get('audio') as File;
+    const credentials = resolveCredentials(request);
+    if (!provider.isConfigured(credentials)) {
+      return NextResponse.json(
+        { error: `${provider.label} is not configured. Add its API key in Settings or on the server.` },
+        { status: 500 }
+      );
+    }
 
     if (!audioFile) {
       return NextResponse.json(
@@ -24,13 +44,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert File to Buffer
-    const bytes = await audioFile.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-
-    // Create a proper File object for OpenAI
-    const file = new File([buffer], audioFile.name, { type: audioFile.type });
-
     // Validate file type
     if (!audioFile.type.startsWith('audio/')) {
       return NextResponse.json(
@@ -39,52 +52,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Transcribe with OpenAI Whisper
-    const transcription = await openai.audio.transcriptions.create({
-      file: file,
-      model: 'whisper-1',
-      response_format: 'verbose_json',
-      timestamp_granularities: ['word'],
+    // Debug: Log audio file details
+    console.log('Audio file details:', {
+      name: audioFile.name,
+      type: audioFile.type,
+      size: audioFile.size,
+      provider: provider.id
     });
 
-    return NextResponse.json({
-      text: transcription.text,
-      duration: transcription.duration || 0,
-    });
+    const bytes = await audioFile.arrayBuffer();
+    const vocabulary = await getVocabularyTerms(pharmacyId);
+    const transcription = await transcribeWithFailover(provider, Buffer.from(bytes), { language, vocabulary, credentials });
+
+    return NextResponse.json(transcription);
 
   } catch (error) {
     console.error('Transcription error:', error);
-    
-    // Provide more specific error messages
-    if (error instanceof Error) {
-      if (error.message.includes('API key')) {
-        return NextResponse.json(
-          { error: 'Invalid OpenAI API key. Please check your configuration.' },
-          { status: 401 }
-        );
-      } else if (error.message.includes('file')) {
-        return NextResponse.json(
-          { error: 'Invalid audio file format. Please try a different file.' },
-          { status: 400 }
-        );
-      } else if (error.message.includes('quota') || error.message.includes('429')) {
-        return NextResponse.json(
-          { error: 'OpenAI API quota exceeded. Please check your billing and usage limits at https://platform.openai.com/account/usage' },
-          { status: 429 }
-        );
-      } else if (error.message.includes('insufficient_quota')) {
-        return NextResponse.json(
-          { error: 'OpenAI API quota exceeded. Please add payment method or upgrade your plan at https://platform.openai.com/account/billing' },
-          { status: 429 }
-        );
-      }
+
+    const cause = error instanceof FailoverError ? error.lastError : error;
+    const attempts = error instanceof FailoverError ? error.attempts : undefined;
+    if (cause instanceof TranscriptionError) {
+      return NextResponse.json(
+        { error: cause.message, attempts },
+        { status: cause.status }
+      );
     }
-    
+
     return NextResponse.json(
       { error: 'Transcription failed. Please try again.' },
       { status: 500 }
     );
   }
 }
-
- 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionError } from '@/lib/transcription';
+import { finishStreamingSession, getStreamingSession } from '@/lib/transcription/streaming';
+
+// Usually only the last few seconds are left, but a failed window is retried here
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  const session = getStreamingSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Live transcription session not found' }, { status: 404 });
+  }
+
+  try {
+    const transcription = await finishStreamingSession(session);
+
+    if (!transcription.text.trim()) {
+      return NextResponse.json(
+        { error: 'No speech detected in the recording.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(transcription);
+
+  } catch (error) {
+    console.error('Streaming transcription error:', error);
+
+    if (error instanceof TranscriptionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Transcription failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
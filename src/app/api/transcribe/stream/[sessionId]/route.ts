@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionError } from '@/lib/transcription';
+import {
+  appendStreamingAudio,
+  closeStreamingSession,
+  getStreamingSession,
+  StreamingEvent,
+  subscribeToStreamingSession,
+} from '@/lib/transcription/streaming';
+
+export const dynamic = 'force-dynamic';
+// The event stream stays open for the whole recording
+export const maxDuration = 300;
+
+// Comment lines keep proxies from closing a quiet event stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+/**
+ * Server-sent events with committed and partial transcript segments.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { sessionId } = await params;
+  const session = getStreamingSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Live transcription session not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: StreamingEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Client already disconnected
+        }
+      };
+
+      // Catch a reconnecting client up on what it missed
+      if (session.committed.length > 0) send({ type: 'committed', segments: session.committed });
+      if (session.partial.length > 0) send({ type: 'partial', segments: session.partial });
+
+      const heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const unsubscribe = subscribeToStreamingSession(session, event => {
+        send(event);
+        if (event.type === 'closed') {
+          cleanup();
+          controller.close();
+        }
+      });
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Append a chunk of mono 16-bit little-endian PCM.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { sessionId } = await params;
+  const session = getStreamingSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Live transcription session not found' }, { status: 404 });
+  }
+
+  try {
+    const pcm = Buffer.from(await request.arrayBuffer());
+    appendStreamingAudio(session, pcm);
+
+    return NextResponse.json({ receivedSeconds: session.totalSamples / session.sampleRate });
+
+  } catch (error) {
+    if (error instanceof TranscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Streaming chunk error:', error);
+    return NextResponse.json({ error: 'Could not process audio chunk' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { sessionId } = await params;
+  const session = getStreamingSession(sessionId);
+  if (session) {
+    closeStreamingSession(session);
+  }
+
+  return NextResponse.json({ success: true });
+}
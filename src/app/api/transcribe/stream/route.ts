@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_TRANSCRIPTION_PROVIDER, getTranscriptionProvider } from '@/lib/transcription';
+import { createStreamingSession } from '@/lib/transcription/streaming';
+import { resolveCredentials } from '@/lib/credentials';
+import { getVocabularyTerms } from '@/lib/vocabulary-store';
+import { AUTO_DETECT_LANGUAGE } from '@/lib/languages';
+
+/**
+ * Start a live transcription session. The recorder then POSTs PCM chunks to
+ * /api/transcribe/stream/[sessionId], listens there for results over SSE and
+ * calls /finish when recording stops.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const providerId = body.provider || DEFAULT_TRANSCRIPTION_PROVIDER;
+    const language = body.language || AUTO_DETECT_LANGUAGE;
+    const sampleRate = Number(body.sampleRate);
+
+    const provider = getTranscriptionProvider(providerId);
+    if (!provider) {
+      return NextResponse.json(
+        { error: `Unknown transcription provider: ${providerId}` },
+        { status: 400 }
+      );
+    }
+
+    const credentials = resolveCredentials(request);
+    if (!provider.isConfigured(credentials)) {
+      return NextResponse.json(
+        { error: `${provider.label} is not configured. Add its API key in Settings or on the server.` },
+        { status: 500 }
+      );
+    }
+
+    if (!Number.isInteger(sampleRate) || sampleRate < 8000 || sampleRate > 192000) {
+      return NextResponse.json(
+        { error: 'A sample rate between 8000 and 192000 Hz is required' },
+        { status: 400 }
+      );
+    }
+
+    const vocabulary = await getVocabularyTerms(body.pharmacy || undefined);
+    const session = createStreamingSession(provider, { language, vocabulary, credentials }, sampleRate);
+
+    return NextResponse.json({ sessionId: session.id });
+
+  } catch (error) {
+    console.error('Streaming session error:', error);
+    return NextResponse.json(
+      { error: 'Could not start live transcription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UploadError, writeUploadChunk } from '@/lib/uploads';
+
+type RouteContext = { params: Promise<{ uploadId: string; index: string }> };
+
+/**
+ * Store one chunk. The raw body is the chunk and `X-Chunk-SHA256` its hex digest.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { uploadId, index } = await params;
+
+  try {
+    const data = Buffer.from(await request.arrayBuffer());
+    await writeUploadChunk(uploadId, Number(index), data, request.headers.get('x-chunk-sha256'));
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Upload chunk error:', error);
+    return NextResponse.json({ error: 'Could not store chunk' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { finalizeUpload, UploadError } from '@/lib/uploads';
+
+type RouteContext = { params: Promise<{ uploadId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { uploadId } = await params;
+
+  try {
+    return NextResponse.json(await finalizeUpload(uploadId));
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Upload finalize error:', error);
+    return NextResponse.json({ error: 'Could not finalize upload' }, { status: 500 });
+  }
+}
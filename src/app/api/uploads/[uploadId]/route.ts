@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteUpload, getUploadStatus, UploadError } from '@/lib/uploads';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ uploadId: string }> };
+
+/**
+ * Which byte ranges of the file the server has, so a client can resume.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { uploadId } = await params;
+
+  try {
+    return NextResponse.json(await getUploadStatus(uploadId));
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Upload status error:', error);
+    return NextResponse.json({ error: 'Could not read upload' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { uploadId } = await params;
+  await deleteUpload(uploadId);
+
+  return NextResponse.json({ success: true });
+}
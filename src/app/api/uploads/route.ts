@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUpload, UploadError } from '@/lib/uploads';
+
+/**
+ * Start a resumable upload. The client PUTs numbered chunks to
+ * /api/uploads/[uploadId]/chunks/[index], can ask /api/uploads/[uploadId]
+ * which byte ranges arrived, and POSTs /finalize once all are in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { name, type, size } = await request.json();
+    const upload = await createUpload(String(name || 'audio'), String(type || ''), Number(size));
+
+    return NextResponse.json(upload);
+
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Upload session error:', error);
+    return NextResponse.json({ error: 'Could not start upload' }, { status: 500 });
+  }
+}
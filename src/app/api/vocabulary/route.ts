@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_VOCABULARY, parseVocabularyStore } from '@/lib/vocabulary';
+import { loadVocabulary, saveVocabulary } from '@/lib/vocabulary-store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const vocabulary = await loadVocabulary();
+    return NextResponse.json({ vocabulary, defaults: DEFAULT_VOCABULARY });
+  } catch (error) {
+    console.error('Vocabulary load error:', error);
+    return NextResponse.json(
+      { error: 'Could not load the vocabulary' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the whole vocabulary: shared terms and every pharmacy's additions.
+ */
+export async function PUT(request: NextRequest) {
+  let vocabulary;
+  try {
+    vocabulary = parseVocabularyStore(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid vocabulary' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveVocabulary(vocabulary);
+    return NextResponse.json({ vocabulary });
+  } catch (error) {
+    console.error('Vocabulary save error:', error);
+    return NextResponse.json(
+      { error: 'Could not save the vocabulary' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,46 +1,39 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Mic, FileText, BarChart3, Settings } from 'lucide-react';
 import AudioRecorder from '@/components/AudioRecorder';
 import TranscriptionView from '@/components/TranscriptionView';
 import SummaryView from '@/components/SummaryView';
 import SettingsPanel, { TranscriptionSettings } from '@/components/SettingsPanel';
+import { AllergyConflict, conflictKey } from '@/lib/allergies';
+import { saveSessionCredentials, splitStoredKeys } from '@/lib/session-credentials';
+import { describeSummaryError, streamSummary, SummaryRequest } from '@/lib/summary-stream';
+import { EvidenceSpan, SummaryData, TranscriptionData } from '@/lib/types';
 
 type View = 'recording' | 'transcription' | 'summary';
 
-interface TranscriptionData {
-  text: string;
-  duration: number;
-}
-
-interface SummaryData {
-  keyTopics: string[];
-  medications: Array<{
-    name: string;
-    dosage?: string;
-    frequency?: string;
-    notes?: string;
-  }>;
-  actionItems: string[];
-  patientConcerns: string[];
-  pharmacistRecommendations: string[];
-}
-
 export default function Home() {
   const [currentView, setCurrentView] = useState<View>('recording');
   const [transcriptionData, setTranscriptionData] = useState<TranscriptionData | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  // The passage to open the transcript at, from a summary item's evidence
+  const [evidenceFocus, setEvidenceFocus] = useState<EvidenceSpan | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Changes whenever another consultation is opened, so its views start fresh
+  const [consultationKey, setConsultationKey] = useState(0);
+  // The summary being streamed, and the one it replaces if it's cancelled
+  const summaryRunRef = useRef<{ controller: AbortController; previous: SummaryData | null } | null>(null);
   const [settings, setSettings] = useState<TranscriptionSettings>({
     provider: 'google',
     summarizer: 'gemini',
-    openaiApiKey: '',
-    googleApiKey: '',
-    googleProjectId: '',
-    language: 'en-US',
-    model: 'whisper-1'
+    language: 'auto',
+    summaryLanguage: 'en',
+    model: 'whisper-1',
+    pharmacyId: '',
+    templateId: ''
   });
 
   // Load settings from localStorage on component mount
@@ -48,7 +41,14 @@ export default function Home() {
     const savedSettings = localStorage.getItem('transcriptionSettings');
     if (savedSettings) {
       try {
-        setSettings(JSON.parse(savedSettings));
+        const { settings: stored, keys } = splitStoredKeys(JSON.parse(savedSettings));
+        setSettings(stored);
+        // API keys now live in the server's session store, never in localStorage
+        if (keys) {
+          saveSessionCredentials(keys)
+            .then(() => localStorage.setItem('transcriptionSettings', JSON.stringify(stored)))
+            .catch(error => console.error('Error moving saved API keys:', error));
+        }
       } catch (error) {
         console.error('Error loading settings:', error);
       }
@@ -78,14 +78,82 @@ export default function Home() {
     }
   ];
 
-  const handleTranscriptionComplete = (data: TranscriptionData) => {
+  const stopSummaryStream = () => {
+    summaryRunRef.current?.controller.abort();
+    summaryRunRef.current = null;
+    setIsSummarizing(false);
+    setEvidenceFocus(null);
+  };
+
+  const handleTranscriptionComplete = (data: TranscriptionData, recordingUrl: string | null) => {
+    stopSummaryStream();
     setTranscriptionData(data);
+    setAudioUrl(recordingUrl);
+    setSummaryData(null);
+    setConsultationKey(key => key + 1);
     setCurrentView('transcription');
   };
 
-  const handleSummaryComplete = (data: SummaryData) => {
-    setSummaryData(data);
+  const handleOpenConsultation = (data: TranscriptionData, recordingUrl: string | null, summary: SummaryData | null) => {
+    stopSummaryStream();
+    setTranscriptionData(data);
+    setAudioUrl(recordingUrl);
+    setSummaryData(summary);
+    setConsultationKey(key => key + 1);
+    setCurrentView(summary ? 'summary' : 'transcription');
+  };
+
+  // Sections fill in on the summary view as the summarizer writes them, once
+  // the server has said which template they follow
+  const handleGenerateSummary = async (request: SummaryRequest) => {
+    stopSummaryStream();
+    const run = { controller: new AbortController(), previous: summaryData };
+    summaryRunRef.current = run;
+    setSummaryData(null);
+    setIsSummarizing(true);
     setCurrentView('summary');
+
+    try {
+      const summary = await streamSummary(
+        request,
+        draft => {
+          if (summaryRunRef.current === run) setSummaryData(draft);
+        },
+        run.controller.signal
+      );
+      if (summaryRunRef.current === run) setSummaryData(summary);
+    } catch (error) {
+      if (run.controller.signal.aborted) return;
+      console.error('Summary generation error:', error);
+      setSummaryData(run.previous);
+      setCurrentView('transcription');
+      alert(describeSummaryError(error));
+    } finally {
+      if (summaryRunRef.current === run) {
+        summaryRunRef.current = null;
+        setIsSummarizing(false);
+      }
+    }
+  };
+
+  const handleShowEvidence = (span: EvidenceSpan) => {
+    setEvidenceFocus(span);
+    setCurrentView('transcription');
+  };
+
+  const handleAcknowledgeConflict = (conflict: AllergyConflict) => {
+    const key = conflictKey(conflict);
+    setSummaryData(current => current && {
+      ...current,
+      acknowledgedConflicts: [...(current.acknowledgedConflicts ?? []).filter(other => other !== key), key],
+    });
+  };
+
+  const handleCancelSummary = () => {
+    const previous = summaryRunRef.current?.previous ?? null;
+    stopSummaryStream();
+    setSummaryData(previous);
+    setCurrentView(previous ? 'summary' : 'transcription');
   };
 
   return (
@@ -123,7 +191,10 @@ export default function Home() {
               return (
                 <button
                   key={item.id}
-                  onClick={() => setCurrentView(item.id)}
+                  onClick={() => {
+                    setEvidenceFocus(null);
+                    setCurrentView(item.id);
+                  }}
                   disabled={item.disabled}
                   className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
                     currentView === item.id
@@ -144,23 +215,14 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {isLoading && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 flex items-center space-x-3">
-              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
-              <span className="text-gray-700 dark:text-gray-200">Processing...</span>
-            </div>
-          </div>
-        )}
-
-        {currentView === 'recording' && (
+        {/* Kept mounted so recordings, uploads and the batch queue carry on while viewing results */}
+        <div className={currentView === 'recording' ? '' : 'hidden'}>
           <AudioRecorder
             onTranscriptionComplete={handleTranscriptionComplete}
-            onSummaryComplete={handleSummaryComplete}
-            setIsLoading={setIsLoading}
+            onOpenConsultation={handleOpenConsultation}
             settings={settings}
           />
-        )}
+        </div>
 
         <SettingsPanel
           isOpen={isSettingsOpen}
@@ -171,17 +233,24 @@ export default function Home() {
 
         {currentView === 'transcription' && transcriptionData && (
           <TranscriptionView
+            key={consultationKey}
             data={transcriptionData}
-            onSummaryComplete={handleSummaryComplete}
-            setIsLoading={setIsLoading}
+            audioUrl={audioUrl}
+            onGenerateSummary={handleGenerateSummary}
+            evidenceFocus={evidenceFocus}
             settings={settings}
           />
         )}
 
         {currentView === 'summary' && summaryData && (
           <SummaryView
+            key={consultationKey}
             data={summaryData}
             transcriptionData={transcriptionData}
+            isGenerating={isSummarizing}
+            onCancel={handleCancelSummary}
+            onShowEvidence={handleShowEvidence}
+            onAcknowledgeConflict={handleAcknowledgeConflict}
           />
         )}
       </main>
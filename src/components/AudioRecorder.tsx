@@ -1,47 +1,66 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
-import { Mic, Square, Upload, Play, Pause } from 'lucide-react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Mic, Square, Upload, Play, Pause, X, RotateCcw, Trash2 } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import { TranscriptionSettings } from '@/components/SettingsPanel';
-
-interface TranscriptionData {
-  text: string;
-  duration: number;
-}
-
-interface SummaryData {
-  keyTopics: string[];
-  medications: Array<{
-    name: string;
-    dosage?: string;
-    frequency?: string;
-    notes?: string;
-  }>;
-  actionItems: string[];
-  patientConcerns: string[];
-  pharmacistRecommendations: string[];
-}
+import BatchQueue from '@/components/BatchQueue';
+import { BATCH_CONCURRENCY, BatchItem, createBatchItem, processBatchItem } from '@/lib/batch-queue';
+import { discardUpload, UploadProgress, uploadInChunks } from '@/lib/chunked-upload';
+import { LiveTranscription, startLiveTranscription } from '@/lib/live-transcription';
+import {
+  appendRecordingChunk,
+  createStoredRecording,
+  deleteStoredRecording,
+  listStoredRecordings,
+  loadStoredRecording,
+  StoredRecording,
+} from '@/lib/recording-store';
+import {
+  cancelTranscriptionJob,
+  getActiveJobId,
+  JobWatcher,
+  rememberActiveJob,
+  startJobFromUpload,
+  submitTranscriptionJob,
+  watchTranscriptionJob,
+} from '@/lib/job-client';
+import { SummaryData, TranscriptionData, TranscriptionJob, TranscriptSegment } from '@/lib/types';
+import { validateAudioFile } from '@/lib/utils';
+
+// MediaRecorder hands over (and we persist) audio this often while recording
+const RECORDING_TIMESLICE_MS = 1000;
 
 interface AudioRecorderProps {
-  onTranscriptionComplete: (data: TranscriptionData) => void;
-  onSummaryComplete: (data: SummaryData) => void;
-  setIsLoading: (loading: boolean) => void;
+  onTranscriptionComplete: (data: TranscriptionData, audioUrl: string | null) => void;
+  // Show a consultation finished in the batch queue
+  onOpenConsultation: (transcription: TranscriptionData, audioUrl: string | null, summary: SummaryData | null) => void;
   settings: TranscriptionSettings;
 }
 
 export default function AudioRecorder({
   onTranscriptionComplete,
-  setIsLoading,
+  onOpenConsultation,
   settings
 }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [audioLevel, setAudioLevel] = useState(0);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [liveStatus, setLiveStatus] = useState<'off' | 'connecting' | 'live' | 'finalizing' | 'unavailable'>('off');
+  const [liveMessage, setLiveMessage] = useState<string | null>(null);
+  const [liveSegments, setLiveSegments] = useState<TranscriptSegment[]>([]);
+  const [livePartial, setLivePartial] = useState<TranscriptSegment[]>([]);
+  const [job, setJob] = useState<TranscriptionJob | null>(null);
+  const [jobError, setJobError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [recoverable, setRecoverable] = useState<StoredRecording[]>([]);
+  const [batch, setBatch] = useState<BatchItem[]>([]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -50,23 +69,177 @@ export default function AudioRecorder({
   const animationFrameRef = useRef<number | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
+  const liveTranscriptionRef = useRef<LiveTranscription | null>(null);
+  // Resolves with the recording and its object URL once MediaRecorder has stopped
+  const stoppedRecordingRef = useRef<Promise<{ blob: Blob; url: string }> | null>(null);
+  const jobWatcherRef = useRef<JobWatcher | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // The level meter's animation loop reads these without re-rendering
+  const isPausedRef = useRef(false);
+  const elapsedRef = useRef(0);
+  // The IndexedDB copy of the recording currently loaded, removed once it is transcribed
+  const storedRecordingRef = useRef<StoredRecording | null>(null);
+  // Batch items already handed to processBatchItem, until their status catches up
+  const startedBatchItemsRef = useRef<Set<string>>(new Set());
+
+  const batchSize = batch.length;
+
+  // The page hands down a new callback on every render; keep the latest so
+  // followJob, and the resume effect that uses it, stay stable
+  const onTranscriptionCompleteRef = useRef(onTranscriptionComplete);
+  useEffect(() => {
+    onTranscriptionCompleteRef.current = onTranscriptionComplete;
+  }, [onTranscriptionComplete]);
+
+  const followJob = useCallback(async (watcher: JobWatcher, recordingUrl: string | null): Promise<boolean> => {
+    jobWatcherRef.current = watcher;
+    try {
+      const data = await watcher.result;
+      setJob(null);
+      onTranscriptionCompleteRef.current(data, recordingUrl);
+      return true;
+    } catch (error) {
+      console.error('Transcription error:', error);
+      setJob(null);
+      setJobError(describeTranscriptionError(error));
+      return false;
+    } finally {
+      if (jobWatcherRef.current === watcher) {
+        jobWatcherRef.current = null;
+      }
+    }
+  }, []);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file && file.type.startsWith('audio/')) {
-      setUploadedFile(file);
-      setAudioUrl(URL.createObjectURL(file));
+  // Jobs keep running on the server while the page is closed; pick up one
+  // started before a reload
+  useEffect(() => {
+    const activeJobId = getActiveJobId();
+    if (activeJobId) {
+      followJob(watchTranscriptionJob(activeJobId, setJob), null);
     }
+    return () => {
+      jobWatcherRef.current?.stop();
+    };
+  }, [followJob]);
+
+  // Recordings still in IndexedDB were never transcribed: the tab crashed or
+  // was closed before the transcript came back
+  useEffect(() => {
+    listStoredRecordings()
+      .then(recordings => setRecoverable(recordings.filter(recording => recording.duration > 0)))
+      .catch(error => console.error('Could not read stored recordings:', error));
   }, []);
 
+  useEffect(() => {
+    if (!isRecording) return;
+    const warnBeforeLeaving = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', warnBeforeLeaving);
+    return () => window.removeEventListener('beforeunload', warnBeforeLeaving);
+  }, [isRecording]);
+
+  const forgetStoredRecording = (recording: StoredRecording | null) => {
+    if (!recording) return;
+    if (storedRecordingRef.current?.id === recording.id) {
+      storedRecordingRef.current = null;
+    }
+    deleteStoredRecording(recording.id).catch(error => console.error('Could not delete stored recording:', error));
+  };
+
+  const restoreRecording = async (recording: StoredRecording) => {
+    try {
+      const blob = await loadStoredRecording(recording);
+      setRecoverable(prev => prev.filter(entry => entry.id !== recording.id));
+      if (blob.size === 0) {
+        forgetStoredRecording(recording);
+        return;
+      }
+      storedRecordingRef.current = recording;
+      setAudioBlob(blob);
+      setAudioUrl(URL.createObjectURL(blob));
+      setUploadedFile(null);
+      setUploadProgress(null);
+      setLiveStatus('off');
+    } catch (error) {
+      console.error('Could not restore recording:', error);
+      setJobError('The recording could not be restored.');
+    }
+  };
+
+  const discardRecording = (recording: StoredRecording) => {
+    setRecoverable(prev => prev.filter(entry => entry.id !== recording.id));
+    forgetStoredRecording(recording);
+  };
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    const invalid = acceptedFiles.filter(file => !validateAudioFile(file));
+    const files = acceptedFiles.filter(file => validateAudioFile(file));
+    setJobError(invalid.length > 0
+      ? `Skipped ${invalid.map(file => file.name).join(', ')}: please choose MP3, WAV, M4A, WebM or OGG files of up to 50MB.`
+      : null);
+
+    // Several files, or more files while a batch is running, go to the batch queue
+    if (files.length > 1 || batchSize > 0) {
+      setBatch(prev => [...prev, ...files.map(createBatchItem)]);
+      return;
+    }
+
+    const file = files[0];
+    if (!file) return;
+    setUploadedFile(file);
+    setAudioUrl(URL.createObjectURL(file));
+    setUploadProgress(null);
+    setLiveStatus('off');
+  }, [batchSize]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'audio/*': ['.mp3', '.wav', '.m4a', '.webm', '.ogg']
     },
-    multiple: false
+    multiple: true
   });
 
+  const updateBatchItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setBatch(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  // Start waiting batch items whenever a slot is free
+  useEffect(() => {
+    const running = batch.filter(item =>
+      item.status === 'uploading' || item.status === 'transcribing' || item.status === 'summarizing' ||
+      startedBatchItemsRef.current.has(item.id)
+    ).length;
+
+    batch
+      .filter(item => item.status === 'waiting' && !startedBatchItemsRef.current.has(item.id))
+      .slice(0, Math.max(0, BATCH_CONCURRENCY - running))
+      .forEach(item => {
+        startedBatchItemsRef.current.add(item.id);
+        processBatchItem(
+          item,
+          {
+            provider: settings.provider,
+            language: settings.language,
+            pharmacy: settings.pharmacyId || '',
+            summarizer: settings.summarizer,
+            summaryLanguage: settings.summaryLanguage || 'en',
+            template: settings.templateId || '',
+          },
+          changes => updateBatchItem(item.id, changes)
+        )
+          .catch(error => {
+            console.error('Batch item error:', error);
+            updateBatchItem(item.id, { status: 'failed', progress: null, error: describeTranscriptionError(error) });
+          })
+          .finally(() => startedBatchItemsRef.current.delete(item.id));
+      });
+  }, [batch, settings, updateBatchItem]);
+
+  const openBatchItem = (item: BatchItem) => {
+    if (!item.transcription) return;
+    onOpenConsultation(item.transcription, URL.createObjectURL(item.file), item.summary ?? null);
+  };
+
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -87,7 +260,9 @@ export default function AudioRecorder({
 
       // Start visualization
       const updateAudioLevel = () => {
-        if (analyserRef.current) {
+        if (isPausedRef.current) {
+          setAudioLevel(0);
+        } else if (analyserRef.current) {
           const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
           analyserRef.current.getByteFrequencyData(dataArray);
           const average = dataArray.reduce((a, b) => a + b) / dataArray.length;
@@ -122,36 +297,89 @@ export default function AudioRecorder({
       });
       mediaRecorderRef.current = mediaRecorder;
 
+      // Keep a copy in IndexedDB as it records; private browsing may not allow it
+      let storedRecording: StoredRecording | null = null;
+      try {
+        storedRecording = await createStoredRecording(mediaRecorder.mimeType || mimeType);
+      } catch (error) {
+        console.error('Could not store recording locally:', error);
+      }
+      storedRecordingRef.current = storedRecording;
+
       const chunks: Blob[] = [];
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunks.push(event.data);
+          if (storedRecording) {
+            appendRecordingChunk(storedRecording, chunks.length - 1, event.data, elapsedRef.current)
+              .catch(error => console.error('Could not store recording chunk:', error));
+          }
         }
       };
 
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunks, { type: 'audio/webm' });
-        setAudioBlob(blob);
-        setAudioUrl(URL.createObjectURL(blob));
-        
-        // Clean up
-        stream.getTracks().forEach(track => track.stop());
-        if (audioContextRef.current) {
-          audioContextRef.current.close();
-        }
-        if (animationFrameRef.current) {
-          cancelAnimationFrame(animationFrameRef.current);
-        }
-      };
+      stoppedRecordingRef.current = new Promise(resolve => {
+        mediaRecorder.onstop = () => {
+          // Label the blob with what the browser actually recorded (Safari produces MP4)
+          const blob = new Blob(chunks, { type: mediaRecorder.mimeType || mimeType });
+          const url = URL.createObjectURL(blob);
+          setAudioBlob(blob);
+          setAudioUrl(url);
+          resolve({ blob, url });
+
+          // Clean up
+          stream.getTracks().forEach(track => track.stop());
+          if (audioContextRef.current) {
+            audioContextRef.current.close();
+          }
+          if (animationFrameRef.current) {
+            cancelAnimationFrame(animationFrameRef.current);
+          }
+        };
+      });
 
-      mediaRecorder.start();
+      mediaRecorder.start(RECORDING_TIMESLICE_MS);
+      const recordingStartedAt = performance.now();
       setIsRecording(true);
+      isPausedRef.current = false;
+      setIsPaused(false);
+      elapsedRef.current = 0;
       setRecordingTime(0);
 
-      // Start timer
-      timerRef.current = setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+      // Transcribe while recording; if this can't start, the recording is still
+      // transcribed with the button afterwards
+      setLiveSegments([]);
+      setLivePartial([]);
+      setLiveMessage(null);
+      setLiveStatus('connecting');
+      startLiveTranscription(
+        audioContextRef.current,
+        microphoneRef.current,
+        recordingStartedAt,
+        { provider: settings.provider, language: settings.language, pharmacy: settings.pharmacyId },
+        {
+          onCommitted: segments => {
+            setLiveSegments(prev => [...prev, ...segments]);
+            setLivePartial([]);
+          },
+          onPartial: segments => setLivePartial(segments),
+          onError: message => setLiveMessage(message),
+        }
+      )
+        .then(live => {
+          if (mediaRecorder.state === 'inactive') {
+            live.cancel();
+            return;
+          }
+          liveTranscriptionRef.current = live;
+          setLiveStatus('live');
+        })
+        .catch(error => {
+          console.error('Live transcription error:', error);
+          setLiveStatus('unavailable');
+          setLiveMessage(error instanceof Error ? error.message : 'Live transcription is unavailable');
+        });
+
+      startTimer();
 
     } catch (error) {
       console.error('Error starting recording:', error);
@@ -159,15 +387,86 @@ export default function AudioRecorder({
     }
   };
 
-  const stopRecording = () => {
+  const startTimer = () => {
+    timerRef.current = setInterval(() => {
+      elapsedRef.current += 1;
+      setRecordingTime(elapsedRef.current);
+    }, 1000);
+  };
+
+  const pauseRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'recording') return;
+
+    mediaRecorder.pause();
+    // Persist what was recorded up to the pause rather than waiting for the next slice
+    mediaRecorder.requestData();
+    liveTranscriptionRef.current?.pause();
+    isPausedRef.current = true;
+    setIsPaused(true);
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+    }
+  };
+
+  const resumeRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'paused') return;
+
+    mediaRecorder.resume();
+    liveTranscriptionRef.current?.resume();
+    isPausedRef.current = false;
+    setIsPaused(false);
+    startTimer();
+  };
+
+  const stopRecording = async () => {
     if (mediaRecorderRef.current && isRecording) {
+      const live = liveTranscriptionRef.current;
+      liveTranscriptionRef.current = null;
+
+      // Finish the live session first: it needs the audio graph that onstop closes
+      const transcription = live ? live.finish() : null;
+
       mediaRecorderRef.current.stop();
       setIsRecording(false);
+      isPausedRef.current = false;
+      setIsPaused(false);
       setAudioLevel(0);
       
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
+
+      if (!transcription) {
+        setLiveStatus(prev => (prev === 'unavailable' ? prev : 'off'));
+        return;
+      }
+
+      setLiveStatus('finalizing');
+      try {
+        const [result, recording] = await Promise.all([transcription, stoppedRecordingRef.current]);
+        if (!recording) return;
+        if (result.complete) {
+          setLiveStatus('off');
+          forgetStoredRecording(storedRecordingRef.current);
+          onTranscriptionComplete(result.transcript, recording.url);
+          return;
+        }
+
+        // The server missed some of the audio, so its transcript has gaps;
+        // keep the stored copy and transcribe the whole recording instead
+        console.warn(`Live transcription incomplete: ${result.droppedChunks} chunks dropped, started ${result.startOffset.toFixed(2)}s late`);
+        setLiveStatus('unavailable');
+        setLiveMessage('Some audio did not reach the server while recording, so the full recording is being transcribed.');
+        await transcribeRecording(recording.blob, recording.url);
+      } catch (error) {
+        console.error('Live transcription error:', error);
+        setLiveStatus('unavailable');
+        setLiveMessage(
+          `${error instanceof Error ? error.message : 'Live transcription failed'}. Use "Transcribe Audio" to transcribe the recording.`
+        );
+      }
     }
   };
 
@@ -185,68 +484,74 @@ export default function AudioRecorder({
     }
   };
 
-  const handleTranscribe = async () => {
-    const fileToTranscribe = uploadedFile || audioBlob;
-    if (!fileToTranscribe) return;
-
-    // Check file size for Google API
-    if (settings.provider === 'google') {
-      const fileSizeInMB = fileToTranscribe.size / (1024 * 1024);
-      if (fileSizeInMB > 10) { // 10MB limit for Google API
-        alert('File is too large for Google Speech-to-Text. Please use a smaller file (under 10MB).');
-        return;
-      }
+  // Recordings stay in IndexedDB until their job has finished
+  const transcribeRecording = async (blob: Blob, recordingUrl: string | null) => {
+    const recording = storedRecordingRef.current;
+    const submitted = await submitTranscriptionJob(blob, transcriptionOptions());
+    rememberActiveJob(submitted.job.id);
+    setJob(submitted.job);
+    if (await followJob(watchTranscriptionJob(submitted.job.id, setJob, submitted.upload), recordingUrl)) {
+      forgetStoredRecording(recording);
     }
+  };
 
-    setIsLoading(true);
-    try {
-      const formData = new FormData();
-      formData.append('audio', fileToTranscribe);
-
-      // Choose API endpoint based on provider
-      const endpoint = settings.provider === 'google' ? '/api/transcribe/google' : '/api/transcribe';
-      
-      // Add language for Google API
-      if (settings.provider === 'google') {
-        formData.append('language', settings.language);
-      }
+  const transcriptionOptions = () => ({
+    provider: settings.provider,
+    language: settings.language,
+    // Older saved settings predate pharmacy selection
+    pharmacy: settings.pharmacyId || '',
+  });
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        body: formData,
-      });
+  const handleTranscribe = async () => {
+    if ((!uploadedFile && !audioBlob) || job || isUploading) return;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Transcription failed');
+    setJobError(null);
+    try {
+      if (uploadedFile) {
+        // Files go up in resumable chunks; running this again after a failure resumes
+        const controller = new AbortController();
+        uploadAbortRef.current = controller;
+        setIsUploading(true);
+        const uploadId = await uploadInChunks(uploadedFile, setUploadProgress, controller.signal);
+        setIsUploading(false);
+        setUploadProgress(null);
+
+        const started = await startJobFromUpload(uploadId, transcriptionOptions());
+        rememberActiveJob(started.id);
+        setJob(started);
+        await followJob(watchTranscriptionJob(started.id, setJob), audioUrl);
+      } else if (audioBlob) {
+        await transcribeRecording(audioBlob, audioUrl);
       }
-
-      const data = await response.json();
-      onTranscriptionComplete(data);
     } catch (error) {
+      setIsUploading(false);
+      if (uploadAbortRef.current?.signal.aborted) return;
       console.error('Transcription error:', error);
-      
-      // Show more specific error messages
-      let errorMessage = 'Error transcribing audio. Please try again.';
-      
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          errorMessage = 'OpenAI API key not configured. Please add your API key to .env.local';
-        } else if (error.message.includes('file')) {
-          errorMessage = 'Invalid audio file format. Please try a different file.';
-        } else if (error.message.includes('quota') || error.message.includes('429') || error.message.includes('insufficient_quota')) {
-          errorMessage = 'OpenAI API quota exceeded. Please check your billing at https://platform.openai.com/account/billing';
-        } else if (error.message.includes('network')) {
-          errorMessage = 'Network error. Please check your internet connection.';
-        }
-      }
-      
-      alert(errorMessage);
+      setJobError(describeTranscriptionError(error));
     } finally {
-      setIsLoading(false);
+      uploadAbortRef.current = null;
+    }
+  };
+
+  const cancelUpload = () => {
+    uploadAbortRef.current?.abort();
+    setIsUploading(false);
+    setUploadProgress(null);
+    if (uploadedFile) {
+      discardUpload(uploadedFile);
     }
   };
 
+  const cancelJob = () => {
+    if (!job) return;
+    jobWatcherRef.current?.stop();
+    jobWatcherRef.current = null;
+    cancelTranscriptionJob(job.id);
+    setJob(null);
+  };
+
+  const progress = job ? jobProgress(job) : null;
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -260,6 +565,38 @@ export default function AudioRecorder({
           Record Pharmacy Consultation
         </h2>
 
+        {/* Recoverable Recordings */}
+        {recoverable.length > 0 && !isRecording && (
+          <div className="mb-6 space-y-2">
+            {recoverable.map(recording => (
+              <div
+                key={recording.id}
+                className="flex items-center justify-between bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 text-sm"
+              >
+                <span className="text-yellow-800 dark:text-yellow-200">
+                  Untranscribed recording from {new Date(recording.startedAt).toLocaleString()} ({formatTime(recording.duration)})
+                </span>
+                <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+                  <button
+                    onClick={() => restoreRecording(recording)}
+                    className="flex items-center space-x-1 bg-yellow-500 hover:bg-yellow-600 text-white px-3 py-1 rounded-lg font-medium transition-colors"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Recover</span>
+                  </button>
+                  <button
+                    onClick={() => discardRecording(recording)}
+                    className="p-1 text-yellow-700 hover:text-red-600 dark:text-yellow-300 dark:hover:text-red-400"
+                    title="Discard recording"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Audio Level Visualization */}
         <div className="mb-8">
           <div className="flex justify-center items-end space-x-1 h-20">
@@ -269,14 +606,44 @@ export default function AudioRecorder({
                 className="w-2 bg-gray-200 rounded-full transition-all duration-100"
                 style={{
                   height: `${Math.max(4, (audioLevel / 255) * 60 * (i / 20))}px`,
-                  backgroundColor: isRecording ? '#3B82F6' : '#E5E7EB'
+                  backgroundColor: isRecording && !isPaused ? '#3B82F6' : '#E5E7EB'
                 }}
               />
             ))}
           </div>
           {isRecording && (
             <div className="text-center text-sm text-gray-600">
-              Recording time: {formatTime(recordingTime)}
+              {isPaused ? 'Paused at' : 'Recording time:'} {formatTime(recordingTime)}
+            </div>
+          )}
+
+          {/* Live Transcript */}
+          {liveStatus !== 'off' && (
+            <div className="mt-4 bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-sm">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+                {liveStatus === 'connecting' && 'Starting live transcription...'}
+                {liveStatus === 'live' && 'Live transcript'}
+                {liveStatus === 'finalizing' && 'Finishing transcript...'}
+                {liveStatus === 'unavailable' && 'Live transcription unavailable'}
+              </div>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {liveSegments.map((segment, index) => (
+                  <p key={`committed-${index}`} className="text-gray-800 dark:text-gray-200">
+                    <span className={segment.speaker === 'Patient' ? 'font-medium text-green-700 dark:text-green-400' : 'font-medium text-blue-700 dark:text-blue-400'}>
+                      {segment.speaker}:
+                    </span>{' '}
+                    {segment.text}
+                  </p>
+                ))}
+                {livePartial.map((segment, index) => (
+                  <p key={`partial-${index}`} className="italic text-gray-500 dark:text-gray-400">
+                    {segment.speaker}: {segment.text}
+                  </p>
+                ))}
+              </div>
+              {liveMessage && (
+                <p className="mt-2 text-xs text-orange-600 dark:text-orange-400">{liveMessage}</p>
+              )}
             </div>
           )}
         </div>
@@ -292,23 +659,34 @@ export default function AudioRecorder({
               <span>Start Recording</span>
             </button>
           ) : (
-            <button
-              onClick={stopRecording}
-              className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-3 rounded-lg font-medium transition-colors"
-            >
-              <Square className="h-5 w-5" />
-              <span>Stop Recording</span>
-            </button>
+            <>
+              {isPaused ? (
+                <button
+                  onClick={resumeRecording}
+                  className="flex items-center space-x-2 bg-red-500 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                >
+                  <Mic className="h-5 w-5" />
+                  <span>Resume</span>
+                </button>
+              ) : (
+                <button
+                  onClick={pauseRecording}
+                  className="flex items-center space-x-2 bg-yellow-500 hover:bg-yellow-600 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                >
+                  <Pause className="h-5 w-5" />
+                  <span>Pause</span>
+                </button>
+              )}
+              <button
+                onClick={stopRecording}
+                className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+              >
+                <Square className="h-5 w-5" />
+                <span>Stop Recording</span>
+              </button>
+            </>
           )}
         </div>
-        
-        {/* Recording Tip */}
-        <div className="text-center mb-6">
-          <p className="text-sm text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-900/20 px-4 py-2 rounded-lg inline-block">
-            ⚠️ Important: Google Speech-to-Text has a 30-second limit for browser recordings. 
-            For longer audio, please upload a file instead.
-          </p>
-        </div>
 
         {/* Audio Playback */}
         {audioUrl && (
@@ -356,27 +734,149 @@ export default function AudioRecorder({
             <Upload className="h-12 w-12 text-gray-400 dark:text-gray-500 mx-auto mb-4" />
             <p className="text-gray-600 dark:text-gray-300">
               {isDragActive
-                ? 'Drop the audio file here...'
-                : 'Drag & drop an audio file here, or click to select'}
+                ? 'Drop the audio files here...'
+                : 'Drag & drop audio files here, or click to select. Several files are processed as a batch'}
             </p>
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
               Supports MP3, WAV, M4A, WebM, OGG
             </p>
           </div>
+
+          {uploadedFile && (
+            <div className="mt-4 bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-700 dark:text-gray-200 truncate">{uploadedFile.name}</span>
+                <span className="ml-4 flex-shrink-0 text-gray-500 dark:text-gray-400">
+                  {uploadProgress
+                    ? `${formatMegabytes(uploadProgress.uploadedBytes)} of ${formatMegabytes(uploadProgress.totalBytes)}`
+                    : formatMegabytes(uploadedFile.size)}
+                </span>
+              </div>
+              {uploadProgress && (
+                <div className="mt-2 flex items-center space-x-3">
+                  <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${isUploading ? 'bg-blue-500' : 'bg-orange-500'}`}
+                      style={{ width: `${Math.round((uploadProgress.uploadedBytes / uploadProgress.totalBytes) * 100)}%` }}
+                    />
+                  </div>
+                  {isUploading && (
+                    <button
+                      onClick={cancelUpload}
+                      className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                      title="Cancel upload"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Batch Queue */}
+        {batch.length > 0 && (
+          <BatchQueue
+            items={batch}
+            onRetry={id => updateBatchItem(id, { status: 'waiting', error: undefined })}
+            onRemove={id => setBatch(prev => prev.filter(item => item.id !== id))}
+            onOpen={openBatchItem}
+            onClearFinished={() => setBatch(prev => prev.filter(item => item.status !== 'done'))}
+          />
+        )}
+
         {/* Transcribe Button */}
-        {(audioBlob || uploadedFile) && (
+        {(audioBlob || uploadedFile) && !job && (
           <div className="text-center">
             <button
               onClick={handleTranscribe}
-              className="bg-green-500 hover:bg-green-600 text-white px-8 py-3 rounded-lg font-medium transition-colors"
+              disabled={isUploading}
+              className="bg-green-500 hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-8 py-3 rounded-lg font-medium transition-colors"
             >
-              Transcribe Audio
+              {isUploading ? 'Uploading...' : uploadProgress ? 'Resume Upload' : 'Transcribe Audio'}
             </button>
           </div>
         )}
+
+        {/* Transcription Job Progress */}
+        {job && (
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="font-medium text-gray-700 dark:text-gray-200">{describeJob(job)}</span>
+              <button
+                onClick={cancelJob}
+                className="flex items-center space-x-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                title="Cancel transcription"
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </button>
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+              {progress === null ? (
+                <div className="h-full w-full bg-green-500 animate-pulse" />
+              ) : (
+                <div
+                  className="h-full bg-green-500 transition-all"
+                  style={{ width: `${Math.round(progress * 100)}%` }}
+                />
+              )}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              You can keep recording or leave this page; the transcript opens here when it is ready.
+            </p>
+          </div>
+        )}
+        {jobError && (
+          <p className="mt-4 text-center text-sm text-red-600 dark:text-red-400">{jobError}</p>
+        )}
       </div>
     </div>
   );
-} 
\ No newline at end of file
+} 
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeJob(job: TranscriptionJob): string {
+  switch (job.status) {
+    case 'uploading':
+      return 'Uploading audio...';
+    case 'queued':
+      return 'Waiting for the transcription service...';
+    case 'transcribing':
+      return job.totalWindows > 1
+        ? `Transcribing part ${Math.min(job.completedWindows + 1, job.totalWindows)} of ${job.totalWindows}...`
+        : 'Transcribing...';
+    default:
+      return 'Finishing...';
+  }
+}
+
+/**
+ * 0-1, or null while there is nothing to measure (a single provider call).
+ */
+function jobProgress(job: TranscriptionJob): number | null {
+  if (job.status === 'uploading') {
+    return job.totalBytes ? Math.min(1, job.receivedBytes / job.totalBytes) : null;
+  }
+  if (job.status === 'transcribing' && job.totalWindows > 1) {
+    return job.completedWindows / job.totalWindows;
+  }
+  return job.status === 'queued' ? 0 : null;
+}
+
+function describeTranscriptionError(error: unknown): string {
+  if (error instanceof Error) {
+    if (error.message.includes('API key')) {
+      return 'OpenAI API key not configured. Please add your API key to .env.local';
+    } else if (error.message.includes('quota') || error.message.includes('429') || error.message.includes('insufficient_quota')) {
+      return 'OpenAI API quota exceeded. Please check your billing at https://platform.openai.com/account/billing';
+    } else if (error.message) {
+      return error.message;
+    }
+  }
+  return 'Error transcribing audio. Please try again.';
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { CheckCircle, AlertCircle, Loader2, RotateCcw, X, ExternalLink } from 'lucide-react';
+import { BatchItem, BatchStatus } from '@/lib/batch-queue';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpen: (item: BatchItem) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  waiting: 'Waiting',
+  uploading: 'Uploading',
+  transcribing: 'Transcribing',
+  summarizing: 'Summarizing',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+export default function BatchQueue({ items, onRetry, onRemove, onOpen, onClearFinished }: BatchQueueProps) {
+  const finished = items.filter(item => item.status === 'done').length;
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Batch ({finished} of {items.length} done)
+        </h3>
+        {finished > 0 && (
+          <button
+            onClick={onClearFinished}
+            className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {items.map(item => {
+          const isActive = item.status === 'uploading' || item.status === 'transcribing' || item.status === 'summarizing';
+          return (
+            <li key={item.id} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0">
+                  {item.status === 'done' && <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />}
+                  {item.status === 'failed' && <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-500" />}
+                  {isActive && <Loader2 className="h-4 w-4 flex-shrink-0 text-blue-500 animate-spin" />}
+                  <span className="font-medium text-gray-700 dark:text-gray-200 truncate">{item.file.name}</span>
+                </div>
+                <div className="flex items-center space-x-3 ml-4 flex-shrink-0">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {STATUS_LABELS[item.status]}
+                    {isActive && item.progress !== null && ` ${Math.round(item.progress * 100)}%`}
+                  </span>
+                  {item.status === 'done' && (
+                    <button
+                      onClick={() => onOpen(item)}
+                      className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      <span>Open</span>
+                    </button>
+                  )}
+                  {item.status === 'failed' && (
+                    <button
+                      onClick={() => onRetry(item.id)}
+                      className="flex items-center space-x-1 text-orange-600 hover:text-orange-700 dark:text-orange-400"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      <span>Retry</span>
+                    </button>
+                  )}
+                  {!isActive && (
+                    <button
+                      onClick={() => onRemove(item.id)}
+                      className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Remove from batch"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {item.summary?.source === 'fallback' && (
+                <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                  Summary put together by keyword matching; check it against the transcript
+                </p>
+              )}
+              {item.error && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">{item.error}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
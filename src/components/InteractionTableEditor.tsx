@@ -0,0 +1,264 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { X, Save, Trash2, Search, Upload } from 'lucide-react';
+import {
+  DrugInteraction,
+  INTERACTION_SEVERITIES,
+  InteractionSeverity,
+  parseInteractionCsv,
+  parseInteractions,
+  SEVERITY_LABELS,
+} from '@/lib/interactions';
+
+interface InteractionTableEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Imported tables can be large; filtering narrows what is rendered
+const MAX_VISIBLE_ROWS = 200;
+
+export default function InteractionTableEditor({ isOpen, onClose }: InteractionTableEditorProps) {
+  const [interactions, setInteractions] = useState<DrugInteraction[] | null>(null);
+  const [defaults, setDefaults] = useState<DrugInteraction[]>([]);
+  const [filter, setFilter] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/interactions')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load interaction table');
+        return response.json();
+      })
+      .then(data => {
+        setInteractions(data.interactions);
+        setDefaults(data.defaults);
+        setNotice(null);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error loading interaction table:', error);
+        setError('Could not load the interaction table. Please try again.');
+      });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const query = filter.trim().toLowerCase();
+  const matchingRows = (interactions || [])
+    .map((interaction, index) => ({ interaction, index }))
+    .filter(({ interaction }) =>
+      !query || [...interaction.drugA, ...interaction.drugB].some(name => name.toLowerCase().includes(query))
+    );
+
+  const updateInteraction = (index: number, changes: Partial<DrugInteraction>) => {
+    setInteractions(current => current && current.map((interaction, i) => (i === index ? { ...interaction, ...changes } : interaction)));
+  };
+
+  const removeInteraction = (index: number) => {
+    setInteractions(current => current && current.filter((_, i) => i !== index));
+  };
+
+  const restoreDefaults = () => {
+    if (!confirm('Replace the table with the built-in starter table?')) return;
+    setInteractions(defaults);
+    setNotice(null);
+  };
+
+  // CSV or JSON, read in the browser so problems are reported before anything is saved
+  const importFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      let imported: DrugInteraction[];
+      if (file.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text)) {
+        const data = JSON.parse(text);
+        imported = parseInteractions(Array.isArray(data) ? data : data?.interactions);
+      } else {
+        imported = parseInteractionCsv(text);
+      }
+
+      if (!confirm(`Replace the current table with ${imported.length} interactions from ${file.name}?`)) return;
+      setInteractions(imported);
+      setNotice(`Imported ${imported.length} interactions from ${file.name}. Save to start using them.`);
+      setError(null);
+    } catch (error) {
+      console.error('Error importing interaction table:', error);
+      setError(error instanceof Error ? `Could not import ${file.name}: ${error.message}` : `Could not import ${file.name}.`);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!interactions) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/interactions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ interactions }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save interaction table');
+      }
+
+      setInteractions(data.interactions);
+      setError(null);
+      onClose();
+    } catch (error) {
+      console.error('Error saving interaction table:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the interaction table.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Drug Interactions</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              The local table every summary&apos;s medications are checked against, without leaving this server
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:text-gray-300 dark:hover:text-gray-200"
+            title="Close interaction table"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {notice && <p className="text-sm text-green-700 dark:text-green-400">{notice}</p>}
+
+          {interactions && (
+            <>
+              {/* Import */}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  {interactions.length} interactions
+                </span>
+                <button
+                  onClick={restoreDefaults}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Restore built-in table
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importFile(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center space-x-1 px-3 py-2 ml-auto text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  <Upload className="h-4 w-4" />
+                  <span>Import CSV or JSON</span>
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                CSV files need a header row of drug_a, drug_b, severity, mechanism, management. Separate alternative
+                names in a drug cell with semicolons, e.g. &quot;warfarin;coumadin&quot;. Severity is one
+                of {INTERACTION_SEVERITIES.join(', ')}. JSON files hold a list of rows with drugA, drugB, severity,
+                mechanism and management. An import replaces the whole table.
+              </p>
+
+              {/* Interaction List */}
+              <div className="relative">
+                <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter by drug name"
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                {matchingRows.length === 0 && (
+                  <p className="p-4 text-sm text-gray-500 dark:text-gray-400 text-center">No interactions</p>
+                )}
+                {matchingRows.slice(0, MAX_VISIBLE_ROWS).map(({ interaction, index }) => (
+                  <div key={index} className="flex items-start gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {interaction.drugA.join(', ')} <span className="text-gray-400">+</span> {interaction.drugB.join(', ')}
+                      </p>
+                      {interaction.mechanism && (
+                        <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">{interaction.mechanism}</p>
+                      )}
+                      {interaction.management && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{interaction.management}</p>
+                      )}
+                    </div>
+                    <select
+                      value={interaction.severity}
+                      onChange={(e) => updateInteraction(index, { severity: e.target.value as InteractionSeverity })}
+                      className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      title="Severity"
+                    >
+                      {INTERACTION_SEVERITIES.map(severity => (
+                        <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => removeInteraction(index)}
+                      className="mt-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Remove interaction"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {matchingRows.length > MAX_VISIBLE_ROWS && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Showing {MAX_VISIBLE_ROWS} of {matchingRows.length}. Filter by drug name to find others.
+                </p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The built-in table covers a handful of common, well-documented interactions and is not a complete
+                reference. Import a maintained dataset for clinical use.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !interactions}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-600 flex items-center space-x-2"
+          >
+            <Save className="h-4 w-4" />
+            <span>{isSaving ? 'Saving...' : 'Save Table'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
 'use client';
 
-import { useState } from 'react';
-import { X, Save, Key, Globe, Mic } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { X, Save, Key, Mic, RefreshCw, BookOpen, Sparkles, FileText, ShieldAlert } from 'lucide-react';
+import InteractionTableEditor from '@/components/InteractionTableEditor';
+import TemplateEditor from '@/components/TemplateEditor';
+import VocabularyEditor from '@/components/VocabularyEditor';
+import type { SelfHostedHealth } from '@/lib/self-hosted';
+import type { ApiCredentials, ConnectionTest, CredentialService, CredentialSource, CredentialStatus } from '@/lib/credentials';
+import { getCredentialStatus, saveSessionCredentials, testCredentials } from '@/lib/session-credentials';
+import type { TranscriptionProviderInfo } from '@/lib/transcription/types';
+import type { SummarizerInfo } from '@/lib/summarization/types';
+import { DEFAULT_TEMPLATE_ID, type NoteTemplate } from '@/lib/templates';
+import type { PharmacyVocabulary } from '@/lib/vocabulary';
+import { AUTO_DETECT_LANGUAGE, languageName, OUTPUT_LANGUAGES, TRANSCRIPTION_LANGUAGES } from '@/lib/languages';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -11,23 +22,42 @@ interface SettingsPanelProps {
 }
 
 export interface TranscriptionSettings {
-  provider: 'openai' | 'google';
-  summarizer: 'openai' | 'gemini';
-  openaiApiKey: string;
-  googleApiKey: string;
-  googleProjectId: string;
+  // Id of a provider from /api/transcribe/providers
+  provider: string;
+  // Id of a summarizer from /api/summarize/providers
+  summarizer: string;
+  // Transcription language, or AUTO_DETECT_LANGUAGE
   language: string;
+  // Language the pharmacist reads; clinical summaries are always written in it
+  summaryLanguage: string;
   model: string;
+  // Pharmacy whose vocabulary additions apply; empty for the shared list only
+  pharmacyId: string;
+  // Id of the note template summaries fill in; empty for the default
+  templateId: string;
 }
 
+const PROVIDER_COLORS = [
+  { selected: 'border-blue-500 bg-blue-50 dark:bg-blue-900/20', icon: 'bg-blue-500' },
+  { selected: 'border-green-500 bg-green-50 dark:bg-green-900/20', icon: 'bg-green-500' },
+  { selected: 'border-purple-500 bg-purple-50 dark:bg-purple-900/20', icon: 'bg-purple-500' },
+  { selected: 'border-orange-500 bg-orange-50 dark:bg-orange-900/20', icon: 'bg-orange-500' },
+];
+
+const EMPTY_CREDENTIALS: Required<ApiCredentials> = { openaiApiKey: '', googleApiKey: '', googleProjectId: '' };
+
+const LANGUAGE_LABELS: Record<string, string> = Object.fromEntries(
+  TRANSCRIPTION_LANGUAGES.map(language => [language.code, language.label])
+);
+
 const defaultSettings: TranscriptionSettings = {
   provider: 'google',
   summarizer: 'gemini',
-  openaiApiKey: '',
-  googleApiKey: '',
-  googleProjectId: '',
-  language: 'en-US',
-  model: 'whisper-1'
+  language: AUTO_DETECT_LANGUAGE,
+  summaryLanguage: 'en',
+  model: 'whisper-1',
+  pharmacyId: '',
+  templateId: ''
 };
 
 export default function SettingsPanel({
@@ -38,9 +68,141 @@ export default function SettingsPanel({
 }: SettingsPanelProps) {
   const [settings, setSettings] = useState<TranscriptionSettings>(currentSettings);
   const [isSaving, setIsSaving] = useState(false);
+  const [providers, setProviders] = useState<TranscriptionProviderInfo[]>([]);
+  const [providersError, setProvidersError] = useState<string | null>(null);
+  const [summarizers, setSummarizers] = useState<SummarizerInfo[]>([]);
+  const [summarizersError, setSummarizersError] = useState<string | null>(null);
+  const [pharmacies, setPharmacies] = useState<PharmacyVocabulary[]>([]);
+  const [isVocabularyOpen, setIsVocabularyOpen] = useState(false);
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isInteractionsOpen, setIsInteractionsOpen] = useState(false);
+  // Keys typed here are sent to the server's session store on save and never kept in the browser
+  const [credentials, setCredentials] = useState<Required<ApiCredentials>>(EMPTY_CREDENTIALS);
+  const [credentialStatus, setCredentialStatus] = useState<CredentialStatus | null>(null);
+  const [connectionTests, setConnectionTests] = useState<Partial<Record<CredentialService, ConnectionTest | 'testing'>>>({});
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Providers and their capabilities come from the server registry
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/transcribe/providers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load providers');
+        return response.json();
+      })
+      .then(data => {
+        setProviders(data.providers);
+        setProvidersError(null);
+      })
+      .catch(error => {
+        console.error('Error loading transcription providers:', error);
+        setProvidersError('Could not load transcription providers. Please try again.');
+      });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/summarize/providers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load summarizers');
+        return response.json();
+      })
+      .then(data => {
+        setSummarizers(data.summarizers);
+        setSummarizersError(null);
+      })
+      .catch(error => {
+        console.error('Error loading summarizers:', error);
+        setSummarizersError('Could not load summarizers. Please try again.');
+      });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/vocabulary')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setPharmacies(data?.vocabulary.pharmacies || []))
+      .catch(error => console.error('Error loading pharmacies:', error));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/templates')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setTemplates(data?.templates || []))
+      .catch(error => console.error('Error loading note templates:', error));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setCredentials(EMPTY_CREDENTIALS);
+    setConnectionTests({});
+    setSaveError(null);
+    getCredentialStatus()
+      .then(setCredentialStatus)
+      .catch(error => console.error('Error loading API key status:', error));
+  }, [isOpen]);
+
+  const selectedProvider = providers.find(provider => provider.id === settings.provider);
 
-  const handleSave = () => {
+  const [selfHostedHealth, setSelfHostedHealth] = useState<{
+    transcription: SelfHostedHealth;
+    llm: SelfHostedHealth;
+  } | null>(null);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
+
+  const checkSelfHostedHealth = async () => {
+    setIsCheckingHealth(true);
+    try {
+      const response = await fetch('/api/health');
+      const data = await response.json();
+      setSelfHostedHealth(data.selfHosted);
+    } catch (error) {
+      console.error('Health check error:', error);
+      setSelfHostedHealth(null);
+    } finally {
+      setIsCheckingHealth(false);
+    }
+  };
+
+  const runConnectionTest = async (service: CredentialService) => {
+    setConnectionTests(tests => ({ ...tests, [service]: 'testing' }));
+    const result = service === 'openai'
+      ? await testCredentials('openai', credentials.openaiApiKey)
+      : await testCredentials('google', credentials.googleApiKey, credentials.googleProjectId);
+    setConnectionTests(tests => ({ ...tests, [service]: result }));
+  };
+
+  const forgetCredential = async (name: keyof ApiCredentials) => {
+    try {
+      setCredentialStatus(await saveSessionCredentials({ [name]: '' }));
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Could not remove the key');
+    }
+  };
+
+  const handleSave = async () => {
     setIsSaving(true);
+    setSaveError(null);
+    try {
+      const enteredKeys = Object.fromEntries(
+        Object.entries(credentials).filter(([, value]) => value.trim())
+      );
+      if (Object.keys(enteredKeys).length > 0) {
+        await saveSessionCredentials(enteredKeys);
+      }
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Could not save API keys');
+      setIsSaving(false);
+      return;
+    }
+
     // Save to localStorage
     localStorage.setItem('transcriptionSettings', JSON.stringify(settings));
     onSettingsChange(settings);
@@ -72,96 +234,162 @@ export default function SettingsPanel({
           {/* Provider Selection */}
           <div>
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Transcription Provider</h3>
+            {providersError && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{providersError}</p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div
-                className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                  settings.provider === 'openai'
-                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
-                    : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
-                }`}
-                onClick={() => setSettings({ ...settings, provider: 'openai' })}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className="w-10 h-10 bg-blue-500 rounded-lg flex items-center justify-center">
-                    <Mic className="h-6 w-6 text-white" />
-                  </div>
-                  <div>
-                    <h4 className="font-medium text-gray-900 dark:text-white">OpenAI Whisper</h4>
-                    <p className="text-sm text-gray-600 dark:text-gray-300">High accuracy, $0.006/minute</p>
-                  </div>
-                </div>
-              </div>
-
-              <div
-                className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                  settings.provider === 'google'
-                    ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
-                    : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
-                }`}
-                onClick={() => setSettings({ ...settings, provider: 'google' })}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className="w-10 h-10 bg-green-500 rounded-lg flex items-center justify-center">
-                    <Globe className="h-6 w-6 text-white" />
-                  </div>
-                  <div>
-                    <h4 className="font-medium text-gray-900 dark:text-white">Google Speech-to-Text</h4>
-                    <p className="text-sm text-gray-600 dark:text-gray-300">Free tier available, $0.006/minute</p>
+              {providers.map((provider, index) => {
+                const color = PROVIDER_COLORS[index % PROVIDER_COLORS.length];
+                const maxDuration = provider.capabilities.maxDurationSeconds;
+                return (
+                  <div
+                    key={provider.id}
+                    className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
+                      settings.provider === provider.id
+                        ? color.selected
+                        : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
+                    }`}
+                    onClick={() => setSettings({ ...settings, provider: provider.id })}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-10 h-10 ${color.icon} rounded-lg flex items-center justify-center`}>
+                        <Mic className="h-6 w-6 text-white" />
+                      </div>
+                      <div>
+                        <h4 className="font-medium text-gray-900 dark:text-white">{provider.label}</h4>
+                        <p className="text-sm text-gray-600 dark:text-gray-300">{provider.description}</p>
+                        {!provider.configured && (
+                          <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                            ⚠️ Not configured on the server
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-3 text-xs">
+                      <span className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded">
+                        {maxDuration ? `Up to ${Math.round(maxDuration / 60)} min per request` : 'Any length'}
+                      </span>
+                      {provider.capabilities.diarization && (
+                        <span className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded">Speaker labels</span>
+                      )}
+                      {provider.capabilities.wordTimings && (
+                        <span className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded">Word timing</span>
+                      )}
+                      <span className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded">
+                        {provider.capabilities.languages.length > 0
+                          ? `${provider.capabilities.languages.length} languages`
+                          : 'Auto-detects language'}
+                      </span>
+                    </div>
                   </div>
-                </div>
-              </div>
+                );
+              })}
             </div>
           </div>
 
           {/* Summarizer Selection */}
           <div>
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">AI Summarizer</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div
-                className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                  settings.summarizer === 'openai'
-                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
-                    : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
-                }`}
-                onClick={() => setSettings({ ...settings, summarizer: 'openai' })}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className="w-10 h-10 bg-blue-500 rounded-lg flex items-center justify-center">
-                    <Mic className="h-6 w-6 text-white" />
-                  </div>
-                  <div>
-                    <h4 className="font-medium text-gray-900 dark:text-white">OpenAI GPT-4</h4>
-                    <p className="text-sm text-gray-600 dark:text-gray-300">Advanced AI summarization</p>
+            {summarizersError && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{summarizersError}</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {summarizers.map((summarizer, index) => {
+                const color = PROVIDER_COLORS[index % PROVIDER_COLORS.length];
+                return (
+                  <div
+                    key={summarizer.id}
+                    className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
+                      settings.summarizer === summarizer.id
+                        ? color.selected
+                        : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
+                    }`}
+                    onClick={() => setSettings({ ...settings, summarizer: summarizer.id })}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-10 h-10 ${color.icon} rounded-lg flex items-center justify-center flex-shrink-0`}>
+                        <Sparkles className="h-6 w-6 text-white" />
+                      </div>
+                      <div>
+                        <h4 className="font-medium text-gray-900 dark:text-white">{summarizer.label}</h4>
+                        <p className="text-sm text-gray-600 dark:text-gray-300">{summarizer.description}</p>
+                        {!summarizer.configured && (
+                          <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                            ⚠️ Not configured
+                          </p>
+                        )}
+                        {summarizer.setupHint && (
+                          <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                            ⚠️ {summarizer.setupHint}
+                          </p>
+                        )}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
+                );
+              })}
+            </div>
+          </div>
 
-              <div
-                className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                  settings.summarizer === 'gemini'
-                    ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
-                    : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
-                }`}
-                onClick={() => setSettings({ ...settings, summarizer: 'gemini' })}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className="w-10 h-10 bg-green-500 rounded-lg flex items-center justify-center">
-                    <Globe className="h-6 w-6 text-white" />
-                  </div>
-                  <div>
-                    <h4 className="font-medium text-gray-900 dark:text-white">Google Gemini</h4>
-                    <p className="text-sm text-gray-600 dark:text-gray-300">Fast and cost-effective</p>
-                    <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
-                      ⚠️ Requires enabling Generative Language API in Google Cloud Console
-                    </p>
-                  </div>
-                </div>
+          {/* Self-hosted Servers */}
+          {(settings.provider === 'self-hosted' || settings.summarizer === 'self-hosted') && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Self-hosted Servers</h3>
+                <button
+                  onClick={checkSelfHostedHealth}
+                  disabled={isCheckingHealth}
+                  className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-purple-500 hover:bg-purple-600 disabled:bg-gray-300 dark:disabled:bg-gray-600 text-white rounded-lg"
+                >
+                  <RefreshCw className={`h-4 w-4 ${isCheckingHealth ? 'animate-spin' : ''}`} />
+                  <span>Check connection</span>
+                </button>
               </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Servers are configured on the server with SELF_HOSTED_TRANSCRIBE_BASE_URL / SELF_HOSTED_TRANSCRIBE_MODEL
+                and SELF_HOSTED_LLM_BASE_URL / SELF_HOSTED_LLM_MODEL.
+              </p>
+              {selfHostedHealth && (
+                <div className="space-y-2">
+                  {[selfHostedHealth.transcription, selfHostedHealth.llm].map(health => (
+                    <div
+                      key={health.service}
+                      className="flex items-start justify-between bg-gray-50 dark:bg-gray-700 rounded-lg p-3 text-sm"
+                    >
+                      <div>
+                        <div className="font-medium text-gray-900 dark:text-white">
+                          {health.service === 'transcription' ? 'Transcription server' : 'LLM server'}
+                        </div>
+                        {health.baseURL && (
+                          <div className="text-xs text-gray-600 dark:text-gray-300">
+                            {health.baseURL} · {health.model}
+                            {health.modelAvailable === false && ' (model not listed by server)'}
+                          </div>
+                        )}
+                        {health.error && (
+                          <div className="text-xs text-red-600 dark:text-red-400">{health.error}</div>
+                        )}
+                      </div>
+                      <span
+                        className={`text-xs font-medium px-2 py-0.5 rounded ${
+                          !health.configured
+                            ? 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300'
+                            : health.ok
+                            ? 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300'
+                            : 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                        }`}
+                      >
+                        {!health.configured ? 'Not configured' : health.ok ? `Online (${health.latencyMs}ms)` : 'Offline'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
-          </div>
+          )}
 
           {/* OpenAI Settings */}
-          {settings.provider === 'openai' && (
+          {(settings.provider === 'openai' || settings.summarizer === 'openai') && (
             <div className="space-y-4">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white">OpenAI Configuration</h3>
               <div>
@@ -171,13 +399,19 @@ export default function SettingsPanel({
                 <div className="relative">
                   <input
                     type="password"
-                    value={settings.openaiApiKey}
-                    onChange={(e) => setSettings({ ...settings, openaiApiKey: e.target.value })}
-                    placeholder="sk-..."
+                    autoComplete="off"
+                    value={credentials.openaiApiKey}
+                    onChange={(e) => setCredentials({ ...credentials, openaiApiKey: e.target.value })}
+                    placeholder={keyPlaceholder(credentialStatus?.openaiApiKey ?? null, 'sk-...')}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   />
                   <Key className="absolute right-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
                 </div>
+                <KeyActions
+                  test={connectionTests.openai}
+                  onTest={() => runConnectionTest('openai')}
+                  onForget={credentialStatus?.openaiApiKey === 'session' ? () => forgetCredential('openaiApiKey') : undefined}
+                />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                   Get your API key from{' '}
                   <a
@@ -191,24 +425,26 @@ export default function SettingsPanel({
                 </p>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Model
-                </label>
-                <select
-                  value={settings.model}
-                  onChange={(e) => setSettings({ ...settings, model: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  title="Select OpenAI model"
-                >
-                  <option value="whisper-1">Whisper-1 (Recommended)</option>
-                </select>
-              </div>
+              {settings.provider === 'openai' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Model
+                  </label>
+                  <select
+                    value={settings.model}
+                    onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    title="Select OpenAI model"
+                  >
+                    <option value="whisper-1">Whisper-1 (Recommended)</option>
+                  </select>
+                </div>
+              )}
             </div>
           )}
 
           {/* Google Settings */}
-          {settings.provider === 'google' && (
+          {(settings.provider === 'google' || settings.summarizer === 'gemini') && (
             <div className="space-y-4">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white">Google Cloud Configuration</h3>
               <div>
@@ -218,13 +454,19 @@ export default function SettingsPanel({
                 <div className="relative">
                   <input
                     type="password"
-                    value={settings.googleApiKey}
-                    onChange={(e) => setSettings({ ...settings, googleApiKey: e.target.value })}
-                    placeholder="AIza..."
+                    autoComplete="off"
+                    value={credentials.googleApiKey}
+                    onChange={(e) => setCredentials({ ...credentials, googleApiKey: e.target.value })}
+                    placeholder={keyPlaceholder(credentialStatus?.googleApiKey ?? null, 'AIza...')}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   />
                   <Key className="absolute right-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
                 </div>
+                <KeyActions
+                  test={connectionTests.google}
+                  onTest={() => runConnectionTest('google')}
+                  onForget={credentialStatus?.googleApiKey === 'session' ? () => forgetCredential('googleApiKey') : undefined}
+                />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                   Get your API key from{' '}
                   <a
@@ -244,41 +486,150 @@ export default function SettingsPanel({
                 </label>
                 <input
                   type="text"
-                  value={settings.googleProjectId}
-                  onChange={(e) => setSettings({ ...settings, googleProjectId: e.target.value })}
-                  placeholder="your-project-id"
+                  value={credentials.googleProjectId}
+                  onChange={(e) => setCredentials({ ...credentials, googleProjectId: e.target.value })}
+                  placeholder={keyPlaceholder(credentialStatus?.googleProjectId ?? null, 'your-project-id')}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                 />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Your Google Cloud Project ID
+                  Optional. Google requests are billed to this project instead of the key&apos;s own
                 </p>
               </div>
+            </div>
+          )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Language
-                </label>
-                <select
-                  value={settings.language}
-                  onChange={(e) => setSettings({ ...settings, language: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  title="Select language for transcription"
-                >
-                  <option value="en-US">English (US)</option>
-                  <option value="en-GB">English (UK)</option>
-                  <option value="fr-FR">French</option>
-                  <option value="es-ES">Spanish</option>
-                  <option value="de-DE">German</option>
-                  <option value="it-IT">Italian</option>
-                  <option value="pt-BR">Portuguese (Brazil)</option>
-                  <option value="ja-JP">Japanese</option>
-                  <option value="ko-KR">Korean</option>
-                  <option value="zh-CN">Chinese (Simplified)</option>
-                </select>
-              </div>
+          {(settings.provider === 'openai' || settings.provider === 'google' || settings.summarizer !== 'self-hosted') && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Keys entered here are held in server memory for this browser session only and take precedence over
+              the server&apos;s own keys. They are never stored in the browser.
+            </p>
+          )}
+
+          {/* Language */}
+          {selectedProvider && selectedProvider.capabilities.languages.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Language
+              </label>
+              <select
+                value={settings.language}
+                onChange={(e) => setSettings({ ...settings, language: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                title="Select language for transcription"
+              >
+                {selectedProvider.capabilities.languageDetection && (
+                  <option value={AUTO_DETECT_LANGUAGE}>Detect automatically (mixed languages)</option>
+                )}
+                {selectedProvider.capabilities.languages.map(code => (
+                  <option key={code} value={code}>{LANGUAGE_LABELS[code] || code}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Automatic detection labels each segment with the language spoken, for visits that switch languages
+              </p>
             </div>
           )}
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Summary Language
+            </label>
+            <select
+              value={settings.summaryLanguage || 'en'}
+              onChange={(e) => setSettings({ ...settings, summaryLanguage: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              title="Select the language clinical summaries are written in"
+            >
+              {OUTPUT_LANGUAGES.map(code => (
+                <option key={code} value={code}>{languageName(code)}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              The pharmacist&apos;s language. Clinical summaries are written in it whatever language the visit was in.
+            </p>
+          </div>
+
+          {/* Note Template */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Note Template
+              </label>
+              <button
+                onClick={() => setIsTemplatesOpen(true)}
+                className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <FileText className="h-4 w-4" />
+                <span>Edit templates</span>
+              </button>
+            </div>
+            <select
+              value={settings.templateId || ''}
+              onChange={(e) => setSettings({ ...settings, templateId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              title="Select the note template summaries fill in"
+            >
+              <option value="">Default ({templates.find(template => template.id === DEFAULT_TEMPLATE_ID)?.name || 'Consultation Summary'})</option>
+              {templates.filter(template => template.id !== DEFAULT_TEMPLATE_ID).map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {templates.find(template => template.id === (settings.templateId || DEFAULT_TEMPLATE_ID))?.description ||
+                'The sections the summarizer writes and how the summary is laid out'}
+            </p>
+          </div>
+
+          {/* Vocabulary */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Pharmacy Vocabulary
+              </label>
+              <button
+                onClick={() => setIsVocabularyOpen(true)}
+                className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <BookOpen className="h-4 w-4" />
+                <span>Edit vocabulary</span>
+              </button>
+            </div>
+            <select
+              value={settings.pharmacyId || ''}
+              onChange={(e) => setSettings({ ...settings, pharmacyId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              title="Select pharmacy"
+            >
+              <option value="">Shared vocabulary only</option>
+              {pharmacies.map(pharmacy => (
+                <option key={pharmacy.id} value={pharmacy.id}>{pharmacy.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Drug names and jargon sent to the transcription provider as recognition hints, plus this pharmacy&apos;s formulary and prescriber names
+            </p>
+          </div>
+
+          {/* Drug Interactions */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Drug Interactions
+              </label>
+              <button
+                onClick={() => setIsInteractionsOpen(true)}
+                className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <ShieldAlert className="h-4 w-4" />
+                <span>Edit interaction table</span>
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Every summary&apos;s medications are checked against a local interaction table. Import your own CSV or
+              JSON dataset to replace the built-in starter table.
+            </p>
+          </div>
+
           {/* Help Section */}
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Help & Troubleshooting</h3>
@@ -323,6 +674,10 @@ export default function SettingsPanel({
           </div>
         </div>
 
+        {saveError && (
+          <p className="px-6 pt-4 text-sm text-red-600 dark:text-red-400">{saveError}</p>
+        )}
+
         <div className="flex items-center justify-between p-6 border-t border-gray-200 dark:border-gray-700">
           <button
             onClick={handleReset}
@@ -348,6 +703,62 @@ export default function SettingsPanel({
           </div>
         </div>
       </div>
+
+      <VocabularyEditor
+        isOpen={isVocabularyOpen}
+        onClose={() => setIsVocabularyOpen(false)}
+        onSaved={vocabulary => setPharmacies(vocabulary.pharmacies)}
+      />
+
+      <TemplateEditor
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+        onSaved={setTemplates}
+      />
+
+      <InteractionTableEditor
+        isOpen={isInteractionsOpen}
+        onClose={() => setIsInteractionsOpen(false)}
+      />
     </div>
   );
-} 
\ No newline at end of file
+} 
+function keyPlaceholder(source: CredentialSource, example: string) {
+  if (source === 'session') return 'Saved for this session; enter a new value to replace it';
+  if (source === 'server') return 'Using the server\'s key; enter one to override it';
+  return example;
+}
+
+interface KeyActionsProps {
+  test: ConnectionTest | 'testing' | undefined;
+  onTest: () => void;
+  onForget?: () => void;
+}
+
+function KeyActions({ test, onTest, onForget }: KeyActionsProps) {
+  return (
+    <div className="flex items-center flex-wrap gap-3 mt-2 text-xs">
+      <button
+        onClick={onTest}
+        disabled={test === 'testing'}
+        className="flex items-center space-x-1 px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded"
+      >
+        <RefreshCw className={`h-3 w-3 ${test === 'testing' ? 'animate-spin' : ''}`} />
+        <span>Test connection</span>
+      </button>
+      {test && test !== 'testing' && (
+        <span className={test.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+          {test.ok ? `Connected (${test.latencyMs}ms)` : test.error}
+        </span>
+      )}
+      {onForget && (
+        <button
+          onClick={onForget}
+          className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+        >
+          Forget saved key
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,35 +1,89 @@
 'use client';
 
 import { useState } from 'react';
-import { Download, FileText, FileDown, Printer, Copy, Check } from 'lucide-react';
+import { Download, FileText, FileDown, Printer, Copy, Check, AlertTriangle, X, Quote, ShieldAlert, ShieldX } from 'lucide-react';
 import { Document, Packer, Paragraph, TextRun } from 'docx';
 import jsPDF from 'jspdf';
-
-interface SummaryData {
-  keyTopics: string[];
-  medications: Array<{
-    name: string;
-    dosage?: string;
-    frequency?: string;
-    notes?: string;
-  }>;
-  actionItems: string[];
-  patientConcerns: string[];
-  pharmacistRecommendations: string[];
-}
-
-interface TranscriptionData {
-  text: string;
-  duration: number;
-}
+import { AllergyConflict, conflictKey, formatAllergy } from '@/lib/allergies';
+import { InteractionAlert, InteractionSeverity, SEVERITY_LABELS } from '@/lib/interactions';
+import { languageName } from '@/lib/languages';
+import { summaryMedications } from '@/lib/medications';
+import { describeProviderTrace } from '@/lib/provider-trace';
+import { formatSig, sigPhrase } from '@/lib/sig';
+import type { SectionColor, TemplateSection } from '@/lib/templates';
+import { EvidenceSpan, SectionValue, SummaryAllergy, SummaryData, SummaryMedication, TranscriptionData } from '@/lib/types';
 
 interface SummaryViewProps {
   data: SummaryData;
   transcriptionData: TranscriptionData | null;
+  // Still being written; sections fill in as they arrive and exports wait for the end
+  isGenerating?: boolean;
+  onCancel?: () => void;
+  // Opens the transcript at the passage a summary item was taken from
+  onShowEvidence?: (span: EvidenceSpan) => void;
+  // Kept with the summary by the page, so leaving this view doesn't undo it
+  onAcknowledgeConflict?: (conflict: AllergyConflict) => void;
 }
 
-export default function SummaryView({ data, transcriptionData }: SummaryViewProps) {
+const FALLBACK_NOTICE = 'The AI reply could not be used, so this summary was put together by keyword matching. Check it against the transcript before relying on it.';
+const UNSUPPORTED_NOTICE = 'Not found in the transcript; this may not have been said.';
+const ACKNOWLEDGE_NOTICE = 'Acknowledge every allergy alert before copying, printing or exporting.';
+
+// Written out in full so Tailwind keeps every class a template can pick
+const SECTION_STYLES: Record<SectionColor, { box: string; title: string; dot: string; text: string; detail: string; marker: string; border: string }> = {
+  blue: { box: 'bg-blue-50', title: 'text-blue-900', dot: 'bg-blue-500', text: 'text-blue-800', detail: 'text-blue-600', marker: 'text-blue-500', border: 'border-blue-200' },
+  green: { box: 'bg-green-50', title: 'text-green-900', dot: 'bg-green-500', text: 'text-green-800', detail: 'text-green-600', marker: 'text-green-500', border: 'border-green-200' },
+  purple: { box: 'bg-purple-50', title: 'text-purple-900', dot: 'bg-purple-500', text: 'text-purple-800', detail: 'text-purple-600', marker: 'text-purple-500', border: 'border-purple-200' },
+  orange: { box: 'bg-orange-50', title: 'text-orange-900', dot: 'bg-orange-500', text: 'text-orange-800', detail: 'text-orange-600', marker: 'text-orange-500', border: 'border-orange-200' },
+  indigo: { box: 'bg-indigo-50', title: 'text-indigo-900', dot: 'bg-indigo-500', text: 'text-indigo-800', detail: 'text-indigo-600', marker: 'text-indigo-500', border: 'border-indigo-200' },
+  teal: { box: 'bg-teal-50', title: 'text-teal-900', dot: 'bg-teal-500', text: 'text-teal-800', detail: 'text-teal-600', marker: 'text-teal-500', border: 'border-teal-200' },
+  red: { box: 'bg-red-50', title: 'text-red-900', dot: 'bg-red-500', text: 'text-red-800', detail: 'text-red-600', marker: 'text-red-500', border: 'border-red-200' },
+  gray: { box: 'bg-gray-50', title: 'text-gray-900', dot: 'bg-gray-500', text: 'text-gray-800', detail: 'text-gray-600', marker: 'text-gray-500', border: 'border-gray-200' },
+};
+
+const SEVERITY_BADGES: Record<InteractionSeverity, string> = {
+  contraindicated: 'bg-red-600 text-white',
+  major: 'bg-red-100 text-red-800',
+  moderate: 'bg-amber-100 text-amber-800',
+  minor: 'bg-gray-100 text-gray-700',
+};
+
+export default function SummaryView({
+  data,
+  transcriptionData,
+  isGenerating = false,
+  onCancel,
+  onShowEvidence,
+  onAcknowledgeConflict
+}: SummaryViewProps) {
   const [copied, setCopied] = useState(false);
+  const allergyConflicts = data.allergyConflicts ?? [];
+  const acknowledged = data.acknowledgedConflicts ?? [];
+  const needsAcknowledgement = allergyConflicts.some(conflict => !acknowledged.includes(conflictKey(conflict)));
+  const { template } = data;
+  const patientSummary = data.patientSummary;
+  const patientHeading = patientSummary ? `Patient Copy (${languageName(patientSummary.language)})` : '';
+  const providerTrace = describeProviderTrace(data.attempts);
+  const isFallback = data.source === 'fallback';
+  const evidence = data.evidence;
+  // Absent until the summary is finished; only then are the medications checked
+  const interactions = data.interactions;
+  const isSerious = !!interactions?.some(alert => alert.severity === 'contraindicated' || alert.severity === 'major');
+  const medicationCount = summaryMedications(data).length;
+  const unsupportedCount = evidence
+    ? Object.values(evidence).reduce((count, items) => count + items.filter(spans => spans.length === 0).length, 0)
+    : 0;
+
+  // Exports keep the warning the view shows next to unsupported items
+  const unsupportedMark = (sectionId: string, index: number) =>
+    evidence?.[sectionId]?.[index]?.length === 0 ? ' [not found in transcript]' : '';
+
+  // A section as lines of plain text for the exports; paragraphs are one line
+  const exportLines = (section: TemplateSection) =>
+    sectionItems(section, data.sections[section.id]).map((item, index) =>
+      `${formatItem(section, item)}${unsupportedMark(section.id, index)}`
+    );
+  const bullet = (section: TemplateSection) => (section.type === 'text' ? '' : '• ');
 
   const copyToClipboard = async () => {
     const summaryText = generateSummaryText();
@@ -39,27 +93,24 @@ export default function SummaryView({ data, transcriptionData }: SummaryViewProp
   };
 
   const generateSummaryText = () => {
-    return `PHARMACY CONSULTATION SUMMARY
-
-KEY TOPICS:
-${data.keyTopics.map(topic => `• ${topic}`).join('\n')}
-
-MEDICATIONS MENTIONED:
-${data.medications.map(med => 
-  `• ${med.name}${med.dosage ? ` - ${med.dosage}` : ''}${med.frequency ? ` (${med.frequency})` : ''}${med.notes ? ` - ${med.notes}` : ''}`
-).join('\n')}
-
-ACTION ITEMS:
-${data.actionItems.map(item => `• ${item}`).join('\n')}
-
-PATIENT CONCERNS:
-${data.patientConcerns.map(concern => `• ${concern}`).join('\n')}
-
-PHARMACIST RECOMMENDATIONS:
-${data.pharmacistRecommendations.map(rec => `• ${rec}`).join('\n')}
+    return `${template.name.toUpperCase()}
+${isFallback ? `\n${FALLBACK_NOTICE}\n` : ''}${allergyConflicts.length ? `
+ALLERGY ALERTS (ACKNOWLEDGED):
+${allergyConflicts.map(conflict => `• ${formatConflict(conflict)}`).join('\n')}
+` : ''}${interactions?.length ? `
+DRUG INTERACTIONS:
+${interactions.map(alert => `• ${formatInteraction(alert)}`).join('\n')}
+` : ''}
+${template.sections.map(section => `${section.title.toUpperCase()}:
+${exportLines(section).map(line => `${bullet(section)}${line}`).join('\n')}`).join('\n\n')}
 
 Generated on: ${new Date().toLocaleDateString()}
-Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}`;
+Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}${patientSummary ? `
+
+${patientHeading.toUpperCase()}:
+${patientSummary.overview}
+${patientSummary.medications.map(med => `• ${med.name}: ${med.instructions}`).join('\n')}
+${patientSummary.nextSteps.map(step => `• ${step}`).join('\n')}` : ''}`;
   };
 
   const exportToPDF = () => {
@@ -68,7 +119,7 @@ Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}`
     const lines = doc.splitTextToSize(summaryText, 180);
     
     doc.setFontSize(16);
-    doc.text('Pharmacy Consultation Summary', 20, 20);
+    doc.text(template.name, 20, 20);
     
     doc.setFontSize(12);
     doc.text(lines, 20, 40);
@@ -84,118 +135,131 @@ Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}`
           new Paragraph({
             children: [
               new TextRun({
-                text: "PHARMACY CONSULTATION SUMMARY",
+                text: template.name.toUpperCase(),
                 bold: true,
                 size: 24
               })
             ],
             spacing: { after: 400 }
           }),
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: "KEY TOPICS:",
-                bold: true,
-                size: 16
-              })
-            ],
-            spacing: { after: 200 }
-          }),
-          ...data.keyTopics.map(topic => 
+          ...(isFallback ? [
             new Paragraph({
               children: [
                 new TextRun({
-                  text: `• ${topic}`,
+                  text: FALLBACK_NOTICE,
+                  italics: true,
                   size: 12
                 })
               ],
-              spacing: { after: 100 }
+              spacing: { after: 200 }
             })
-          ),
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: "MEDICATIONS MENTIONED:",
-                bold: true,
-                size: 16
-              })
-            ],
-            spacing: { after: 200, before: 400 }
-          }),
-          ...data.medications.map(med => 
+          ] : []),
+          ...(allergyConflicts.length ? [
             new Paragraph({
               children: [
                 new TextRun({
-                  text: `• ${med.name}${med.dosage ? ` - ${med.dosage}` : ''}${med.frequency ? ` (${med.frequency})` : ''}${med.notes ? ` - ${med.notes}` : ''}`,
-                  size: 12
+                  text: 'ALLERGY ALERTS (ACKNOWLEDGED):',
+                  bold: true,
+                  size: 16,
+                  color: 'B91C1C'
                 })
               ],
-              spacing: { after: 100 }
-            })
-          ),
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: "ACTION ITEMS:",
-                bold: true,
-                size: 16
+              spacing: { after: 200 }
+            }),
+            ...allergyConflicts.map((conflict, index) =>
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: `• ${formatConflict(conflict)}`,
+                    size: 12
+                  })
+                ],
+                spacing: index === allergyConflicts.length - 1 ? { after: 400 } : { after: 100 }
               })
-            ],
-            spacing: { after: 200, before: 400 }
-          }),
-          ...data.actionItems.map(item => 
+            )
+          ] : []),
+          ...(interactions?.length ? [
             new Paragraph({
               children: [
                 new TextRun({
-                  text: `• ${item}`,
-                  size: 12
+                  text: 'DRUG INTERACTIONS:',
+                  bold: true,
+                  size: 16,
+                  color: 'B91C1C'
                 })
               ],
-              spacing: { after: 100 }
-            })
-          ),
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: "PATIENT CONCERNS:",
-                bold: true,
-                size: 16
+              spacing: { after: 200 }
+            }),
+            ...interactions.map((alert, index) =>
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: `• ${formatInteraction(alert)}`,
+                    size: 12
+                  })
+                ],
+                spacing: index === interactions.length - 1 ? { after: 400 } : { after: 100 }
               })
-            ],
-            spacing: { after: 200, before: 400 }
-          }),
-          ...data.patientConcerns.map(concern => 
+            )
+          ] : []),
+          ...template.sections.flatMap((section, sectionIndex) => [
             new Paragraph({
               children: [
                 new TextRun({
-                  text: `• ${concern}`,
-                  size: 12
+                  text: `${section.title.toUpperCase()}:`,
+                  bold: true,
+                  size: 16
                 })
               ],
-              spacing: { after: 100 }
-            })
-          ),
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: "PHARMACIST RECOMMENDATIONS:",
-                bold: true,
-                size: 16
+              spacing: sectionIndex === 0 ? { after: 200 } : { after: 200, before: 400 }
+            }),
+            ...exportLines(section).map(line =>
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: `${bullet(section)}${line}`,
+                    size: 12
+                  })
+                ],
+                spacing: { after: 100 }
               })
-            ],
-            spacing: { after: 200, before: 400 }
-          }),
-          ...data.pharmacistRecommendations.map(rec => 
+            )
+          ]),
+          ...(patientSummary ? [
             new Paragraph({
               children: [
                 new TextRun({
-                  text: `• ${rec}`,
+                  text: `${patientHeading.toUpperCase()}:`,
+                  bold: true,
+                  size: 16
+                })
+              ],
+              spacing: { after: 200, before: 400 }
+            }),
+            new Paragraph({
+              children: [
+                new TextRun({
+                  text: patientSummary.overview,
                   size: 12
                 })
               ],
               spacing: { after: 100 }
-            })
-          )
+            }),
+            ...[
+              ...patientSummary.medications.map(med => `${med.name}: ${med.instructions}`),
+              ...patientSummary.nextSteps,
+            ].map(line =>
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: `• ${line}`,
+                    size: 12
+                  })
+                ],
+                spacing: { after: 100 }
+              })
+            )
+          ] : [])
         ]
       }]
     });
@@ -230,7 +294,7 @@ Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}`
       printWindow.document.write(`
         <html>
           <head>
-            <title>Pharmacy Consultation Summary</title>
+            <title>${template.name}</title>
             <style>
               body { font-family: Arial, sans-serif; margin: 20px; }
               h1 { color: #1f2937; border-bottom: 2px solid #3b82f6; padding-bottom: 10px; }
@@ -238,38 +302,44 @@ Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}`
               .section { margin-bottom: 20px; }
               .item { margin: 5px 0; }
               .medication { background: #f3f4f6; padding: 10px; margin: 5px 0; border-radius: 5px; }
+              .interactions { border: 2px solid #dc2626; background: #fef2f2; padding: 10px 15px; border-radius: 5px; }
+              .interactions h2 { color: #b91c1c; margin-top: 0; }
             </style>
           </head>
           <body>
-            <h1>Pharmacy Consultation Summary</h1>
-            
-            <div class="section">
-              <h2>Key Topics</h2>
-              ${data.keyTopics.map(topic => `<div class="item">• ${topic}</div>`).join('')}
+            <h1>${template.name}</h1>
+            ${isFallback ? `<p><em>${FALLBACK_NOTICE}</em></p>` : ''}
+            ${allergyConflicts.length ? `
+            <div class="section interactions">
+              <h2>Allergy Alerts (acknowledged)</h2>
+              ${allergyConflicts.map(conflict => `<div class="item">• ${formatConflict(conflict)}</div>`).join('')}
             </div>
-            
-            <div class="section">
-              <h2>Medications Mentioned</h2>
-              ${data.medications.map(med => 
-                `<div class="medication">• ${med.name}${med.dosage ? ` - ${med.dosage}` : ''}${med.frequency ? ` (${med.frequency})` : ''}${med.notes ? ` - ${med.notes}` : ''}</div>`
-              ).join('')}
+            ` : ''}
+            ${interactions?.length ? `
+            <div class="section interactions">
+              <h2>Drug Interactions</h2>
+              ${interactions.map(alert => `<div class="item">• ${formatInteraction(alert)}</div>`).join('')}
             </div>
+            ` : ''}
             
+            ${template.sections.map(section => `
             <div class="section">
-              <h2>Action Items</h2>
-              ${data.actionItems.map(item => `<div class="item">• ${item}</div>`).join('')}
-            </div>
-            
-            <div class="section">
-              <h2>Patient Concerns</h2>
-              ${data.patientConcerns.map(concern => `<div class="item">• ${concern}</div>`).join('')}
+              <h2>${section.title}</h2>
+              ${exportLines(section).map(line =>
+                `<div class="${section.type === 'medications' ? 'medication' : 'item'}">${bullet(section)}${line}</div>`
+              ).join('')}
             </div>
+            `).join('')}
             
+            ${patientSummary ? `
             <div class="section">
-              <h2>Pharmacist Recommendations</h2>
-              ${data.pharmacistRecommendations.map(rec => `<div class="item">• ${rec}</div>`).join('')}
+              <h2>${patientHeading}</h2>
+              <div class="item">${patientSummary.overview}</div>
+              ${patientSummary.medications.map(med => `<div class="medication">• ${med.name}: ${med.instructions}</div>`).join('')}
+              ${patientSummary.nextSteps.map(step => `<div class="item">• ${step}</div>`).join('')}
             </div>
-            
+            ` : ''}
+
             <div style="margin-top: 40px; font-size: 12px; color: #6b7280;">
               Generated on: ${new Date().toLocaleDateString()}<br>
               Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}
@@ -293,136 +363,298 @@ Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}`
       <div className="bg-white rounded-lg shadow-lg p-8">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-2xl font-bold text-gray-900">
-            AI-Generated Summary
+            {isGenerating ? 'Generating Summary...' : isFallback ? 'Keyword Summary' : 'AI-Generated Summary'}
           </h2>
-          <div className="flex space-x-2">
+          {isGenerating ? (
             <button
-              onClick={copyToClipboard}
+              onClick={onCancel}
               className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded-lg font-medium transition-colors"
             >
-              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-              <span>{copied ? 'Copied!' : 'Copy'}</span>
-            </button>
-            <button
-              onClick={printSummary}
-              className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg font-medium transition-colors"
-            >
-              <Printer className="h-4 w-4" />
-              <span>Print</span>
-            </button>
-            <button
-              onClick={exportToText}
-              className="flex items-center space-x-2 bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded-lg font-medium transition-colors"
-            >
-              <FileText className="h-4 w-4" />
-              <span>Text</span>
+              <X className="h-4 w-4" />
+              <span>Cancel</span>
             </button>
-            <button
-              onClick={exportToPDF}
-              className="flex items-center space-x-2 bg-red-500 hover:bg-red-600 text-white px-3 py-2 rounded-lg font-medium transition-colors"
-            >
-              <FileDown className="h-4 w-4" />
-              <span>PDF</span>
-            </button>
-            <button
-              onClick={exportToWord}
-              className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg font-medium transition-colors"
-            >
-              <Download className="h-4 w-4" />
-              <span>Word</span>
-            </button>
-          </div>
+          ) : (
+            <div className="flex space-x-2">
+              <button
+                onClick={copyToClipboard}
+                disabled={needsAcknowledgement}
+                title={needsAcknowledgement ? ACKNOWLEDGE_NOTICE : undefined}
+                className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                <span>{copied ? 'Copied!' : 'Copy'}</span>
+              </button>
+              <button
+                onClick={printSummary}
+                disabled={needsAcknowledgement}
+                title={needsAcknowledgement ? ACKNOWLEDGE_NOTICE : undefined}
+                className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <Printer className="h-4 w-4" />
+                <span>Print</span>
+              </button>
+              <button
+                onClick={exportToText}
+                disabled={needsAcknowledgement}
+                title={needsAcknowledgement ? ACKNOWLEDGE_NOTICE : undefined}
+                className="flex items-center space-x-2 bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <FileText className="h-4 w-4" />
+                <span>Text</span>
+              </button>
+              <button
+                onClick={exportToPDF}
+                disabled={needsAcknowledgement}
+                title={needsAcknowledgement ? ACKNOWLEDGE_NOTICE : undefined}
+                className="flex items-center space-x-2 bg-red-500 hover:bg-red-600 text-white px-3 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <FileDown className="h-4 w-4" />
+                <span>PDF</span>
+              </button>
+              <button
+                onClick={exportToWord}
+                disabled={needsAcknowledgement}
+                title={needsAcknowledgement ? ACKNOWLEDGE_NOTICE : undefined}
+                className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <Download className="h-4 w-4" />
+                <span>Word</span>
+              </button>
+            </div>
+          )}
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Key Topics */}
-          <div className="bg-blue-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-blue-900 mb-4 flex items-center">
-              <span className="w-2 h-2 bg-blue-500 rounded-full mr-3"></span>
-              Key Topics
+        {isGenerating && (
+          <div className="flex items-center space-x-3 mb-6 bg-purple-50 border border-purple-200 rounded-lg p-4 text-sm text-purple-800">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+            <span>Sections fill in as the summarizer writes them. Exports are available once it finishes.</span>
+          </div>
+        )}
+
+        {isFallback && (
+          <div className="flex items-start space-x-2 mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+            <span>{FALLBACK_NOTICE}</span>
+          </div>
+        )}
+
+        {unsupportedCount > 0 && (
+          <div className="flex items-start space-x-2 mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+            <span>
+              {unsupportedCount === 1 ? '1 item' : `${unsupportedCount} items`} could not be traced to the transcript and may
+              not have been said. Check the flagged items before relying on them.
+            </span>
+          </div>
+        )}
+
+        {providerTrace && (
+          <p className="mb-6 text-sm text-amber-700">{providerTrace}</p>
+        )}
+
+        {/* Allergy Alerts */}
+        {allergyConflicts.length > 0 && (
+          <div className="mb-8 rounded-lg border-2 border-red-400 bg-red-50 p-6">
+            <h3 className="text-lg font-semibold text-red-900 mb-1 flex items-center">
+              <ShieldX className="h-5 w-5 mr-2" />
+              Allergy Alerts ({allergyConflicts.length})
             </h3>
-            <ul className="space-y-2">
-              {data.keyTopics.map((topic, index) => (
-                <li key={index} className="flex items-start">
-                  <span className="text-blue-500 mr-2">•</span>
-                  <span className="text-blue-800">{topic}</span>
-                </li>
-              ))}
-            </ul>
+            <p className="text-sm text-red-800 mb-4">
+              {needsAcknowledgement ? ACKNOWLEDGE_NOTICE : 'All alerts acknowledged. They are included in every export.'}
+            </p>
+            <div className="space-y-3">
+              {allergyConflicts.map(conflict => {
+                const key = conflictKey(conflict);
+                const isAcknowledged = acknowledged.includes(key);
+                return (
+                  <div key={key} className="flex items-start gap-3 bg-white rounded-lg p-3 border border-red-200">
+                    <div className="flex-1">
+                      <div className="font-medium text-gray-900">
+                        {conflict.medication} <span className="text-gray-500 font-normal">conflicts with the</span> {conflict.allergy} <span className="text-gray-500 font-normal">allergy</span>
+                        {conflict.kind === 'cross-reactive' && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800">Cross-reactivity</span>
+                        )}
+                      </div>
+                      {(conflict.reaction || conflict.severity) && (
+                        <div className="text-sm text-red-800 mt-1">
+                          Reaction: {[conflict.reaction, conflict.severity].filter(Boolean).join(', ')}
+                        </div>
+                      )}
+                      <div className="text-sm text-gray-700 mt-1">{conflict.detail}</div>
+                    </div>
+                    {isAcknowledged ? (
+                      <span className="flex items-center space-x-1 text-sm text-green-700">
+                        <Check className="h-4 w-4" />
+                        <span>Acknowledged</span>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => onAcknowledgeConflict?.(conflict)}
+                        className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors"
+                      >
+                        Acknowledge
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
+        )}
 
-          {/* Medications */}
-          <div className="bg-green-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-green-900 mb-4 flex items-center">
-              <span className="w-2 h-2 bg-green-500 rounded-full mr-3"></span>
-              Medications Mentioned
+        {/* Drug Interactions */}
+        {interactions && interactions.length > 0 && (
+          <div className={`mb-8 rounded-lg border-2 p-6 ${isSerious ? 'bg-red-50 border-red-300' : 'bg-amber-50 border-amber-300'}`}>
+            <h3 className={`text-lg font-semibold mb-4 flex items-center ${isSerious ? 'text-red-900' : 'text-amber-900'}`}>
+              <ShieldAlert className="h-5 w-5 mr-2" />
+              Drug Interactions ({interactions.length})
             </h3>
             <div className="space-y-3">
-              {data.medications.map((medication, index) => (
-                <div key={index} className="bg-white rounded-lg p-3 border border-green-200">
-                  <div className="font-medium text-green-800">{medication.name}</div>
-                  {medication.dosage && (
-                    <div className="text-sm text-green-600">Dosage: {medication.dosage}</div>
-                  )}
-                  {medication.frequency && (
-                    <div className="text-sm text-green-600">Frequency: {medication.frequency}</div>
-                  )}
-                  {medication.notes && (
-                    <div className="text-sm text-green-600 mt-1">{medication.notes}</div>
+              {interactions.map((alert, index) => (
+                <div key={index} className="bg-white rounded-lg p-3 border border-gray-200">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${SEVERITY_BADGES[alert.severity]}`}>
+                      {SEVERITY_LABELS[alert.severity]}
+                    </span>
+                    <span className="font-medium text-gray-900">{alert.drugs[0]} + {alert.drugs[1]}</span>
+                  </div>
+                  {alert.mechanism && <div className="text-sm text-gray-700 mt-1">{alert.mechanism}</div>}
+                  {alert.management && (
+                    <div className="text-sm text-gray-900 mt-1"><span className="font-medium">Management:</span> {alert.management}</div>
                   )}
                 </div>
               ))}
             </div>
+            <p className="text-xs text-gray-500 mt-3">
+              From the local interaction table, which may not list every interaction. Use clinical judgement.
+            </p>
           </div>
+        )}
+        {interactions && interactions.length === 0 && medicationCount > 1 && (
+          <p className="mb-6 text-sm text-gray-500">
+            No interactions between these medications were found in the local interaction table.
+          </p>
+        )}
 
-          {/* Action Items */}
-          <div className="bg-purple-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-purple-900 mb-4 flex items-center">
-              <span className="w-2 h-2 bg-purple-500 rounded-full mr-3"></span>
-              Action Items
-            </h3>
-            <ul className="space-y-2">
-              {data.actionItems.map((item, index) => (
-                <li key={index} className="flex items-start">
-                  <span className="text-purple-500 mr-2">•</span>
-                  <span className="text-purple-800">{item}</span>
-                </li>
-              ))}
-            </ul>
-          </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {template.sections.map(section => {
+            const style = SECTION_STYLES[section.color] ?? SECTION_STYLES.gray;
+            const items = sectionItems(section, data.sections[section.id]);
+            const itemEvidence = (index: number) => (
+              <ItemEvidence spans={evidence?.[section.id]?.[index]} onShowEvidence={onShowEvidence} />
+            );
 
-          {/* Patient Concerns */}
-          <div className="bg-orange-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-orange-900 mb-4 flex items-center">
-              <span className="w-2 h-2 bg-orange-500 rounded-full mr-3"></span>
-              Patient Concerns
+            return (
+              <div key={section.id} className={`${style.box} rounded-lg p-6 ${section.fullWidth ? 'lg:col-span-2' : ''}`}>
+                <h3 className={`text-lg font-semibold ${style.title} mb-4 flex items-center`}>
+                  <span className={`w-2 h-2 ${style.dot} rounded-full mr-3`}></span>
+                  {section.title}
+                </h3>
+                {isGenerating && items.length === 0 && <PendingSection />}
+                {section.type === 'text' ? (
+                  items.map((item, index) => (
+                    <div key={index} className="flex items-start">
+                      <p className={`flex-1 ${style.text}`}>{item as string}</p>
+                      {itemEvidence(index)}
+                    </div>
+                  ))
+                ) : section.type === 'allergies' ? (
+                  <ul className="space-y-2">
+                    {(items as SummaryAllergy[]).map((allergy, index) => (
+                      <li key={index} className="flex items-start">
+                        <span className={`${style.marker} mr-2`}>•</span>
+                        <span className={`flex-1 ${allergy.denied ? 'text-gray-600' : style.text}`}>
+                          {allergy.denied ? formatAllergy(allergy) : (
+                            <>
+                              <span className="font-medium">{allergy.substance}</span>
+                              {allergy.reaction && <span className={style.detail}> - {allergy.reaction}</span>}
+                              {allergy.severity && (
+                                <span className={`ml-2 px-2 py-0.5 rounded text-xs font-semibold ${allergy.severity === 'severe' ? 'bg-red-600 text-white' : 'bg-white text-gray-700'}`}>
+                                  {allergy.severity}
+                                </span>
+                              )}
+                            </>
+                          )}
+                        </span>
+                        {itemEvidence(index)}
+                      </li>
+                    ))}
+                  </ul>
+                ) : section.type === 'medications' ? (
+                  <div className="space-y-3">
+                    {(items as SummaryMedication[]).map((medication, index) => (
+                      <div key={index} className={`bg-white rounded-lg p-3 border ${style.border}`}>
+                        <div className="flex items-start">
+                          <div className={`flex-1 font-medium ${style.text}`}>{medication.name}</div>
+                          {itemEvidence(index)}
+                        </div>
+                        {medication.sig ? (
+                          <>
+                            <div className={`text-sm ${style.detail}`}>Sig: {formatSig(medication.sig)}</div>
+                            <div className="text-xs text-gray-500 italic">As said: &ldquo;{sigPhrase(medication)}&rdquo;</div>
+                          </>
+                        ) : (
+                          <>
+                            {medication.dosage && (
+                              <div className={`text-sm ${style.detail}`}>Dosage: {medication.dosage}</div>
+                            )}
+                            {medication.frequency && (
+                              <div className={`text-sm ${style.detail}`}>Frequency: {medication.frequency}</div>
+                            )}
+                          </>
+                        )}
+                        {medication.notes && (
+                          <div className={`text-sm ${style.detail} mt-1`}>{medication.notes}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {(items as string[]).map((item, index) => (
+                      <li key={index} className="flex items-start">
+                        <span className={`${style.marker} mr-2`}>•</span>
+                        <span className={`flex-1 ${style.text}`}>{item}</span>
+                        {itemEvidence(index)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Patient Copy */}
+        {patientSummary && (
+          <div className="mt-8 bg-teal-50 rounded-lg p-6" lang={patientSummary.language}>
+            <h3 className="text-lg font-semibold text-teal-900 mb-4 flex items-center">
+              <span className="w-2 h-2 bg-teal-500 rounded-full mr-3"></span>
+              {patientHeading}
             </h3>
-            <ul className="space-y-2">
-              {data.patientConcerns.map((concern, index) => (
-                <li key={index} className="flex items-start">
-                  <span className="text-orange-500 mr-2">•</span>
-                  <span className="text-orange-800">{concern}</span>
-                </li>
+            {patientSummary.overview && (
+              <p className="text-teal-800 mb-4">{patientSummary.overview}</p>
+            )}
+            <div className="space-y-3">
+              {patientSummary.medications.map((medication, index) => (
+                <div key={index} className="bg-white rounded-lg p-3 border border-teal-200">
+                  <div className="font-medium text-teal-800">{medication.name}</div>
+                  <div className="text-sm text-teal-600">{medication.instructions}</div>
+                </div>
               ))}
-            </ul>
+            </div>
+            {patientSummary.nextSteps.length > 0 && (
+              <ul className="space-y-2 mt-4">
+                {patientSummary.nextSteps.map((step, index) => (
+                  <li key={index} className="flex items-start">
+                    <span className="text-teal-500 mr-2">•</span>
+                    <span className="text-teal-800">{step}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-        </div>
-
-        {/* Pharmacist Recommendations */}
-        <div className="mt-8 bg-indigo-50 rounded-lg p-6">
-          <h3 className="text-lg font-semibold text-indigo-900 mb-4 flex items-center">
-            <span className="w-2 h-2 bg-indigo-500 rounded-full mr-3"></span>
-            Pharmacist Recommendations
-          </h3>
-          <ul className="space-y-3">
-            {data.pharmacistRecommendations.map((recommendation, index) => (
-              <li key={index} className="flex items-start bg-white rounded-lg p-3 border border-indigo-200">
-                <span className="text-indigo-500 mr-3 mt-1">•</span>
-                <span className="text-indigo-800">{recommendation}</span>
-              </li>
-            ))}
-          </ul>
-        </div>
+        )}
 
         {/* Summary Footer */}
         <div className="mt-8 pt-6 border-t border-gray-200">
@@ -438,4 +670,101 @@ Duration: ${transcriptionData ? formatTime(transcriptionData.duration) : 'N/A'}`
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
+
+/**
+ * A section's items in order, whatever its type; a paragraph is one item, or
+ * none while it is empty.
+ */
+function sectionItems(section: TemplateSection, value: SectionValue | undefined): Array<string | SummaryMedication | SummaryAllergy> {
+  if (section.type === 'text') {
+    return typeof value === 'string' && value ? [value] : [];
+  }
+  return Array.isArray(value) ? value : [];
+}
+
+function formatItem(section: TemplateSection, item: string | SummaryMedication | SummaryAllergy): string {
+  if (typeof item === 'string') return item;
+  return section.type === 'allergies' ? formatAllergy(item as SummaryAllergy) : formatMedication(item as SummaryMedication);
+}
+
+// The normalized sig and the words it came from, or the dosage and frequency as given
+function formatMedication(med: SummaryMedication): string {
+  const directions = med.sig
+    ? ` - ${formatSig(med.sig)} (as said: "${sigPhrase(med)}")`
+    : `${med.dosage ? ` - ${med.dosage}` : ''}${med.frequency ? ` (${med.frequency})` : ''}`;
+  return `${med.name}${directions}${med.notes ? ` - ${med.notes}` : ''}`;
+}
+
+function formatConflict(conflict: AllergyConflict): string {
+  const reaction = [conflict.reaction, conflict.severity].filter(Boolean).join(', ');
+  return `${conflict.medication} with ${conflict.allergy} allergy${reaction ? ` (${reaction})` : ''} - ${conflict.detail}`;
+}
+
+function formatInteraction(alert: InteractionAlert): string {
+  const details = [alert.mechanism, alert.management && `Management: ${alert.management}`].filter(Boolean).join(' ');
+  return `[${SEVERITY_LABELS[alert.severity].toUpperCase()}] ${alert.drugs[0]} + ${alert.drugs[1]}${details ? ` - ${details}` : ''}`;
+}
+
+function PendingSection() {
+  return <p className="text-sm text-gray-500 animate-pulse">Waiting for the summarizer...</p>;
+}
+
+interface ItemEvidenceProps {
+  // Undefined when the summary has no citations, empty when the item has none
+  spans: EvidenceSpan[] | undefined;
+  onShowEvidence?: (span: EvidenceSpan) => void;
+}
+
+/**
+ * The transcript quotes behind a summary item: previewed on hover, listed on
+ * click with a link to each passage. Items citing nothing get a warning instead.
+ */
+function ItemEvidence({ spans, onShowEvidence }: ItemEvidenceProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  if (!spans) return null;
+
+  if (spans.length === 0) {
+    return (
+      <span className="ml-2 flex-shrink-0 text-amber-600" title={UNSUPPORTED_NOTICE}>
+        <AlertTriangle className="h-4 w-4" />
+      </span>
+    );
+  }
+
+  return (
+    <span className="relative ml-2 flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="text-gray-400 hover:text-gray-600"
+        title={spans.map(span => `"${span.quote}"`).join('\n')}
+      >
+        <Quote className="h-4 w-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-80 space-y-2 rounded-lg border border-gray-200 bg-white p-3 shadow-lg">
+          {spans.map((span, index) => (
+            <button
+              key={index}
+              onClick={() => onShowEvidence?.(span)}
+              disabled={!onShowEvidence}
+              className="block w-full rounded p-2 text-left text-sm text-gray-700 hover:bg-gray-50 disabled:hover:bg-white"
+              title="Show in transcript"
+            >
+              {span.start !== undefined && (
+                <span className="mr-2 text-xs text-gray-500">{formatTimestamp(span.start)}</span>
+              )}
+              &ldquo;{span.quote}&rdquo;
+            </button>
+          ))}
+        </div>
+      )}
+    </span>
+  );
+}
+
+function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
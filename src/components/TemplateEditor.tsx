@@ -0,0 +1,383 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Save, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import {
+  DEFAULT_TEMPLATE_ID,
+  NoteTemplate,
+  SECTION_COLORS,
+  SECTION_TYPE_LABELS,
+  SECTION_TYPES,
+  SectionColor,
+  SectionType,
+  TemplateSection,
+} from '@/lib/templates';
+
+interface TemplateEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after a save so template pickers elsewhere can refresh
+  onSaved?: (templates: NoteTemplate[]) => void;
+}
+
+const INPUT_CLASS =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export default function TemplateEditor({ isOpen, onClose, onSaved }: TemplateEditorProps) {
+  const [templates, setTemplates] = useState<NoteTemplate[] | null>(null);
+  const [defaults, setDefaults] = useState<NoteTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [newTemplateName, setNewTemplateName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/templates')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load templates');
+        return response.json();
+      })
+      .then(data => {
+        setTemplates(data.templates);
+        setDefaults(data.defaults);
+        setSelectedId(data.templates[0]?.id ?? '');
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error loading templates:', error);
+        setError('Could not load the note templates. Please try again.');
+      });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selected = templates?.find(template => template.id === selectedId);
+
+  const updateTemplate = (changes: Partial<NoteTemplate>) => {
+    if (!templates || !selected) return;
+    setTemplates(templates.map(template => (template.id === selected.id ? { ...template, ...changes } : template)));
+  };
+
+  const updateSections = (update: (sections: TemplateSection[]) => TemplateSection[]) => {
+    if (selected) updateTemplate({ sections: update(selected.sections) });
+  };
+
+  const updateSection = (index: number, changes: Partial<TemplateSection>) => {
+    updateSections(sections => sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const addSection = () => {
+    updateSections(sections => {
+      let n = sections.length + 1;
+      while (sections.some(section => section.id === `section${n}`)) n++;
+      return [...sections, { id: `section${n}`, title: '', type: 'list', instructions: '', color: 'gray' }];
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    updateSections(sections => {
+      const target = index + offset;
+      if (target < 0 || target >= sections.length) return sections;
+      const moved = [...sections];
+      [moved[index], moved[target]] = [moved[target], moved[index]];
+      return moved;
+    });
+  };
+
+  const removeSection = (index: number) => {
+    updateSections(sections => sections.filter((_, i) => i !== index));
+  };
+
+  // A new template starts as a copy of the one selected, which is usually quicker to trim than to build
+  const addTemplate = () => {
+    const name = newTemplateName.trim();
+    if (!templates || !name) return;
+
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+    let id = slug;
+    for (let n = 2; templates.some(template => template.id === id); n++) {
+      id = `${slug}-${n}`;
+    }
+
+    const template: NoteTemplate = {
+      id,
+      name,
+      description: '',
+      instructions: selected?.instructions ?? '',
+      sections: selected ? selected.sections.map(section => ({ ...section })) : [],
+    };
+    setTemplates([...templates, template]);
+    setSelectedId(id);
+    setNewTemplateName('');
+  };
+
+  const removeTemplate = () => {
+    if (!templates || !selected || selected.id === DEFAULT_TEMPLATE_ID) return;
+    if (!confirm(`Remove the ${selected.name} template?`)) return;
+
+    const remaining = templates.filter(template => template.id !== selected.id);
+    setTemplates(remaining);
+    setSelectedId(remaining[0]?.id ?? '');
+  };
+
+  const restoreDefaults = () => {
+    if (!templates) return;
+    const existing = new Set(templates.map(template => template.id));
+    setTemplates([...templates, ...defaults.filter(template => !existing.has(template.id))]);
+  };
+
+  const handleSave = async () => {
+    if (!templates) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/templates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ templates }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save templates');
+      }
+
+      setTemplates(data.templates);
+      setError(null);
+      onSaved?.(data.templates);
+      onClose();
+    } catch (error) {
+      console.error('Error saving templates:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the note templates.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Note Templates</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              The sections a summary is written in, what goes in each, and how they are laid out
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:text-gray-300 dark:hover:text-gray-200"
+            title="Close templates"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {templates && (
+            <>
+              {/* Template Picker */}
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={selectedId}
+                  onChange={(e) => setSelectedId(e.target.value)}
+                  className={INPUT_CLASS}
+                  title="Note template"
+                >
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+                {selected && selected.id !== DEFAULT_TEMPLATE_ID && (
+                  <button
+                    onClick={removeTemplate}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Remove template
+                  </button>
+                )}
+                <button
+                  onClick={restoreDefaults}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Restore built-in templates
+                </button>
+                <div className="flex items-center gap-2 ml-auto">
+                  <input
+                    type="text"
+                    value={newTemplateName}
+                    onChange={(e) => setNewTemplateName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addTemplate()}
+                    placeholder="New template name"
+                    className={`${INPUT_CLASS} text-sm`}
+                  />
+                  <button
+                    onClick={addTemplate}
+                    className="flex items-center space-x-1 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title="Add a template starting from the selected one"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Add</span>
+                  </button>
+                </div>
+              </div>
+
+              {selected && (
+                <>
+                  {/* Template Details */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      value={selected.name}
+                      onChange={(e) => updateTemplate({ name: e.target.value })}
+                      placeholder="Name"
+                      className={INPUT_CLASS}
+                      title="Template name"
+                    />
+                    <input
+                      type="text"
+                      value={selected.description}
+                      onChange={(e) => updateTemplate({ description: e.target.value })}
+                      placeholder="Description"
+                      className={INPUT_CLASS}
+                      title="Shown when picking a template"
+                    />
+                    <textarea
+                      value={selected.instructions}
+                      onChange={(e) => updateTemplate({ instructions: e.target.value })}
+                      rows={2}
+                      placeholder="Instructions for the whole note, e.g. tone, who it is written for, what to leave out"
+                      className={`${INPUT_CLASS} md:col-span-2`}
+                      title="Added to the summarizer prompt after the sections"
+                    />
+                  </div>
+
+                  {/* Section List */}
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                    {selected.sections.length === 0 && (
+                      <p className="p-4 text-sm text-gray-500 dark:text-gray-400 text-center">No sections</p>
+                    )}
+                    {selected.sections.map((section, index) => (
+                      <div key={index} className="p-3 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <input
+                            type="text"
+                            value={section.title}
+                            onChange={(e) => updateSection(index, { title: e.target.value })}
+                            placeholder="Section title"
+                            className={`${INPUT_CLASS} flex-1 min-w-[10rem] text-sm`}
+                            title="Section title"
+                          />
+                          <input
+                            type="text"
+                            value={section.id}
+                            onChange={(e) => updateSection(index, { id: e.target.value })}
+                            placeholder="key"
+                            className={`${INPUT_CLASS} w-36 text-sm font-mono`}
+                            title="Key in the summarizer's reply: letters and numbers, starting with a letter"
+                          />
+                          <select
+                            value={section.type}
+                            onChange={(e) => updateSection(index, { type: e.target.value as SectionType })}
+                            className={`${INPUT_CLASS} text-sm`}
+                            title="What the section holds"
+                          >
+                            {SECTION_TYPES.map(type => (
+                              <option key={type} value={type}>{SECTION_TYPE_LABELS[type]}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={section.color}
+                            onChange={(e) => updateSection(index, { color: e.target.value as SectionColor })}
+                            className={`${INPUT_CLASS} text-sm capitalize`}
+                            title="Color in the summary view"
+                          >
+                            {SECTION_COLORS.map(color => (
+                              <option key={color} value={color}>{color}</option>
+                            ))}
+                          </select>
+                          <label className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={!!section.fullWidth}
+                              onChange={(e) => updateSection(index, { fullWidth: e.target.checked })}
+                            />
+                            <span>Full width</span>
+                          </label>
+                          <div className="flex items-center">
+                            <button
+                              onClick={() => moveSection(index, -1)}
+                              disabled={index === 0}
+                              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                              title="Move up"
+                            >
+                              <ChevronUp className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => moveSection(index, 1)}
+                              disabled={index === selected.sections.length - 1}
+                              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                              title="Move down"
+                            >
+                              <ChevronDown className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => removeSection(index)}
+                              className="ml-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                              title="Remove section"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                        <input
+                          type="text"
+                          value={section.instructions}
+                          onChange={(e) => updateSection(index, { instructions: e.target.value })}
+                          placeholder="What belongs in this section"
+                          className={`${INPUT_CLASS} w-full text-sm`}
+                          title="Tells the summarizer what to write here"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={addSection}
+                    className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Add section</span>
+                  </button>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Summaries keep a copy of the template they were written with, so editing a template doesn&apos;t
+                    change summaries already on screen.
+                  </p>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !templates}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-600 flex items-center space-x-2"
+          >
+            <Save className="h-4 w-4" />
+            <span>{isSaving ? 'Saving...' : 'Save Templates'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,113 +1,177 @@
 'use client';
 
-import { useState } from 'react';
-import { Edit3, Save, Download, Sparkles } from 'lucide-react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Edit3, Save, Download, Sparkles, ShieldCheck, ChevronLeft, ChevronRight, Check, X } from 'lucide-react';
 import { TranscriptionSettings } from '@/components/SettingsPanel';
+import { detectAllergies, formatAllergy } from '@/lib/allergies';
+import { formatSpeakerTranscript } from '@/lib/diarization';
+import { languageName, OUTPUT_LANGUAGES } from '@/lib/languages';
+import { describeProviderTrace } from '@/lib/provider-trace';
+import { formatSig, parseSig } from '@/lib/sig';
+import { SummaryRequest, summarySegments } from '@/lib/summary-stream';
+import { EvidenceSpan, SpeakerRole, TranscriptionData, TranscriptSegment, TranscriptWord } from '@/lib/types';
 
-interface TranscriptionData {
-  text: string;
-  duration: number;
-}
-
-interface SummaryData {
-  keyTopics: string[];
-  medications: Array<{
-    name: string;
-    dosage?: string;
-    frequency?: string;
-    notes?: string;
-  }>;
-  actionItems: string[];
-  patientConcerns: string[];
-  pharmacistRecommendations: string[];
-}
+// Words the provider scored below this are offered for review
+const LOW_CONFIDENCE_THRESHOLD = 0.8;
 
 interface TranscriptionViewProps {
   data: TranscriptionData;
-  onSummaryComplete: (data: SummaryData) => void;
-  setIsLoading: (loading: boolean) => void;
+  audioUrl: string | null;
+  // Starts a summary; the page streams it into the summary view
+  onGenerateSummary: (request: SummaryRequest) => void;
+  // A summary item's source passage to scroll to and play on opening
+  evidenceFocus?: EvidenceSpan | null;
   settings: TranscriptionSettings;
 }
 
 export default function TranscriptionView({
   data,
-  onSummaryComplete,
-  setIsLoading,
+  audioUrl,
+  onGenerateSummary,
+  evidenceFocus = null,
   settings
 }: TranscriptionViewProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedText, setEditedText] = useState(data.text);
+  const [segments, setSegments] = useState<TranscriptSegment[]>(data.segments || []);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  // `${segmentIndex}-${wordIndex}` of words the pharmacist has kept or replaced
+  const [reviewedWords, setReviewedWords] = useState<Set<string>>(new Set());
+  const [evidence, setEvidence] = useState<EvidenceSpan | null>(evidenceFocus);
+  // The passage the view opened at, read once so dismissing the banner doesn't move anything
+  const [openedAt] = useState(evidenceFocus);
 
-  const handleGenerateSummary = async () => {
-    setIsLoading(true);
-    try {
-      // Try with the selected summarizer first
-      let response = await fetch('/api/summarize', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: editedText,
-          summarizer: settings.summarizer
-        }),
-      });
+  const audioElementRef = useRef<HTMLAudioElement | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
 
-      // If the selected summarizer fails and it's Google Gemini, try OpenAI as fallback
-      if (!response.ok && settings.summarizer === 'gemini') {
-        const errorData = await response.json();
-        if (errorData.error && (errorData.error.includes('SERVICE_DISABLED') || errorData.error.includes('Generative Language API'))) {
-          console.log('Google Gemini failed, trying OpenAI as fallback...');
-          response = await fetch('/api/summarize', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              text: editedText,
-              summarizer: 'openai'
-            }),
-          });
-        }
-      }
+  const hasDialogue = segments.length > 0;
+  // Summarizers get the speaker-tagged dialogue; stats and detections use the spoken words only
+  const transcriptText = hasDialogue ? formatSpeakerTranscript(segments) : editedText;
+  const plainText = hasDialogue ? segments.map(segment => segment.text).join(' ') : editedText;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Summary generation failed');
-      }
+  const lowConfidenceWords = segments.flatMap((segment, segmentIndex) =>
+    (segment.words || []).flatMap((word, wordIndex) =>
+      word.confidence !== undefined &&
+      word.confidence < LOW_CONFIDENCE_THRESHOLD &&
+      !reviewedWords.has(`${segmentIndex}-${wordIndex}`)
+        ? [{ segmentIndex, wordIndex }]
+        : []
+    )
+  );
+  const hasConfidence = segments.some(segment => segment.words?.some(word => word.confidence !== undefined));
+  const reviewPosition = Math.min(reviewIndex, lowConfidenceWords.length - 1);
+  const reviewTarget = isReviewing && reviewPosition >= 0 ? lowConfidenceWords[reviewPosition] : null;
+  const reviewWord = reviewTarget ? segments[reviewTarget.segmentIndex].words?.[reviewTarget.wordIndex] : undefined;
+
+  const spokenLanguages = Array.from(new Set(segments.flatMap(segment => segment.language ? [segment.language] : [])));
+  const providerTrace = describeProviderTrace(data.attempts);
+  const summaryLanguage = settings.summaryLanguage || 'en';
+  // Offer the patient copy by default when the patient mostly spoke another language
+  const [patientLanguage, setPatientLanguage] = useState(() => {
+    const language = dominantLanguage(segments.filter(segment => segment.speaker === 'Patient'));
+    return language && language !== summaryLanguage ? language : '';
+  });
 
-      const summaryData = await response.json();
-      onSummaryComplete(summaryData);
-    } catch (error) {
-      console.error('Summary generation error:', error);
-      
-      // Show more specific error messages
-      let errorMessage = 'Error generating summary. Please try again.';
-      
-      if (error instanceof Error) {
-        if (error.message.includes('quota') || error.message.includes('429')) {
-          errorMessage = 'API quota exceeded. Please check your billing or try a different provider.';
-        } else if (error.message.includes('API key')) {
-          errorMessage = 'API key not configured. Please check your settings.';
-        } else if (error.message.includes('SERVICE_DISABLED') || error.message.includes('Generative Language API')) {
-          errorMessage = 'Google Gemini API not enabled. Please enable it in Google Cloud Console or try using OpenAI instead.';
-        } else if (error.message.includes('network')) {
-          errorMessage = 'Network error. Please check your internet connection.';
-        }
+  const updateSegment = (index: number, changes: Partial<TranscriptSegment>) => {
+    setSegments(prev => prev.map((segment, i) => {
+      if (i !== index) return segment;
+      // Word timings no longer line up once the text has been edited
+      return changes.text !== undefined
+        ? { ...segment, ...changes, words: undefined }
+        : { ...segment, ...changes };
+    }));
+  };
+
+  // timeupdate only fires a few times per second, too coarse for word highlighting
+  const startPlaybackTracking = () => {
+    const track = () => {
+      if (audioElementRef.current) {
+        setCurrentTime(audioElementRef.current.currentTime);
       }
-      
-      alert(errorMessage);
-    } finally {
-      setIsLoading(false);
+      animationFrameRef.current = requestAnimationFrame(track);
+    };
+    track();
+  };
+
+  const stopPlaybackTracking = () => {
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
     }
   };
 
+  useEffect(() => stopPlaybackTracking, []);
+
+  const seekTo = useCallback((time: number) => {
+    const audio = audioElementRef.current;
+    if (!audio) return;
+    audio.currentTime = time;
+    setCurrentTime(time);
+    audio.play();
+  }, []);
+
+  // Opened from a summary item: show where it was said
+  useEffect(() => {
+    if (!openedAt) return;
+    if (openedAt.segment !== undefined) {
+      document.getElementById(`segment-${openedAt.segment}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+    if (openedAt.start !== undefined && audioUrl) seekTo(openedAt.start);
+  }, [openedAt, audioUrl, seekTo]);
+
+  const goToReviewWord = (position: number) => {
+    const target = lowConfidenceWords[position];
+    if (!target) return;
+    setReviewIndex(position);
+
+    const word = segments[target.segmentIndex].words?.[target.wordIndex];
+    document.getElementById(`word-${target.segmentIndex}-${target.wordIndex}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    // Start a little early so the word is heard in context
+    if (word && audioUrl) seekTo(Math.max(0, word.start - 1));
+  };
+
+  const markReviewed = (segmentIndex: number, wordIndex: number) => {
+    setReviewedWords(prev => new Set(prev).add(`${segmentIndex}-${wordIndex}`));
+  };
+
+  const replaceWord = (segmentIndex: number, wordIndex: number, replacement: string) => {
+    setSegments(prev => prev.map((segment, i) => {
+      if (i !== segmentIndex || !segment.words) return segment;
+
+      const original = segment.words[wordIndex];
+      const words = segment.words.map((word, j) => j !== wordIndex ? word : {
+        ...word,
+        word: replacement,
+        // Keep the original wording one click away in case the replacement was wrong
+        alternatives: [original.word, ...(word.alternatives || []).filter(alternative => alternative !== replacement)],
+      });
+
+      return { ...segment, words, text: replaceWordInText(segment.text, segment.words, wordIndex, replacement) };
+    }));
+    markReviewed(segmentIndex, wordIndex);
+  };
+
+  const handleGenerateSummary = () => {
+    onGenerateSummary({
+      text: transcriptText,
+      speakers: hasDialogue ? Array.from(new Set(segments.map(segment => segment.speaker))) : undefined,
+      duration: data.duration,
+      segments: hasDialogue ? summarySegments(segments) : undefined,
+      summarizer: settings.summarizer,
+      outputLanguage: summaryLanguage,
+      patientLanguage: patientLanguage || undefined,
+      template: settings.templateId || undefined
+    });
+  };
+
   const handleSave = () => {
     setIsEditing(false);
   };
 
   const handleDownload = () => {
-    const blob = new Blob([editedText], { type: 'text/plain' });
+    const blob = new Blob([transcriptText], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -120,7 +184,7 @@ export default function TranscriptionView({
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const secs = Math.floor(seconds % 60);
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
@@ -134,7 +198,10 @@ export default function TranscriptionView({
           <div className="flex space-x-3">
             {!isEditing ? (
               <button
-                onClick={() => setIsEditing(true)}
+                onClick={() => {
+                  setIsEditing(true);
+                  setIsReviewing(false);
+                }}
                 className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
               >
                 <Edit3 className="h-4 w-4" />
@@ -149,6 +216,23 @@ export default function TranscriptionView({
                 <span>Save</span>
               </button>
             )}
+            {hasConfidence && !isEditing && (
+              <button
+                onClick={() => {
+                  setIsReviewing(!isReviewing);
+                  setReviewIndex(0);
+                }}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                  isReviewing
+                    ? 'bg-orange-600 hover:bg-orange-700 text-white'
+                    : 'bg-orange-500 hover:bg-orange-600 text-white'
+                }`}
+                title="Step through words the transcription provider was unsure about"
+              >
+                <ShieldCheck className="h-4 w-4" />
+                <span>{isReviewing ? 'Done Reviewing' : `Review (${lowConfidenceWords.length})`}</span>
+              </button>
+            )}
             <button
               onClick={handleDownload}
               className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
@@ -156,6 +240,17 @@ export default function TranscriptionView({
               <Download className="h-4 w-4" />
               <span>Download</span>
             </button>
+            <select
+              value={patientLanguage}
+              onChange={(e) => setPatientLanguage(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              title="Also write a plain-language summary for the patient in this language"
+            >
+              <option value="">No patient copy</option>
+              {OUTPUT_LANGUAGES.map(code => (
+                <option key={code} value={code}>Patient copy: {languageName(code)}</option>
+              ))}
+            </select>
             <button
               onClick={handleGenerateSummary}
               className="flex items-center space-x-2 bg-purple-500 hover:bg-purple-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
@@ -180,20 +275,251 @@ export default function TranscriptionView({
           <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg">
             <div className="text-sm text-green-600 dark:text-green-400 font-medium">Words</div>
             <div className="text-2xl font-bold text-green-900 dark:text-green-100">
-              {editedText.split(/\s+/).filter(word => word.length > 0).length}
+              {plainText.split(/\s+/).filter(word => word.length > 0).length}
             </div>
           </div>
           <div className="bg-purple-50 dark:bg-purple-900/20 p-4 rounded-lg">
             <div className="text-sm text-purple-600 dark:text-purple-400 font-medium">Characters</div>
             <div className="text-2xl font-bold text-purple-900 dark:text-purple-100">
-              {editedText.length}
+              {plainText.length}
             </div>
           </div>
         </div>
 
+        {/* Recording Playback */}
+        {audioUrl && (
+          <audio
+            ref={audioElementRef}
+            src={audioUrl}
+            controls
+            className="w-full mb-6"
+            onPlay={startPlaybackTracking}
+            onPause={stopPlaybackTracking}
+            onEnded={stopPlaybackTracking}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
+        )}
+
+        {/* Low-Confidence Review */}
+        {isReviewing && (
+          <div className="mb-4 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-4">
+            {reviewTarget && reviewWord ? (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-gray-700 dark:text-gray-300">
+                    Word {reviewPosition + 1} of {lowConfidenceWords.length}:{' '}
+                    <span className="font-semibold text-gray-900 dark:text-white">&ldquo;{reviewWord.word}&rdquo;</span>{' '}
+                    <span className="text-orange-700 dark:text-orange-400">
+                      ({Math.round((reviewWord.confidence || 0) * 100)}% confidence)
+                    </span>
+                    {' · '}{segments[reviewTarget.segmentIndex].speaker} at {formatTime(reviewWord.start)}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => goToReviewWord(reviewPosition - 1)}
+                      disabled={reviewPosition === 0}
+                      className="p-1 rounded text-gray-700 dark:text-gray-300 hover:bg-orange-100 dark:hover:bg-orange-900/40 disabled:opacity-40"
+                      title="Previous low-confidence word"
+                    >
+                      <ChevronLeft className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => goToReviewWord(reviewPosition + 1)}
+                      disabled={reviewPosition >= lowConfidenceWords.length - 1}
+                      className="p-1 rounded text-gray-700 dark:text-gray-300 hover:bg-orange-100 dark:hover:bg-orange-900/40 disabled:opacity-40"
+                      title="Next low-confidence word"
+                    >
+                      <ChevronRight className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => markReviewed(reviewTarget.segmentIndex, reviewTarget.wordIndex)}
+                    className="flex items-center space-x-1 px-3 py-1 text-sm bg-green-500 hover:bg-green-600 text-white rounded"
+                  >
+                    <Check className="h-4 w-4" />
+                    <span>Correct as heard</span>
+                  </button>
+                  {audioUrl && (
+                    <button
+                      onClick={() => seekTo(Math.max(0, reviewWord.start - 1))}
+                      className="px-3 py-1 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-gray-600"
+                    >
+                      Replay
+                    </button>
+                  )}
+                  {(reviewWord.alternatives || []).map(alternative => (
+                    <button
+                      key={alternative}
+                      onClick={() => replaceWord(reviewTarget.segmentIndex, reviewTarget.wordIndex, alternative)}
+                      className="px-3 py-1 text-sm bg-white dark:bg-gray-700 border border-orange-300 dark:border-orange-700 text-gray-900 dark:text-white rounded hover:bg-orange-100 dark:hover:bg-orange-900/40"
+                      title="Replace with this alternative"
+                    >
+                      Replace with &ldquo;{alternative}&rdquo;
+                    </button>
+                  ))}
+                  {!reviewWord.alternatives?.length && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      No alternatives from the provider; use Edit to correct this word
+                    </span>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                <span>All low-confidence words have been reviewed.</span>
+                <button
+                  onClick={() => setIsReviewing(false)}
+                  className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-200"
+                  title="Close review"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {spokenLanguages.length > 0 && (
+          <div className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+            Languages spoken: {spokenLanguages.map(languageName).join(', ')}
+          </div>
+        )}
+
+        {providerTrace && (
+          <div className="mb-3 text-sm text-amber-700 dark:text-amber-400">
+            {providerTrace}
+          </div>
+        )}
+
+        {evidence && (
+          <div className="mb-3 flex items-start justify-between space-x-4 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg p-3 text-sm text-purple-900 dark:text-purple-100">
+            <span>
+              Summary evidence{evidence.start !== undefined ? ` at ${formatTime(evidence.start)}` : ''}: &ldquo;{evidence.quote}&rdquo;
+            </span>
+            <button
+              onClick={() => setEvidence(null)}
+              className="text-purple-500 hover:text-purple-700 dark:hover:text-purple-300"
+              title="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
         {/* Transcription Content */}
         <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6">
-          {isEditing ? (
+          {hasDialogue ? (
+            <div className="max-h-96 overflow-y-auto space-y-3">
+              {segments.map((segment, index) => (
+                <div
+                  key={index}
+                  id={`segment-${index}`}
+                  className={`flex ${segment.speaker === 'Patient' ? 'justify-end' : 'justify-start'}`}
+                >
+                  <div
+                    className={`max-w-[80%] rounded-lg p-3 ${
+                      audioUrl && currentTime >= segment.start && currentTime < segment.end
+                        ? 'ring-2 ring-yellow-400 '
+                        : evidence?.segment === index
+                        ? 'ring-2 ring-purple-400 '
+                        : ''
+                    }${
+                      segment.speaker === 'Pharmacist'
+                        ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800'
+                        : segment.speaker === 'Patient'
+                        ? 'bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800'
+                        : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between space-x-4 mb-1 text-xs">
+                      <span className="flex items-center space-x-2">
+                        {isEditing ? (
+                          <select
+                            value={segment.speaker}
+                            onChange={(e) => updateSegment(index, { speaker: e.target.value as SpeakerRole })}
+                            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                            title="Select speaker"
+                          >
+                            <option value="Pharmacist">Pharmacist</option>
+                            <option value="Patient">Patient</option>
+                            <option value="Unknown">Unknown</option>
+                          </select>
+                        ) : (
+                          <span className="font-semibold text-gray-900 dark:text-white">{segment.speaker}</span>
+                        )}
+                        {segment.language && (
+                          <span
+                            className="px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 font-medium uppercase"
+                            title={languageName(segment.language)}
+                          >
+                            {segment.language}
+                          </span>
+                        )}
+                      </span>
+                      {audioUrl ? (
+                        <button
+                          onClick={() => seekTo(segment.start)}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                          title="Play from here"
+                        >
+                          {formatTime(segment.start)} – {formatTime(segment.end)}
+                        </button>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {formatTime(segment.start)} – {formatTime(segment.end)}
+                        </span>
+                      )}
+                    </div>
+                    {isEditing ? (
+                      <textarea
+                        value={segment.text}
+                        onChange={(e) => updateSegment(index, { text: e.target.value })}
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded resize-y focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        rows={Math.max(2, Math.ceil(segment.text.length / 80))}
+                        title="Edit segment text"
+                      />
+                    ) : segment.words?.length ? (
+                      <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+                        {segment.words.map((word, wordIndex) => {
+                          const reviewPositionOfWord = isReviewing
+                            ? lowConfidenceWords.findIndex(entry => entry.segmentIndex === index && entry.wordIndex === wordIndex)
+                            : -1;
+                          const isCurrentReviewWord = reviewTarget?.segmentIndex === index && reviewTarget.wordIndex === wordIndex;
+
+                          return (
+                            <span key={wordIndex}>
+                              <span
+                                id={`word-${index}-${wordIndex}`}
+                                onClick={
+                                  reviewPositionOfWord >= 0
+                                    ? () => goToReviewWord(reviewPositionOfWord)
+                                    : audioUrl ? () => seekTo(word.start) : undefined
+                                }
+                                title={word.confidence !== undefined ? `${Math.round(word.confidence * 100)}% confidence` : undefined}
+                                className={`rounded transition-colors ${audioUrl || reviewPositionOfWord >= 0 ? 'cursor-pointer hover:underline' : ''} ${
+                                  audioUrl && currentTime >= word.start && currentTime < word.end
+                                    ? 'bg-yellow-300 dark:bg-yellow-600 text-gray-900 dark:text-white'
+                                    : reviewPositionOfWord >= 0
+                                    ? 'bg-orange-100 dark:bg-orange-900/40 underline decoration-dotted decoration-orange-500'
+                                    : ''
+                                } ${isCurrentReviewWord ? 'ring-2 ring-orange-500' : ''}`}
+                              >
+                                {word.word}
+                              </span>{' '}
+                            </span>
+                          );
+                        })}
+                      </p>
+                    ) : (
+                      <p className="text-gray-700 dark:text-gray-300 leading-relaxed">{segment.text}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : isEditing ? (
             <textarea
               value={editedText}
               onChange={(e) => setEditedText(e.target.value)}
@@ -215,7 +541,7 @@ export default function TranscriptionView({
             Pharmacy-Specific Detections
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {extractPharmacyEntities(editedText).map((category, index) => (
+            {extractPharmacyEntities(plainText).map((category, index) => (
               <div key={index} className="bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-4">
                 <h4 className="font-medium text-gray-900 dark:text-white mb-2">{category.name}</h4>
                 <div className="space-y-1">
@@ -234,6 +560,37 @@ export default function TranscriptionView({
   );
 }
 
+/**
+ * Swap one word in a segment's display text. The text keeps punctuation the
+ * word list doesn't have, so the matching whole-word occurrence is replaced in
+ * place, never part of a longer word, and the text is only rebuilt from words
+ * if it can't be found.
+ */
+function replaceWordInText(text: string, words: TranscriptWord[], wordIndex: number, replacement: string) {
+  const target = words[wordIndex].word.toLowerCase();
+  const occurrence = words.slice(0, wordIndex).filter(word => word.word.toLowerCase() === target).length;
+  const escaped = target.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const matches = Array.from(text.matchAll(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu')));
+  const match = matches[occurrence];
+
+  if (!match || match.index === undefined) {
+    return words.map((word, i) => (i === wordIndex ? replacement : word.word)).join(' ');
+  }
+  return text.slice(0, match.index) + replacement + text.slice(match.index + match[0].length);
+}
+
+/**
+ * The language with the most words across the given segments.
+ */
+function dominantLanguage(segments: TranscriptSegment[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const segment of segments) {
+    if (!segment.language) continue;
+    counts.set(segment.language, (counts.get(segment.language) || 0) + segment.text.split(/\s+/).length);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
 function extractPharmacyEntities(text: string) {
   const lowerText = text.toLowerCase();
   
@@ -243,8 +600,13 @@ function extractPharmacyEntities(text: string) {
     'lisinopril', 'atorvastatin', 'omeprazole', 'albuterol', 'prednisone'
   ].filter(med => lowerText.includes(med));
 
-  // Dosage patterns
-  const dosages = (text.match(/\d+\s*(mg|mcg|g|ml|tablet|capsule|dose)/gi) || []);
+  // Directions and amounts, e.g. "one to two tablets every four to six hours" or "500 mg"
+  const dosages = text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => parseSig(sentence))
+    .filter(sig => sig.dose || sig.amount)
+    .map(formatSig)
+    .filter(Boolean);
 
   // Side effects
   const sideEffects = [
@@ -252,8 +614,8 @@ function extractPharmacyEntities(text: string) {
     'rash', 'itching', 'swelling', 'shortness of breath'
   ].filter(effect => lowerText.includes(effect));
 
-  // Allergies
-  const allergies = (text.match(/(allergic|allergy|reaction).*?(penicillin|sulfa|aspirin|latex)/gi) || []);
+  // Allergies, including denials such as "no known allergies"
+  const allergies = detectAllergies(text).map(formatAllergy);
 
   return [
     { name: 'Medications', items: medications },
@@ -0,0 +1,341 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Save, Plus, Trash2, Search } from 'lucide-react';
+import {
+  CATEGORY_BOOSTS,
+  CATEGORY_LABELS,
+  VOCABULARY_CATEGORIES,
+  VocabularyCategory,
+  VocabularyStore,
+  VocabularyTerm,
+} from '@/lib/vocabulary';
+
+interface VocabularyEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after a save so pharmacy pickers elsewhere can refresh
+  onSaved?: (vocabulary: VocabularyStore) => void;
+}
+
+// Key of the shared list in the list picker; pharmacies use their id
+const SHARED_LIST = '';
+
+export default function VocabularyEditor({ isOpen, onClose, onSaved }: VocabularyEditorProps) {
+  const [vocabulary, setVocabulary] = useState<VocabularyStore | null>(null);
+  const [defaults, setDefaults] = useState<VocabularyTerm[]>([]);
+  const [selectedList, setSelectedList] = useState(SHARED_LIST);
+  const [filter, setFilter] = useState('');
+  const [newPhrases, setNewPhrases] = useState('');
+  const [newCategory, setNewCategory] = useState<VocabularyCategory>('drug');
+  const [newPharmacyName, setNewPharmacyName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/vocabulary')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load vocabulary');
+        return response.json();
+      })
+      .then(data => {
+        setVocabulary(data.vocabulary);
+        setDefaults(data.defaults);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error loading vocabulary:', error);
+        setError('Could not load the vocabulary. Please try again.');
+      });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selectedPharmacy = vocabulary?.pharmacies.find(pharmacy => pharmacy.id === selectedList);
+  const terms = (selectedPharmacy ? selectedPharmacy.terms : vocabulary?.terms) || [];
+  const visibleTerms = terms
+    .map((term, index) => ({ term, index }))
+    .filter(({ term }) => term.phrase.toLowerCase().includes(filter.toLowerCase()));
+
+  const updateTerms = (update: (terms: VocabularyTerm[]) => VocabularyTerm[]) => {
+    if (!vocabulary) return;
+    if (selectedPharmacy) {
+      setVocabulary({
+        ...vocabulary,
+        pharmacies: vocabulary.pharmacies.map(pharmacy =>
+          pharmacy.id === selectedPharmacy.id ? { ...pharmacy, terms: update(pharmacy.terms) } : pharmacy
+        ),
+      });
+    } else {
+      setVocabulary({ ...vocabulary, terms: update(vocabulary.terms) });
+    }
+  };
+
+  // Accepts one phrase or a pasted list separated by commas or new lines
+  const addTerms = () => {
+    const phrases = newPhrases.split(/[,\n]/).map(phrase => phrase.trim()).filter(Boolean);
+    if (phrases.length === 0) return;
+
+    updateTerms(current => {
+      const existing = new Set(current.map(term => term.phrase.toLowerCase()));
+      const added = phrases
+        .filter(phrase => !existing.has(phrase.toLowerCase()))
+        .map(phrase => ({ phrase, category: newCategory }));
+      return [...added, ...current];
+    });
+    setNewPhrases('');
+  };
+
+  const updateTerm = (index: number, changes: Partial<VocabularyTerm>) => {
+    updateTerms(current => current.map((term, i) => (i === index ? { ...term, ...changes } : term)));
+  };
+
+  const removeTerm = (index: number) => {
+    updateTerms(current => current.filter((_, i) => i !== index));
+  };
+
+  const restoreDefaults = () => {
+    updateTerms(current => {
+      const existing = new Set(current.map(term => term.phrase.toLowerCase()));
+      return [...current, ...defaults.filter(term => !existing.has(term.phrase.toLowerCase()))];
+    });
+  };
+
+  const addPharmacy = () => {
+    const name = newPharmacyName.trim();
+    if (!vocabulary || !name) return;
+
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pharmacy';
+    let id = slug;
+    for (let n = 2; vocabulary.pharmacies.some(pharmacy => pharmacy.id === id); n++) {
+      id = `${slug}-${n}`;
+    }
+
+    setVocabulary({ ...vocabulary, pharmacies: [...vocabulary.pharmacies, { id, name, terms: [] }] });
+    setSelectedList(id);
+    setNewPharmacyName('');
+  };
+
+  const removePharmacy = () => {
+    if (!vocabulary || !selectedPharmacy) return;
+    if (!confirm(`Remove ${selectedPharmacy.name} and all of its vocabulary?`)) return;
+
+    setVocabulary({
+      ...vocabulary,
+      pharmacies: vocabulary.pharmacies.filter(pharmacy => pharmacy.id !== selectedPharmacy.id),
+    });
+    setSelectedList(SHARED_LIST);
+  };
+
+  const handleSave = async () => {
+    if (!vocabulary) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/vocabulary', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(vocabulary),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save vocabulary');
+      }
+
+      setVocabulary(data.vocabulary);
+      setError(null);
+      onSaved?.(data.vocabulary);
+      onClose();
+    } catch (error) {
+      console.error('Error saving vocabulary:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the vocabulary.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Pharmacy Vocabulary</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Drug names, strengths and jargon the speech recognizer should listen for
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:text-gray-300 dark:hover:text-gray-200"
+            title="Close vocabulary"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {vocabulary && (
+            <>
+              {/* List Picker */}
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={selectedList}
+                  onChange={(e) => setSelectedList(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  title="Vocabulary list"
+                >
+                  <option value={SHARED_LIST}>Shared by all pharmacies ({vocabulary.terms.length})</option>
+                  {vocabulary.pharmacies.map(pharmacy => (
+                    <option key={pharmacy.id} value={pharmacy.id}>
+                      {pharmacy.name} ({pharmacy.terms.length})
+                    </option>
+                  ))}
+                </select>
+                {selectedPharmacy ? (
+                  <button
+                    onClick={removePharmacy}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Remove pharmacy
+                  </button>
+                ) : (
+                  <button
+                    onClick={restoreDefaults}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Restore built-in terms
+                  </button>
+                )}
+                <div className="flex items-center gap-2 ml-auto">
+                  <input
+                    type="text"
+                    value={newPharmacyName}
+                    onChange={(e) => setNewPharmacyName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addPharmacy()}
+                    placeholder="New pharmacy name"
+                    className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <button
+                    onClick={addPharmacy}
+                    className="flex items-center space-x-1 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Add</span>
+                  </button>
+                </div>
+              </div>
+              {selectedPharmacy && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Added to the shared list when this pharmacy is selected in Settings. Use it for local formulary
+                  names and prescribers.
+                </p>
+              )}
+
+              {/* Add Terms */}
+              <div className="flex flex-col md:flex-row gap-2">
+                <textarea
+                  value={newPhrases}
+                  onChange={(e) => setNewPhrases(e.target.value)}
+                  rows={2}
+                  placeholder="Add terms, separated by commas or new lines"
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <select
+                  value={newCategory}
+                  onChange={(e) => setNewCategory(e.target.value as VocabularyCategory)}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  title="Category for new terms"
+                >
+                  {VOCABULARY_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={addTerms}
+                  className="flex items-center justify-center space-x-1 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add</span>
+                </button>
+              </div>
+
+              {/* Term List */}
+              <div className="relative">
+                <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter terms"
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleTerms.length === 0 && (
+                  <p className="p-4 text-sm text-gray-500 dark:text-gray-400 text-center">No terms</p>
+                )}
+                {visibleTerms.map(({ term, index }) => (
+                  <div key={`${term.phrase}-${index}`} className="flex items-center gap-2 px-3 py-2">
+                    <span className="flex-1 text-gray-900 dark:text-white">{term.phrase}</span>
+                    <select
+                      value={term.category}
+                      onChange={(e) => updateTerm(index, { category: e.target.value as VocabularyCategory })}
+                      className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      title="Category"
+                    >
+                      {VOCABULARY_CATEGORIES.map(category => (
+                        <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      max={20}
+                      value={term.boost ?? ''}
+                      placeholder={String(CATEGORY_BOOSTS[term.category])}
+                      onChange={(e) => updateTerm(index, { boost: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className="w-16 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      title="Boost (0-20); leave empty for the category default"
+                    />
+                    <button
+                      onClick={() => removeTerm(index)}
+                      className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Remove term"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Google Speech-to-Text receives every term as a phrase hint with its boost. Whisper receives a prompt
+                with as many terms as fit, highest boost first.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !vocabulary}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-600 flex items-center space-x-2"
+          >
+            <Save className="h-4 w-4" />
+            <span>{isSaving ? 'Saving...' : 'Save Vocabulary'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
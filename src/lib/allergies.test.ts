@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { checkAllergies, conflictKey, detectAllergies, formatAllergy } from '@/lib/allergies';
+
+describe('detectAllergies', () => {
+  it('reads an allergy with its reaction and severity', () => {
+    expect(detectAllergies('I had a reaction to penicillin, hives and trouble breathing.')).toEqual([
+      { substance: 'Penicillin', reaction: 'hives', severity: 'severe' },
+    ]);
+  });
+
+  it('reads no known drug allergies', () => {
+    const allergies = detectAllergies('Any allergies? NKDA. No known drug allergies.');
+    expect(allergies).toEqual([{ substance: '', denied: true }]);
+    expect(formatAllergy(allergies[0])).toBe('No known allergies');
+  });
+
+  it('reads a denied allergy to one substance', () => {
+    expect(detectAllergies("I'm not allergic to sulfa.")).toEqual([{ substance: 'Sulfa', denied: true }]);
+  });
+
+  it('limits a denial to the clause it is said in', () => {
+    expect(detectAllergies('No allergies except penicillin, it gives me hives.')).toEqual([
+      { substance: 'Penicillin', reaction: 'hives' },
+    ]);
+    expect(detectAllergies('No, but I am allergic to penicillin.')).toEqual([{ substance: 'Penicillin' }]);
+    expect(detectAllergies('I never had problems with aspirin but I am allergic to sulfa.')).toEqual([
+      { substance: 'Sulfa' },
+      { substance: 'Aspirin', denied: true },
+    ]);
+  });
+
+  it('carries a clause on to the list after it', () => {
+    expect(detectAllergies("I'm allergic to penicillin, sulfa and codeine but not latex.")).toEqual([
+      { substance: 'Penicillin' },
+      { substance: 'Sulfa' },
+      { substance: 'Codeine' },
+      { substance: 'Latex', denied: true },
+    ]);
+  });
+});
+
+describe('checkAllergies', () => {
+  it('flags a medication in the same class as the allergy', () => {
+    const conflicts = checkAllergies([{ substance: 'Penicillin', reaction: 'hives' }], [{ name: 'Amoxicillin 500 mg' }]);
+    expect(conflicts).toEqual([
+      expect.objectContaining({ allergy: 'Penicillin', medication: 'Amoxicillin 500 mg', kind: 'class', reaction: 'hives' }),
+    ]);
+  });
+
+  it('flags cross-reactive classes after direct conflicts', () => {
+    const conflicts = checkAllergies(
+      [{ substance: 'Penicillin' }],
+      [{ name: 'Cephalexin' }, { name: 'Penicillin VK' }, { name: 'Metformin' }]
+    );
+    expect(conflicts.map(conflict => [conflict.medication, conflict.kind])).toEqual([
+      ['Penicillin VK', 'listed'],
+      ['Cephalexin', 'cross-reactive'],
+    ]);
+  });
+
+  it('finds the ingredient in the sig', () => {
+    const conflicts = checkAllergies(
+      [{ substance: 'Sulfa' }],
+      [{ name: 'Bactrim DS', sig: { ingredient: 'sulfamethoxazole' } }]
+    );
+    expect(conflicts).toEqual([expect.objectContaining({ kind: 'class' })]);
+  });
+
+  it('alerts on an allergy named after a denial in the same sentence', () => {
+    const allergies = detectAllergies('No allergies except penicillin, it gives me hives.');
+    expect(checkAllergies(allergies, [{ name: 'Amoxicillin' }])).toEqual([
+      expect.objectContaining({ allergy: 'Penicillin', medication: 'Amoxicillin', kind: 'class' }),
+    ]);
+  });
+
+  it('skips denied allergies and no known allergies', () => {
+    const allergies = detectAllergies("NKDA. I'm not allergic to penicillin.");
+    expect(checkAllergies(allergies, [{ name: 'Amoxicillin' }])).toEqual([]);
+  });
+
+  it('keys a conflict by allergy and medication, not by wording', () => {
+    expect(conflictKey({ allergy: 'Penicillin', medication: 'Amoxicillin 500 mg' }))
+      .toBe(conflictKey({ allergy: 'penicillin', medication: 'amoxicillin-500 mg ' }));
+  });
+});
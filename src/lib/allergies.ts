@@ -0,0 +1,285 @@
+import { mentionsDrug, normalizeDrugName } from '@/lib/medications';
+import type { AllergySeverity, SummaryAllergy, SummaryData, SummaryMedication } from '@/lib/types';
+
+export const ALLERGY_SEVERITIES: readonly AllergySeverity[] = ['mild', 'moderate', 'severe'];
+
+/**
+ * A group of drugs that an allergy to one member usually rules out, with the
+ * names a patient may give the whole class by.
+ */
+interface AllergenClass {
+  id: string;
+  // How one member is described, e.g. "a penicillin"
+  member: string;
+  aliases: string[];
+  members: string[];
+  // Other classes that react with this one less often, and what to check
+  crossReactive?: { classId: string; note: string }[];
+}
+
+/**
+ * How an allergy and a medication in the same summary conflict: the
+ * medication is the allergen itself, in its class, or in a class it can
+ * cross-react with.
+ */
+export interface AllergyConflict {
+  allergy: string;
+  medication: string;
+  kind: 'listed' | 'class' | 'cross-reactive';
+  detail: string;
+  reaction?: string;
+  severity?: AllergySeverity;
+}
+
+const PENICILLIN_CEPHALOSPORIN_NOTE = 'Cross-reactivity between penicillins and cephalosporins is low (about 1-2%) and highest with first-generation cephalosporins. Check what the reaction was before dispensing.';
+
+const ALLERGEN_CLASSES: AllergenClass[] = [
+  {
+    id: 'penicillins',
+    member: 'a penicillin',
+    aliases: ['penicillin', 'penicillins', 'pcn'],
+    members: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'amoxil', 'dicloxacillin', 'nafcillin', 'oxacillin', 'piperacillin'],
+    crossReactive: [
+      { classId: 'cephalosporins', note: PENICILLIN_CEPHALOSPORIN_NOTE },
+      { classId: 'carbapenems', note: 'Cross-reactivity between penicillins and carbapenems is under 1%. Check what the reaction was before dispensing.' },
+    ],
+  },
+  {
+    id: 'cephalosporins',
+    member: 'a cephalosporin',
+    aliases: ['cephalosporin', 'cephalosporins'],
+    members: ['cephalexin', 'keflex', 'cefadroxil', 'cefazolin', 'cefuroxime', 'cefprozil', 'cefdinir', 'cefpodoxime', 'cefixime', 'ceftriaxone', 'cefepime'],
+    crossReactive: [{ classId: 'penicillins', note: PENICILLIN_CEPHALOSPORIN_NOTE }],
+  },
+  {
+    id: 'carbapenems',
+    member: 'a carbapenem',
+    aliases: ['carbapenem', 'carbapenems'],
+    members: ['meropenem', 'imipenem', 'ertapenem'],
+  },
+  {
+    id: 'sulfonamides',
+    member: 'a sulfonamide antibiotic',
+    aliases: ['sulfa', 'sulfas', 'sulfonamide', 'sulfonamides'],
+    members: ['sulfamethoxazole', 'bactrim', 'septra', 'sulfadiazine', 'sulfasalazine'],
+  },
+  {
+    id: 'nsaids',
+    member: 'an NSAID',
+    aliases: ['nsaid', 'nsaids', 'anti inflammatory', 'anti inflammatories'],
+    members: ['aspirin', 'ibuprofen', 'naproxen', 'diclofenac', 'meloxicam', 'celecoxib', 'ketorolac', 'indomethacin', 'advil', 'motrin', 'aleve'],
+  },
+  {
+    id: 'opioids',
+    member: 'an opioid',
+    aliases: ['opioid', 'opioids', 'opiate', 'opiates', 'narcotic', 'narcotics'],
+    members: ['codeine', 'morphine', 'hydrocodone', 'oxycodone', 'tramadol', 'hydromorphone', 'fentanyl', 'methadone'],
+  },
+  {
+    id: 'macrolides',
+    member: 'a macrolide',
+    aliases: ['macrolide', 'macrolides'],
+    members: ['azithromycin', 'clarithromycin', 'erythromycin', 'zithromax', 'z pak'],
+  },
+  {
+    id: 'fluoroquinolones',
+    member: 'a fluoroquinolone',
+    aliases: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones'],
+    members: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'cipro', 'levaquin'],
+  },
+  {
+    id: 'tetracyclines',
+    member: 'a tetracycline',
+    aliases: ['tetracyclines'],
+    members: ['tetracycline', 'doxycycline', 'minocycline'],
+  },
+  {
+    id: 'ace-inhibitors',
+    member: 'an ACE inhibitor',
+    aliases: ['ace inhibitor', 'ace inhibitors'],
+    members: ['lisinopril', 'enalapril', 'ramipril', 'benazepril', 'captopril', 'quinapril'],
+  },
+  {
+    id: 'statins',
+    member: 'a statin',
+    aliases: ['statin', 'statins'],
+    members: ['atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin', 'lovastatin'],
+  },
+];
+
+// Allergens outside the drug classes that keyword detection should still pick up
+const OTHER_ALLERGENS = ['latex', 'egg', 'eggs', 'gelatin', 'iodine', 'peanuts', 'shellfish'];
+
+const NO_KNOWN_ALLERGIES = /\b(no known (drug )?allergies|nkda|no (drug )?allergies|not allergic to anything|(don't|do not) have any allergies)\b/i;
+const ALLERGY_MENTION = /\b(allerg\w*|reactions?)\b/i;
+const NEGATION = /\b(not|never|no|none|denies|\w+n['’]t)\b/i;
+// Where a sentence turns to another clause; "except" and the like also flip what the clause before said
+const CLAUSE_BREAK = /\s*(?:[,;:]|\b(but|except|apart from|other than|although|though|however|whereas)\b)\s*/i;
+const EXCEPTION = /^(except|apart from|other than)$/i;
+const REACTIONS = ['anaphylaxis', 'hives', 'rash', 'swelling', 'itching', 'trouble breathing', 'shortness of breath', 'blisters', 'nausea', 'vomiting'];
+const SEVERE_REACTION = /\b(anaphyla\w*|trouble breathing|throat (was |is )?(closing|swelling|swelled|swollen)|epipen|hospital\w*|blisters)\b/i;
+
+const CONFLICT_ORDER: AllergyConflict['kind'][] = ['listed', 'class', 'cross-reactive'];
+
+// Identifies an alert across re-renders and re-runs of the check, unlike its position in the list
+export function conflictKey(conflict: Pick<AllergyConflict, 'allergy' | 'medication'>): string {
+  return `${normalizeDrugName(conflict.allergy)}:${normalizeDrugName(conflict.medication)}`;
+}
+
+/**
+ * A severity from free text, e.g. "Severe" or "mild to moderate", keeping the
+ * worst one named.
+ */
+export function readSeverity(value: unknown): AllergySeverity | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.toLowerCase();
+  return [...ALLERGY_SEVERITIES].reverse().find(severity => text.includes(severity));
+}
+
+/**
+ * Every allergy in a summary, from all of its allergy sections, once each by
+ * substance.
+ */
+export function summaryAllergies(summary: Pick<SummaryData, 'template' | 'sections'>): SummaryAllergy[] {
+  const seen = new Set<string>();
+  return summary.template.sections
+    .filter(section => section.type === 'allergies')
+    .flatMap(section => (summary.sections[section.id] as SummaryAllergy[] | undefined) ?? [])
+    .filter(allergy => {
+      const key = `${allergy.denied ? 'denied' : ''}:${normalizeDrugName(allergy.substance)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export function formatAllergy(allergy: SummaryAllergy): string {
+  if (allergy.denied) {
+    return allergy.substance ? `Denies ${allergy.substance} allergy` : 'No known allergies';
+  }
+  const details = [allergy.reaction, allergy.severity].filter(Boolean).join(', ');
+  return `${allergy.substance}${details ? ` (${details})` : ''}`;
+}
+
+/**
+ * A keyword guess at the allergies in a transcript, sentence by sentence, for
+ * the keyword summary and the transcript's entity list. A denial only covers
+ * the clause it is said in, so "no, but I'm allergic to penicillin" still
+ * records the allergy.
+ */
+export function detectAllergies(text: string): SummaryAllergy[] {
+  const allergens = [
+    ...ALLERGEN_CLASSES.flatMap(allergenClass => [...allergenClass.aliases, ...allergenClass.members]),
+    ...OTHER_ALLERGENS,
+  ];
+  const allergies: SummaryAllergy[] = [];
+  const seen = new Set<string>();
+
+  for (const sentence of text.split(/\n+|(?<=[.!?])\s+/)) {
+    const found: SummaryAllergy[] = [];
+    if (ALLERGY_MENTION.test(sentence)) {
+      const lowerSentence = sentence.toLowerCase();
+      const reaction = REACTIONS.find(word => lowerSentence.includes(word));
+      const clauses = splitClauses(sentence);
+      for (const allergen of allergens) {
+        const clause = clauses.find(({ text: clauseText }) => mentionsDrug({ name: clauseText }, allergen));
+        if (seen.has(allergen) || !clause) continue;
+        seen.add(allergen);
+        found.push({
+          substance: allergen.charAt(0).toUpperCase() + allergen.slice(1),
+          ...(reaction && !clause.denied ? { reaction } : {}),
+          ...(SEVERE_REACTION.test(sentence) && !clause.denied ? { severity: 'severe' as const } : {}),
+          ...(clause.denied ? { denied: true } : {}),
+        });
+      }
+    }
+
+    // "No allergies except penicillin" is not a denial of every allergy
+    if (NO_KNOWN_ALLERGIES.test(sentence) && !found.some(allergy => !allergy.denied) && !seen.has('')) {
+      seen.add('');
+      allergies.push({ substance: '', denied: true });
+    }
+    allergies.push(...found);
+  }
+
+  return allergies;
+}
+
+/**
+ * A sentence's clauses and whether each denies an allergy. A clause without
+ * a negation or an allergy word of its own, like the "sulfa" of "not to
+ * penicillin, or sulfa", carries on from the clause before it, or the one
+ * after when it comes first; one opened by "except" says the opposite.
+ */
+function splitClauses(sentence: string): { text: string; denied: boolean }[] {
+  const parts = sentence.split(CLAUSE_BREAK);
+  const clauses: { text: string; denied?: boolean; flips: boolean }[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const clauseText = parts[i] ?? '';
+    const lowerText = clauseText.toLowerCase();
+    const denied = NEGATION.test(clauseText)
+      ? true
+      : ALLERGY_MENTION.test(clauseText) || REACTIONS.some(word => lowerText.includes(word))
+        ? false
+        : undefined;
+    clauses.push({ text: clauseText, denied, flips: EXCEPTION.test(parts[i - 1] ?? '') });
+  }
+
+  let previous: boolean | undefined;
+  for (const clause of clauses) {
+    if (clause.denied === undefined && previous !== undefined) {
+      clause.denied = clause.flips ? !previous : previous;
+    }
+    previous = clause.denied;
+  }
+  const first = clauses.find(clause => clause.denied !== undefined)?.denied ?? false;
+  return clauses.map(clause => ({ text: clause.text, denied: clause.denied ?? first }));
+}
+
+/**
+ * The medications that conflict with the patient's allergies, directly, by
+ * class or by cross-reactivity, strongest first. Denied allergies are skipped.
+ */
+export function checkAllergies(allergies: SummaryAllergy[], medications: SummaryMedication[]): AllergyConflict[] {
+  const conflicts: AllergyConflict[] = [];
+
+  for (const allergy of allergies) {
+    if (allergy.denied || !allergy.substance.trim()) continue;
+    const classes = ALLERGEN_CLASSES.filter(allergenClass =>
+      [...allergenClass.aliases, ...allergenClass.members].some(name => mentionsDrug({ name: allergy.substance }, name))
+    );
+
+    for (const medication of medications) {
+      const conflict = (kind: AllergyConflict['kind'], detail: string): AllergyConflict => ({
+        allergy: allergy.substance,
+        medication: medication.name,
+        kind,
+        detail,
+        ...(allergy.reaction ? { reaction: allergy.reaction } : {}),
+        ...(allergy.severity ? { severity: allergy.severity } : {}),
+      });
+
+      if (mentionsDrug(medication, allergy.substance)) {
+        conflicts.push(conflict('listed', `The patient reports an allergy to ${allergy.substance}.`));
+        continue;
+      }
+
+      const sameClass = classes.find(allergenClass => allergenClass.members.some(name => mentionsDrug(medication, name)));
+      if (sameClass) {
+        conflicts.push(conflict('class', `${medication.name} is ${sameClass.member}, the same class as ${allergy.substance}.`));
+        continue;
+      }
+
+      const crossReactive = classes
+        .flatMap(allergenClass => allergenClass.crossReactive ?? [])
+        .find(({ classId }) =>
+          ALLERGEN_CLASSES.find(allergenClass => allergenClass.id === classId)?.members.some(name => mentionsDrug(medication, name))
+        );
+      if (crossReactive) {
+        conflicts.push(conflict('cross-reactive', crossReactive.note));
+      }
+    }
+  }
+
+  return conflicts.sort((a, b) => CONFLICT_ORDER.indexOf(a.kind) - CONFLICT_ORDER.indexOf(b.kind));
+}
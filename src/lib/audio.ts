@@ -0,0 +1,370 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export const TARGET_SAMPLE_RATE = 16000;
+
+// Loudness target for speech, measured as RMS over frames that contain signal
+const TARGET_LOUDNESS_DB = -20;
+const PEAK_CEILING = 0.89; // -1 dBFS
+const SILENCE_GATE_DB = -50;
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+export type AudioContainer = 'wav' | 'webm' | 'ogg' | 'mp4' | 'mp3' | 'flac' | 'unknown';
+export type AudioCodec = 'pcm' | 'float' | 'opus' | 'vorbis' | 'aac' | 'mp3' | 'flac' | 'unknown';
+
+export interface SniffedAudio {
+  container: AudioContainer;
+  codec: AudioCodec;
+  mimeType: string;
+  extension: string;
+}
+
+export interface PreparedAudio {
+  sniffed: SniffedAudio;
+  // Set when the audio was decoded and run through the pipeline
+  samples?: Float32Array;
+  sampleRate: number;
+  duration: number;
+  // Original bytes, used as-is when the audio could not be decoded
+  original: Buffer;
+}
+
+interface WavInfo {
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  data: Buffer;
+}
+
+/**
+ * Normalise uploaded audio before any provider sees it: sniff the real container
+ * and codec (browsers mislabel MediaRecorder output), decode, downmix to mono,
+ * resample to 16kHz and apply loudness normalisation.
+ *
+ * PCM WAV is decoded in-process; everything else is decoded with ffmpeg, which
+ * also downmixes and resamples it so long recordings never hold full-rate audio
+ * in memory. Without ffmpeg, compressed audio is passed through untouched with
+ * its sniffed type.
+ */
+export async function preprocessAudio(audio: Buffer): Promise<PreparedAudio> {
+  const sniffed = sniffAudio(audio);
+
+  let wav = sniffed.container === 'wav' ? parseWav(audio) : null;
+  if (!wav) {
+    const decoded = await decodeWithFfmpeg(audio, sniffed.extension);
+    wav = decoded ? parseWav(decoded) : null;
+  }
+
+  if (!wav) {
+    return { sniffed, sampleRate: 0, duration: 0, original: audio };
+  }
+
+  // A no-op for ffmpeg's output, which is already mono at the target rate
+  const mono = downmixToMono(wav);
+  const resampled = resample(mono, wav.sampleRate, TARGET_SAMPLE_RATE);
+  const samples = normalizeLoudness(resampled);
+
+  return {
+    sniffed,
+    samples,
+    sampleRate: TARGET_SAMPLE_RATE,
+    duration: samples.length / TARGET_SAMPLE_RATE,
+    original: audio,
+  };
+}
+
+/**
+ * Cut a decoded recording down to [start, end) seconds, e.g. to send a long
+ * consultation to a provider in windows.
+ */
+export function sliceAudio(prepared: PreparedAudio, start: number, end: number): PreparedAudio {
+  if (!prepared.samples) return prepared;
+
+  const samples = prepared.samples.subarray(
+    Math.floor(start * prepared.sampleRate),
+    Math.min(Math.floor(end * prepared.sampleRate), prepared.samples.length)
+  );
+
+  return {
+    ...prepared,
+    samples,
+    duration: samples.length / prepared.sampleRate,
+  };
+}
+
+export function sniffAudio(buffer: Buffer): SniffedAudio {
+  const ascii = (start: number, end: number) => buffer.toString('ascii', start, end);
+  // Codec identifiers sit in the first few KB of every container we care about
+  const head = buffer.subarray(0, 4096).toString('latin1');
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    const wav = parseWav(buffer);
+    return {
+      container: 'wav',
+      codec: wav?.formatTag === 3 ? 'float' : wav?.formatTag === 1 ? 'pcm' : 'unknown',
+      mimeType: 'audio/wav',
+      extension: 'wav',
+    };
+  }
+
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    const codec: AudioCodec = head.includes('A_OPUS') ? 'opus' : head.includes('A_VORBIS') ? 'vorbis' : 'unknown';
+    return { container: 'webm', codec, mimeType: 'audio/webm', extension: 'webm' };
+  }
+
+  if (ascii(0, 4) === 'OggS') {
+    const codec: AudioCodec = head.includes('OpusHead') ? 'opus' : head.includes('vorbis') ? 'vorbis' : head.includes('FLAC') ? 'flac' : 'unknown';
+    return { container: 'ogg', codec, mimeType: 'audio/ogg', extension: 'ogg' };
+  }
+
+  if (ascii(4, 8) === 'ftyp') {
+    const codec: AudioCodec = head.includes('mp4a') ? 'aac' : head.includes('Opus') ? 'opus' : 'unknown';
+    return { container: 'mp4', codec, mimeType: 'audio/mp4', extension: 'm4a' };
+  }
+
+  if (ascii(0, 4) === 'fLaC') {
+    return { container: 'flac', codec: 'flac', mimeType: 'audio/flac', extension: 'flac' };
+  }
+
+  if (ascii(0, 3) === 'ID3' || (buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+    return { container: 'mp3', codec: 'mp3', mimeType: 'audio/mpeg', extension: 'mp3' };
+  }
+
+  return { container: 'unknown', codec: 'unknown', mimeType: 'application/octet-stream', extension: 'bin' };
+}
+
+function parseWav(buffer: Buffer): WavInfo | null {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let offset = 12;
+  let format: Omit<WavInfo, 'data'> | null = null;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let formatTag = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the first two bytes of the subformat GUID
+      if (formatTag === 0xfffe && chunkSize >= 26) {
+        formatTag = buffer.readUInt16LE(body + 24);
+      }
+      format = {
+        formatTag,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) return null;
+      const supported = (format.formatTag === 1 && [8, 16, 24, 32].includes(format.bitsPerSample))
+        || (format.formatTag === 3 && format.bitsPerSample === 32);
+      if (!supported || format.channels === 0) return null;
+
+      // Streamed WAV (e.g. from an ffmpeg pipe) leaves the size as 0 or 0xFFFFFFFF
+      const size = chunkSize === 0 || body + chunkSize > buffer.length ? buffer.length - body : chunkSize;
+      return { ...format, data: buffer.subarray(body, body + size) };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+function downmixToMono(wav: WavInfo): Float32Array {
+  const bytesPerSample = wav.bitsPerSample / 8;
+  const frameSize = bytesPerSample * wav.channels;
+  const frames = Math.floor(wav.data.length / frameSize);
+  const mono = new Float32Array(frames);
+
+  const read = (position: number): number => {
+    if (wav.formatTag === 3) return wav.data.readFloatLE(position);
+    switch (wav.bitsPerSample) {
+      case 8: return (wav.data.readUInt8(position) - 128) / 128;
+      case 16: return wav.data.readInt16LE(position) / 32768;
+      case 24: return wav.data.readIntLE(position, 3) / 8388608;
+      default: return wav.data.readInt32LE(position) / 2147483648;
+    }
+  };
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < wav.channels; channel++) {
+      sum += read(frame * frameSize + channel * bytesPerSample);
+    }
+    mono[frame] = sum / wav.channels;
+  }
+
+  return mono;
+}
+
+/**
+ * Windowed-sinc resampler for in-process WAV, such as the 48kHz PCM streamed
+ * while recording. When downsampling, the kernel cutoff is lowered to the
+ * new Nyquist frequency so the 48kHz microphone signal doesn't alias.
+ */
+function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const cutoff = Math.min(1, toRate / fromRate);
+  const zeroCrossings = 4;
+  const halfWidth = Math.ceil(zeroCrossings / cutoff);
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const center = i * ratio;
+    const first = Math.max(0, Math.ceil(center - halfWidth));
+    const last = Math.min(samples.length - 1, Math.floor(center + halfWidth));
+    let sum = 0;
+    let weightSum = 0;
+
+    for (let j = first; j <= last; j++) {
+      const distance = (j - center) * cutoff;
+      const sinc = distance === 0 ? 1 : Math.sin(Math.PI * distance) / (Math.PI * distance);
+      // Hann window over the kernel width
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * (j - center)) / halfWidth);
+      const weight = sinc * window;
+      sum += samples[j] * weight;
+      weightSum += weight;
+    }
+
+    output[i] = weightSum > 0 ? sum / weightSum : 0;
+  }
+
+  return output;
+}
+
+/**
+ * Gain speech to a consistent level. Loudness is the RMS of 50ms frames above the
+ * silence gate, so long pauses don't make quiet speakers look quieter; the gain is
+ * capped so the loudest sample stays under -1 dBFS.
+ */
+function normalizeLoudness(samples: Float32Array): Float32Array {
+  const frameSize = Math.round(TARGET_SAMPLE_RATE * 0.05);
+  const gate = Math.pow(10, SILENCE_GATE_DB / 20);
+  let energy = 0;
+  let counted = 0;
+  let peak = 0;
+
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(start + frameSize, samples.length);
+    let frameEnergy = 0;
+    for (let i = start; i < end; i++) {
+      frameEnergy += samples[i] * samples[i];
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    if (Math.sqrt(frameEnergy / (end - start)) > gate) {
+      energy += frameEnergy;
+      counted += end - start;
+    }
+  }
+
+  if (counted === 0 || peak === 0) return samples;
+
+  const rms = Math.sqrt(energy / counted);
+  const gain = Math.min(Math.pow(10, TARGET_LOUDNESS_DB / 20) / rms, PEAK_CEILING / peak);
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = samples[i] * gain;
+  }
+  return output;
+}
+
+export function encodeWav16(samples: Float32Array, sampleRate: number): Buffer {
+  const pcm = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    pcm.writeInt16LE(Math.round(clamped < 0 ? clamped * 32768 : clamped * 32767), i * 2);
+  }
+  return pcm16ToWav(pcm, sampleRate);
+}
+
+/**
+ * Wrap raw mono 16-bit little-endian PCM, e.g. streamed from the browser, in a
+ * WAV header so it can go through the same preprocessing as an upload.
+ */
+export function pcm16ToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Decode any container ffmpeg understands into mono 16-bit PCM WAV at the
+ * target rate. Input goes through a temp file because MP4 files with the
+ * index at the end can't be read from a pipe. Returns null if ffmpeg is missing
+ * or can't decode the audio.
+ */
+async function decodeWithFfmpeg(audio: Buffer, extension: string): Promise<Buffer | null> {
+  const inputPath = path.join(os.tmpdir(), `audio-${randomUUID()}.${extension}`);
+  await fs.writeFile(inputPath, audio);
+  try {
+    return await runFfmpeg(['-i', inputPath, '-vn', '-ac', '1', '-ar', String(TARGET_SAMPLE_RATE), '-f', 'wav', '-acodec', 'pcm_s16le', 'pipe:1']);
+  } finally {
+    await fs.unlink(inputPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Compress WAV to Ogg Opus for providers with upload size limits. Returns null
+ * if ffmpeg is missing or fails.
+ */
+export async function encodeOggOpus(wav: Buffer): Promise<Buffer | null> {
+  return runFfmpeg(['-f', 'wav', '-i', 'pipe:0', '-c:a', 'libopus', '-b:a', '32k', '-f', 'ogg', 'pipe:1'], wav);
+}
+
+function runFfmpeg(args: string[], input?: Buffer): Promise<Buffer | null> {
+  return new Promise(resolve => {
+    const ffmpeg = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', ...args]);
+    const chunks: Buffer[] = [];
+    let stderr = '';
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    let spawnFailed = false;
+
+    ffmpeg.on('error', error => {
+      spawnFailed = true;
+      console.error('ffmpeg unavailable:', error.message);
+      resolve(null);
+    });
+    ffmpeg.on('close', code => {
+      if (spawnFailed) return;
+      if (code !== 0) {
+        console.error('ffmpeg failed:', stderr.trim());
+        resolve(null);
+        return;
+      }
+      resolve(Buffer.concat(chunks));
+    });
+
+    // Ignore EPIPE when ffmpeg exits before reading all of its input
+    ffmpeg.stdin.on('error', () => undefined);
+    ffmpeg.stdin.end(input);
+  });
+}
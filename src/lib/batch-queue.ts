@@ -0,0 +1,80 @@
+import { uploadInChunks } from '@/lib/chunked-upload';
+import { formatSpeakerTranscript } from '@/lib/diarization';
+import { summarySegments } from '@/lib/summary-stream';
+import { JobOptions, startJobFromUpload, watchTranscriptionJob } from '@/lib/job-client';
+import type { SummaryData, TranscriptionData } from '@/lib/types';
+
+// Recordings processed at once; each holds a provider call and an LLM call
+export const BATCH_CONCURRENCY = 2;
+
+export type BatchStatus = 'waiting' | 'uploading' | 'transcribing' | 'summarizing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  // 0-1 within the current step, or null when it can't be measured
+  progress: number | null;
+  error?: string;
+  transcription?: TranscriptionData;
+  summary?: SummaryData;
+}
+
+export interface BatchOptions extends JobOptions {
+  summarizer: string;
+  summaryLanguage: string;
+  // Note template id; empty for the default
+  template: string;
+}
+
+export function createBatchItem(file: File): BatchItem {
+  return { id: crypto.randomUUID(), file, status: 'waiting', progress: null };
+}
+
+/**
+ * Take one recording through upload, transcription and summarization. A retry
+ * skips whatever already finished, so a failed summary doesn't re-transcribe.
+ */
+export async function processBatchItem(
+  item: BatchItem,
+  options: BatchOptions,
+  onUpdate: (changes: Partial<BatchItem>) => void
+): Promise<void> {
+  let transcription = item.transcription;
+
+  if (!transcription) {
+    onUpdate({ status: 'uploading', progress: 0, error: undefined });
+    const uploadId = await uploadInChunks(item.file, progress =>
+      onUpdate({ progress: progress.uploadedBytes / progress.totalBytes })
+    );
+
+    onUpdate({ status: 'transcribing', progress: null });
+    const job = await startJobFromUpload(uploadId, options);
+    transcription = await watchTranscriptionJob(job.id, update => {
+      onUpdate({ progress: update.totalWindows > 1 ? update.completedWindows / update.totalWindows : null });
+    }).result;
+    onUpdate({ transcription });
+  }
+
+  onUpdate({ status: 'summarizing', progress: null, error: undefined });
+  const segments = transcription.segments || [];
+  const response = await fetch('/api/summarize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      text: segments.length > 0 ? formatSpeakerTranscript(segments) : transcription.text,
+      speakers: segments.length > 0 ? Array.from(new Set(segments.map(segment => segment.speaker))) : undefined,
+      duration: transcription.duration,
+      segments: segments.length > 0 ? summarySegments(segments) : undefined,
+      summarizer: options.summarizer,
+      outputLanguage: options.summaryLanguage,
+      template: options.template,
+    }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Summary generation failed');
+  }
+
+  onUpdate({ status: 'done', progress: null, summary: await response.json() });
+}
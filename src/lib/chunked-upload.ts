@@ -0,0 +1,129 @@
+import { sha256Hex } from '@/lib/sha256';
+
+// Each chunk is tried this many times before the upload is reported as failed
+const CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+interface UploadStatus {
+  id: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  finalized: boolean;
+  received: [number, number][];
+  receivedBytes: number;
+}
+
+/**
+ * Upload a file through /api/uploads in checksummed chunks and resolve with the
+ * upload id once the server has assembled it. The id is remembered per file,
+ * so calling this again for the same file after a failure, or after a reload,
+ * only sends the chunks the server is missing.
+ */
+export async function uploadInChunks(
+  file: File,
+  onProgress: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const status = await resumeOrCreateUpload(file);
+  localStorage.setItem(resumeKey(file), status.id);
+
+  let uploadedBytes = status.receivedBytes;
+  onProgress({ uploadedBytes, totalBytes: status.size });
+
+  if (!status.finalized) {
+    for (let index = 0; index < status.totalChunks; index++) {
+      const start = index * status.chunkSize;
+      const end = Math.min(status.size, start + status.chunkSize);
+      if (status.received.some(([from, to]) => from <= start && to >= end)) continue;
+
+      signal?.throwIfAborted();
+      await putChunk(status.id, index, file.slice(start, end), signal);
+      uploadedBytes += end - start;
+      onProgress({ uploadedBytes, totalBytes: status.size });
+    }
+
+    const response = await fetch(`/api/uploads/${status.id}/finalize`, { method: 'POST', signal });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Could not finish the upload');
+    }
+  }
+
+  localStorage.removeItem(resumeKey(file));
+  return status.id;
+}
+
+/**
+ * Forget a file's unfinished upload and delete what the server has of it.
+ */
+export async function discardUpload(file: File) {
+  const uploadId = localStorage.getItem(resumeKey(file));
+  localStorage.removeItem(resumeKey(file));
+  if (uploadId) {
+    await fetch(`/api/uploads/${uploadId}`, { method: 'DELETE' }).catch(() => {});
+  }
+}
+
+async function resumeOrCreateUpload(file: File): Promise<UploadStatus> {
+  const existingId = localStorage.getItem(resumeKey(file));
+  if (existingId) {
+    const response = await fetch(`/api/uploads/${existingId}`, { cache: 'no-store' });
+    if (response.ok) {
+      return response.json();
+    }
+    // Expired or removed on the server; start over
+    localStorage.removeItem(resumeKey(file));
+  }
+
+  const response = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, type: file.type, size: file.size }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Could not start the upload');
+  }
+  return response.json();
+}
+
+async function putChunk(uploadId: string, index: number, chunk: Blob, signal?: AbortSignal) {
+  const data = await chunk.arrayBuffer();
+  const checksum = await sha256Hex(data);
+
+  let lastError = 'Network error while uploading audio';
+  for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(`/api/uploads/${uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-SHA256': checksum },
+        body: data,
+        signal,
+      });
+      if (response.ok) return;
+
+      const errorData = await response.json().catch(() => ({}));
+      lastError = errorData.error || 'Audio upload failed';
+      // Only a corrupted chunk or a server hiccup is worth sending again
+      if (response.status !== 422 && response.status < 500) break;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+    }
+
+    if (attempt < CHUNK_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+
+  throw new Error(lastError);
+}
+
+function resumeKey(file: File) {
+  return `upload:${file.name}:${file.size}:${file.lastModified}`;
+}
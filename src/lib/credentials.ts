@@ -0,0 +1,206 @@
+import OpenAI from 'openai';
+import type { NextRequest, NextResponse } from 'next/server';
+
+export const CREDENTIAL_COOKIE = 'credentialSession';
+
+// Keys entered in Settings are forgotten after this long without a request
+const SESSION_IDLE_MS = 8 * 60 * 60 * 1000;
+const CONNECTION_TEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Provider credentials for one request: the keys the user entered in Settings
+ * for this browser session, falling back to the server's environment.
+ */
+export interface ApiCredentials {
+  openaiApiKey?: string;
+  googleApiKey?: string;
+  googleProjectId?: string;
+}
+
+export type CredentialName = keyof ApiCredentials;
+
+// Where a credential comes from; the key itself is never sent back to the browser
+export type CredentialSource = 'session' | 'server' | null;
+
+export type CredentialStatus = Record<CredentialName, CredentialSource>;
+
+export type CredentialService = 'openai' | 'google';
+
+export interface ConnectionTest {
+  service: CredentialService;
+  ok: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+interface CredentialSession {
+  credentials: ApiCredentials;
+  lastUsedAt: number;
+}
+
+const CREDENTIAL_NAMES: CredentialName[] = ['openaiApiKey', 'googleApiKey', 'googleProjectId'];
+
+const globalForCredentials = globalThis as unknown as {
+  credentialSessions?: Map<string, CredentialSession>;
+};
+
+// Held in memory only, so a server restart means entering the keys again
+const sessions = globalForCredentials.credentialSessions ?? new Map<string, CredentialSession>();
+globalForCredentials.credentialSessions = sessions;
+
+/**
+ * The server's own credentials, for work that isn't tied to a browser session.
+ */
+export function serverCredentials(): ApiCredentials {
+  return {
+    openaiApiKey: process.env.OPENAI_API_KEY || undefined,
+    googleApiKey: process.env.GOOGLE_API_KEY || undefined,
+    googleProjectId: process.env.GOOGLE_PROJECT_ID || undefined,
+  };
+}
+
+/**
+ * Credentials for a request, preferring the caller's session keys over the
+ * server's environment one key at a time.
+ */
+export function resolveCredentials(request: NextRequest): ApiCredentials {
+  const session = sessionCredentials(request);
+  const server = serverCredentials();
+  return {
+    openaiApiKey: session.openaiApiKey || server.openaiApiKey,
+    googleApiKey: session.googleApiKey || server.googleApiKey,
+    googleProjectId: session.googleProjectId || server.googleProjectId,
+  };
+}
+
+export function credentialStatus(request: NextRequest): CredentialStatus {
+  return statusOf(sessionCredentials(request));
+}
+
+
+/**
+ * Store keys for the caller's session, starting a session if there is none.
+ * A name given as an empty string is removed; names left out are kept. The
+ * returned session id goes back to the browser with `setCredentialCookie`.
+ */
+export function saveSessionCredentials(
+  request: NextRequest,
+  changes: Partial<ApiCredentials>
+): { sessionId: string; status: CredentialStatus } {
+  dropIdleSessions();
+
+  let id = request.cookies.get(CREDENTIAL_COOKIE)?.value;
+  let session = id ? sessions.get(id) : undefined;
+  if (!id || !session) {
+    id = crypto.randomUUID();
+    session = { credentials: {}, lastUsedAt: Date.now() };
+    sessions.set(id, session);
+  }
+
+  for (const name of CREDENTIAL_NAMES) {
+    const value = changes[name];
+    if (typeof value !== 'string') continue;
+    if (value.trim()) {
+      session.credentials[name] = value.trim();
+    } else {
+      delete session.credentials[name];
+    }
+  }
+  session.lastUsedAt = Date.now();
+
+  return { sessionId: id, status: statusOf(session.credentials) };
+}
+
+// Only sent to API routes, unreadable from scripts and lasting until the browser closes
+export function setCredentialCookie(response: NextResponse, sessionId: string) {
+  response.cookies.set(CREDENTIAL_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api',
+  });
+}
+
+export function clearSessionCredentials(request: NextRequest, response: NextResponse) {
+  const id = request.cookies.get(CREDENTIAL_COOKIE)?.value;
+  if (id) sessions.delete(id);
+  response.cookies.delete({ name: CREDENTIAL_COOKIE, path: '/api' });
+}
+
+/**
+ * Make one cheap authenticated call to check a key works. Errors name the
+ * problem but never include the key.
+ */
+export async function testConnection(service: CredentialService, credentials: ApiCredentials): Promise<ConnectionTest> {
+  const startedAt = Date.now();
+
+  try {
+    if (service === 'openai') {
+      if (!credentials.openaiApiKey) {
+        return { service, ok: false, error: 'No OpenAI API key entered or configured on the server' };
+      }
+      await new OpenAI({ apiKey: credentials.openaiApiKey, timeout: CONNECTION_TEST_TIMEOUT_MS, maxRetries: 0 }).models.list();
+      return { service, ok: true, latencyMs: Date.now() - startedAt };
+    }
+
+    if (!credentials.googleApiKey) {
+      return { service, ok: false, error: 'No Google API key entered or configured on the server' };
+    }
+    // Looking up an operation that doesn't exist costs nothing: an accepted key gets
+    // 404, a bad key or a disabled Speech-to-Text API gets 400 or 403
+    const response = await fetch('https://speech.googleapis.com/v1/operations/0', {
+      headers: googleApiHeaders(credentials),
+      signal: AbortSignal.timeout(CONNECTION_TEST_TIMEOUT_MS),
+    });
+    if (!response.ok && response.status !== 404) {
+      const errorData = await response.json().catch(() => ({}));
+      return { service, ok: false, error: errorData.error?.message || `Google responded with status ${response.status}` };
+    }
+    return { service, ok: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    return {
+      service,
+      ok: false,
+      error: status === 401 ? 'OpenAI rejected the API key' : error instanceof Error ? error.message : 'Connection failed',
+    };
+  }
+}
+
+/**
+ * Headers for Google REST calls. The key goes in a header rather than the URL
+ * so it can't end up in request logs, and the project, when set, is billed.
+ */
+export function googleApiHeaders(credentials: ApiCredentials): Record<string, string> {
+  return {
+    'X-Goog-Api-Key': credentials.googleApiKey || '',
+    ...(credentials.googleProjectId ? { 'X-Goog-User-Project': credentials.googleProjectId } : {}),
+  };
+}
+
+function sessionCredentials(request: NextRequest): ApiCredentials {
+  const id = request.cookies.get(CREDENTIAL_COOKIE)?.value;
+  const session = id ? sessions.get(id) : undefined;
+  if (!session) return {};
+
+  if (Date.now() - session.lastUsedAt > SESSION_IDLE_MS) {
+    sessions.delete(id as string);
+    return {};
+  }
+  session.lastUsedAt = Date.now();
+  return session.credentials;
+}
+
+function statusOf(session: ApiCredentials): CredentialStatus {
+  const server = serverCredentials();
+  return Object.fromEntries(
+    CREDENTIAL_NAMES.map(name => [name, session[name] ? 'session' : server[name] ? 'server' : null])
+  ) as CredentialStatus;
+}
+
+function dropIdleSessions() {
+  const now = Date.now();
+  for (const [id, session] of sessions) {
+    if (now - session.lastUsedAt > SESSION_IDLE_MS) sessions.delete(id);
+  }
+}
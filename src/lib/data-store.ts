@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Small JSON files for server-side settings that users edit in the app. They
+ * live in DATA_DIR (default `.data` in the project root), which should be on a
+ * persistent volume in production.
+ */
+export function dataDirectory() {
+  return process.env.DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+function dataPath(name: string) {
+  return path.join(dataDirectory(), `${name}.json`);
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(name), 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Could not read ${name} data:`, error);
+    }
+    return fallback;
+  }
+}
+
+export async function writeJsonFile(name: string, data: unknown) {
+  const file = dataPath(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so a crash never leaves half a file behind
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2));
+  await fs.rename(temp, file);
+}
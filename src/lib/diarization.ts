@@ -0,0 +1,234 @@
+import type OpenAI from 'openai';
+import type { SpeakerRole, TranscriptSegment, TranscriptWord } from '@/lib/types';
+
+export interface TimedWord extends TranscriptWord {
+  speakerTag?: number;
+  language?: string;
+}
+
+export interface TimedText {
+  start: number;
+  end: number;
+  text: string;
+  language?: string;
+}
+
+// Phrases that point at who is speaking; scored per speaker tag to pick the pharmacist
+const PHARMACIST_CUES = [
+  'i recommend', 'i would recommend', 'you should', 'make sure', 'take it', 'take this',
+  'take one', 'take two', 'with food', 'on an empty stomach', 'side effect', 'dose', 'dosage',
+  'prescription', 'refill', 'interaction', 'your doctor', 'any allergies', 'how are you feeling',
+  'any questions', 'milligram', 'mg', 'twice a day', 'once a day', 'as needed'
+];
+
+const PATIENT_CUES = [
+  'i have been', "i've been", 'i feel', "i'm feeling", 'my doctor', 'my prescription',
+  'i forgot', 'i missed', 'it hurts', 'my pain', 'i was wondering', 'can i take', 'should i',
+  'is it okay', 'i noticed', 'i get', 'my stomach', 'my head', 'i am allergic', "i'm allergic"
+];
+
+/**
+ * Collapse diarized words into speaker turns: consecutive words sharing a
+ * speaker tag and language become one segment, so a speaker switching
+ * language mid-turn starts a new segment.
+ */
+export function groupWordsIntoSegments(words: TimedWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const word of words) {
+    const speakerTag = word.speakerTag || 0;
+    const current = segments[segments.length - 1];
+
+    const timing = {
+      word: word.word,
+      start: word.start,
+      end: word.end,
+      confidence: word.confidence,
+      alternatives: word.alternatives,
+    };
+
+    if (current && current.speakerTag === speakerTag && current.language === word.language) {
+      current.text = `${current.text} ${word.word}`;
+      current.end = word.end;
+      current.words?.push(timing);
+    } else {
+      segments.push({
+        speaker: 'Unknown',
+        speakerTag,
+        start: word.start,
+        end: word.end,
+        text: word.word,
+        words: [timing],
+        language: word.language,
+      });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Distribute word timings over segments that only carry their own start/end,
+ * as Whisper returns words and segments as two separate lists.
+ */
+export function attachWordsToSegments(
+  segments: TranscriptSegment[],
+  words: TranscriptWord[]
+): TranscriptSegment[] {
+  if (words.length === 0) return segments;
+
+  const withWords = segments.map(segment => ({ ...segment, words: [] as TranscriptWord[] }));
+  let index = 0;
+
+  for (const word of words) {
+    // Advance while the word starts at or after the next segment's start
+    while (index < withWords.length - 1 && word.start >= withWords[index + 1].start) {
+      index++;
+    }
+    withWords[index]?.words.push({ ...word, word: word.word.trim() });
+  }
+
+  return withWords;
+}
+
+/**
+ * Timed text with no speaker information yet.
+ */
+export function toUntaggedSegments(segments: TimedText[]): TranscriptSegment[] {
+  return segments.map(segment => ({
+    speaker: 'Unknown' as SpeakerRole,
+    speakerTag: 0,
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim(),
+    language: segment.language,
+  }));
+}
+
+/**
+ * Whisper has no diarization of its own, so ask a chat model which of the two
+ * speakers said each timed segment and merge consecutive turns. Whisper also
+ * detects one language per request, so the same pass labels each segment's
+ * language for code-switched consultations. Falls back to untagged segments
+ * if the model response can't be used.
+ */
+export async function diarizeTimedSegments(
+  openai: OpenAI,
+  model: string,
+  segments: TimedText[]
+): Promise<TranscriptSegment[]> {
+  const untagged = toUntaggedSegments(segments);
+
+  if (segments.length === 0) return untagged;
+
+  try {
+    const numbered = segments.map((segment, index) => `${index + 1}. ${segment.text.trim()}`).join('\n');
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You perform speaker diarization on transcripts of two-person pharmacy consultations. Always respond with valid JSON.'
+        },
+        {
+          role: 'user',
+          content: `The numbered lines below are consecutive segments of a conversation between two speakers. Decide which speaker (1 or 2) said each line. Speaker 1 is whoever speaks first. Also give the language of each line as an ISO 639-1 code; speakers may switch between languages.
+
+${numbered}
+
+Return only JSON of the form {"speakers": [1, 2, ...], "languages": ["en", "es", ...]} with exactly ${segments.length} entries in each list, one per line in order.`
+        }
+      ],
+      temperature: 0,
+      response_format: { type: 'json_object' },
+    });
+
+    const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+    const speakers: unknown = parsed.speakers;
+    if (!Array.isArray(speakers) || speakers.length !== segments.length) {
+      console.error('Diarization response did not match segment count');
+      return untagged;
+    }
+
+    // Languages are a bonus; keep the speakers even if this list is off
+    const languages: unknown[] = Array.isArray(parsed.languages) && parsed.languages.length === segments.length
+      ? parsed.languages
+      : [];
+
+    const tagged = untagged.map((segment, index) => ({
+      ...segment,
+      speakerTag: speakers[index] === 2 ? 2 : 1,
+      language: typeof languages[index] === 'string'
+        ? (languages[index] as string).toLowerCase()
+        : segment.language,
+    }));
+
+    return mergeConsecutiveTurns(tagged);
+  } catch (error) {
+    console.error('Diarization error:', error);
+    return untagged;
+  }
+}
+
+/**
+ * Map numeric speaker tags onto Pharmacist/Patient. The tag whose turns contain
+ * more pharmacist-style phrasing becomes the Pharmacist; on a tie the first
+ * speaker is assumed to be the pharmacist, who usually opens the consultation.
+ */
+export function assignSpeakerRoles(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const tags = Array.from(new Set(segments.map(segment => segment.speakerTag).filter(tag => tag > 0)));
+  if (tags.length === 0) return segments;
+
+  const scores = new Map<number, number>();
+  for (const segment of segments) {
+    if (segment.speakerTag === 0) continue;
+    const lowerText = segment.text.toLowerCase();
+    const pharmacistHits = PHARMACIST_CUES.filter(cue => lowerText.includes(cue)).length;
+    const patientHits = PATIENT_CUES.filter(cue => lowerText.includes(cue)).length;
+    scores.set(segment.speakerTag, (scores.get(segment.speakerTag) || 0) + pharmacistHits - patientHits);
+  }
+
+  const ranked = [...tags].sort((a, b) => {
+    const difference = (scores.get(b) || 0) - (scores.get(a) || 0);
+    return difference !== 0 ? difference : tags.indexOf(a) - tags.indexOf(b);
+  });
+  const pharmacistTag = ranked[0];
+  const patientTag = ranked[1];
+
+  return segments.map(segment => ({
+    ...segment,
+    speaker: segment.speakerTag === pharmacistTag
+      ? 'Pharmacist'
+      : segment.speakerTag === patientTag
+      ? 'Patient'
+      : 'Unknown',
+  }));
+}
+
+/**
+ * Render segments as "Speaker: text" lines, the form the summarizers expect.
+ */
+export function formatSpeakerTranscript(segments: TranscriptSegment[]): string {
+  return segments
+    .map(segment => segment.speaker === 'Unknown' ? segment.text : `${segment.speaker}: ${segment.text}`)
+    .join('\n');
+}
+
+function mergeConsecutiveTurns(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = [];
+
+  for (const segment of segments) {
+    const current = merged[merged.length - 1];
+    if (current && current.speakerTag === segment.speakerTag && current.language === segment.language) {
+      current.text = `${current.text} ${segment.text}`;
+      current.end = segment.end;
+      if (current.words && segment.words) {
+        current.words = [...current.words, ...segment.words];
+      }
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { classifyFailure } from '@/lib/failover';
+
+function withStatus(message: string, status: number) {
+  return Object.assign(new Error(message), { status });
+}
+
+describe('classifyFailure', () => {
+  it('reads provider failures from the HTTP status', () => {
+    expect(classifyFailure(withStatus('Too many requests', 429))).toBe('quota');
+    expect(classifyFailure(withStatus('Forbidden', 403))).toBe('auth');
+    expect(classifyFailure(withStatus('Gateway timeout', 504))).toBe('timeout');
+    expect(classifyFailure(withStatus('Bad gateway', 502))).toBe('server');
+    expect(classifyFailure(withStatus('Invalid audio', 400))).toBeNull();
+  });
+
+  it('treats dropped and refused connections as server failures', () => {
+    const reset = new TypeError('fetch failed', { cause: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) });
+    expect(classifyFailure(reset)).toBe('server');
+    expect(classifyFailure(Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:8000'), { code: 'ECONNREFUSED' }))).toBe('server');
+    expect(classifyFailure(Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' }))).toBe('server');
+  });
+
+  it('treats connection timeouts as timeouts', () => {
+    const timeout = new TypeError('fetch failed', { cause: Object.assign(new Error('Connect Timeout Error'), { code: 'UND_ERR_CONNECT_TIMEOUT' }) });
+    expect(classifyFailure(timeout)).toBe('timeout');
+  });
+
+  it('ends the chain on errors it does not recognise', () => {
+    expect(classifyFailure(new TypeError("Cannot read properties of undefined (reading 'segments')"))).toBeNull();
+    expect(classifyFailure(new Error('Could not decode audio'))).toBeNull();
+    expect(classifyFailure(Object.assign(new Error('Aborted'), { name: 'AbortError' }))).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { FailoverReason, ProviderAttempt } from '@/lib/types';
+
+// A timed-out or 5xx provider gets this many extra tries before the next one is used
+const TRANSIENT_RETRIES = 1;
+const RETRY_BASE_DELAY_MS = 1000;
+// Node's codes for connections that were refused, dropped or never made
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_SOCKET'];
+const TIMEOUT_ERROR_CODES = ['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'];
+
+export interface FailoverResult<T> {
+  result: T;
+  servedBy: string;
+  attempts: ProviderAttempt[];
+}
+
+/**
+ * Thrown when every provider in the chain failed, or one failed in a way
+ * another provider wouldn't fix (bad audio, an empty transcript).
+ */
+export class FailoverError extends Error {
+  lastError: unknown;
+  attempts: ProviderAttempt[];
+
+  constructor(lastError: unknown, attempts: ProviderAttempt[]) {
+    super(lastError instanceof Error ? lastError.message : 'All providers failed');
+    this.name = 'FailoverError';
+    this.lastError = lastError;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * The requested provider followed by the server's configured fallbacks, from a
+ * comma-separated env var. Without it there is no failover, so data only ever
+ * goes to the provider the user chose.
+ */
+export function failoverChain(requested: string, fallbacks: string | undefined): string[] {
+  const configured = (fallbacks || '').split(',').map(id => id.trim()).filter(Boolean);
+  return [requested, ...configured.filter(id => id !== requested)];
+}
+
+/**
+ * Call `run` with each provider in turn until one succeeds. Quota and auth
+ * errors move straight on to the next provider; timeouts and 5xx errors are
+ * retried with backoff first. Other errors end the chain.
+ */
+export async function runWithFailover<T>(
+  chain: { id: string; label: string }[],
+  run: (id: string) => Promise<T>,
+  timeoutMs: number
+): Promise<FailoverResult<T>> {
+  const attempts: ProviderAttempt[] = [];
+  let lastError: unknown = null;
+
+  for (const provider of chain) {
+    for (let retry = 0; retry <= TRANSIENT_RETRIES; retry++) {
+      if (retry > 0) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (retry - 1)));
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await withTimeout(run(provider.id), timeoutMs);
+        attempts.push({ provider: provider.id, label: provider.label, ok: true, durationMs: Date.now() - startedAt });
+        return { result, servedBy: provider.id, attempts };
+      } catch (error) {
+        lastError = error;
+        const reason = classifyFailure(error);
+        attempts.push({
+          provider: provider.id,
+          label: provider.label,
+          ok: false,
+          reason: reason ?? 'other',
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startedAt,
+        });
+        console.error(`Provider ${provider.id} failed (${reason ?? 'not retryable'}):`, error);
+
+        if (reason === null) {
+          throw new FailoverError(error, attempts);
+        }
+        if (reason === 'quota' || reason === 'auth') break;
+      }
+    }
+  }
+
+  throw new FailoverError(lastError, attempts);
+}
+
+/**
+ * Which failures are worth trying another provider for; null for errors
+ * caused by the request itself and for anything not recognised as a provider
+ * or network failure, such as a bug or audio that couldn't be decoded.
+ */
+export function classifyFailure(error: unknown): FailoverReason | null {
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : null;
+  const message = error instanceof Error ? error.message : String(error);
+  const code = errorCode(error);
+
+  // Cancelled by the user, not a provider failure
+  if (error instanceof Error && error.name === 'AbortError') {
+    return null;
+  }
+  if (
+    error instanceof TimeoutError ||
+    (error instanceof Error && /^(TimeoutError|APIConnectionTimeoutError)$/.test(error.name)) ||
+    status === 408 ||
+    status === 504 ||
+    (code !== null && TIMEOUT_ERROR_CODES.includes(code))
+  ) {
+    return 'timeout';
+  }
+  if (status === 429 || /quota|rate limit|insufficient_quota/i.test(message)) {
+    return 'quota';
+  }
+  if (status === 401 || status === 403 || /API key|SERVICE_DISABLED|permission/i.test(message)) {
+    return 'auth';
+  }
+  if ((status !== null && status >= 500) || isNetworkError(error, code)) {
+    return 'server';
+  }
+  return null;
+}
+
+// fetch rejects with a TypeError whose cause holds the socket error; the
+// OpenAI SDK wraps the same in an APIConnectionError
+function isNetworkError(error: unknown, code: string | null): boolean {
+  if (code !== null && NETWORK_ERROR_CODES.includes(code)) return true;
+  if (error instanceof TypeError && /fetch failed|network/i.test(error.message)) return true;
+  return error instanceof Error && error.name === 'APIConnectionError';
+}
+
+function errorCode(error: unknown): string | null {
+  const { code, cause } = (error ?? {}) as { code?: unknown; cause?: { code?: unknown } };
+  if (typeof code === 'string') return code;
+  return typeof cause?.code === 'string' ? cause.code : null;
+}
+
+class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Provider timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The losing call keeps running, but its result is ignored
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,485 @@
+import { ApiCredentials, googleApiHeaders } from '@/lib/credentials';
+
+const SPEECH_API_URL = 'https://speech.googleapis.com/v1';
+
+// Inline audio content is capped at 10MB per request; leave headroom for the JSON envelope
+const MAX_INLINE_BYTES = 9 * 1024 * 1024;
+// Overlap between consecutive PCM segments so words cut at a boundary are heard in full once
+const SEGMENT_OVERLAP_SECONDS = 2;
+// How far apart the same word may start in two segments' transcripts of their overlap
+const OVERLAP_WORD_TOLERANCE_SECONDS = 0.3;
+
+const POLL_INITIAL_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 5000;
+const POLL_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface GoogleRecognitionConfig {
+  languageCode: string;
+  enableWordTimeOffsets?: boolean;
+  enableAutomaticPunctuation?: boolean;
+  model?: string;
+  [key: string]: unknown;
+}
+
+export interface RecognizedWord {
+  word: string;
+  start: number;
+  end: number;
+  speakerTag?: number;
+  confidence?: number;
+  alternatives?: string[];
+  // BCP-47 code of the utterance the word belongs to, as detected by Google
+  language?: string;
+}
+
+export interface LongRecognitionResult {
+  text: string;
+  words: RecognizedWord[];
+  duration: number;
+}
+
+interface GoogleDuration {
+  seconds?: string | number;
+  nanos?: number;
+}
+
+interface GoogleWordInfo {
+  word: string;
+  startTime?: string | GoogleDuration;
+  endTime?: string | GoogleDuration;
+  speakerTag?: number;
+  confidence?: number;
+}
+
+interface GoogleRecognitionResult {
+  alternatives?: Array<{
+    transcript?: string;
+    confidence?: number;
+    words?: GoogleWordInfo[];
+  }>;
+  resultEndTime?: string | GoogleDuration;
+  languageCode?: string;
+}
+
+interface GoogleOperation {
+  name: string;
+  done?: boolean;
+  error?: { code: number; message: string };
+  response?: { results?: GoogleRecognitionResult[] };
+}
+
+interface PcmWav {
+  header: Buffer;
+  data: Buffer;
+  byteRate: number;
+  blockAlign: number;
+}
+
+interface SegmentTranscript {
+  offset: number;
+  results: GoogleRecognitionResult[];
+}
+
+export class GoogleSpeechError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GoogleSpeechError';
+    this.status = status;
+  }
+}
+
+/**
+ * Transcribe audio of any length with Google Speech-to-Text.
+ *
+ * Every request goes through `speech:longrunningrecognize` and is polled until done.
+ * PCM WAV input larger than the inline limit is split into overlapping segments whose
+ * word offsets are shifted back onto the original timeline before stitching.
+ */
+export async function recognizeLongAudio(
+  audio: Buffer,
+  config: GoogleRecognitionConfig,
+  credentials: ApiCredentials
+): Promise<LongRecognitionResult> {
+  const wav = parsePcmWav(audio);
+
+  if (audio.length <= MAX_INLINE_BYTES) {
+    const results = await runLongRunningRecognize(audio, config, credentials);
+    const stitched = stitchSegments([{ offset: 0, results }]);
+    return {
+      ...stitched,
+      duration: wav ? wav.data.length / wav.byteRate : stitched.duration,
+    };
+  }
+
+  if (!wav) {
+    throw new GoogleSpeechError(
+      'Audio file exceeds the 10MB inline limit and is not PCM WAV, so it cannot be split into segments.',
+      413
+    );
+  }
+
+  const segments: SegmentTranscript[] = [];
+  for (const segment of splitPcmWav(wav)) {
+    const results = await runLongRunningRecognize(segment.audio, config, credentials);
+    segments.push({ offset: segment.offset, results });
+  }
+
+  return {
+    ...stitchSegments(segments),
+    duration: wav.data.length / wav.byteRate,
+  };
+}
+
+async function runLongRunningRecognize(
+  audio: Buffer,
+  config: GoogleRecognitionConfig,
+  credentials: ApiCredentials
+): Promise<GoogleRecognitionResult[]> {
+  const response = await fetch(`${SPEECH_API_URL}/speech:longrunningrecognize`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...googleApiHeaders(credentials),
+    },
+    body: JSON.stringify({
+      config,
+      audio: {
+        content: audio.toString('base64'),
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('Google Speech-to-Text error:', errorData);
+    throw new GoogleSpeechError(errorData.error?.message || 'Google Speech-to-Text request failed', response.status);
+  }
+
+  let operation: GoogleOperation = await response.json();
+  const startedAt = Date.now();
+  let delay = POLL_INITIAL_DELAY_MS;
+
+  while (!operation.done) {
+    if (Date.now() - startedAt > POLL_TIMEOUT_MS) {
+      throw new GoogleSpeechError('Google Speech-to-Text operation timed out', 504);
+    }
+
+    await sleep(delay);
+    delay = Math.min(delay * 1.5, POLL_MAX_DELAY_MS);
+
+    const pollResponse = await fetch(`${SPEECH_API_URL}/operations/${operation.name}`, {
+      headers: googleApiHeaders(credentials),
+    });
+    if (!pollResponse.ok) {
+      const errorData = await pollResponse.json().catch(() => ({}));
+      console.error('Google Speech-to-Text operation error:', errorData);
+      throw new GoogleSpeechError(errorData.error?.message || 'Failed to poll Google Speech-to-Text operation', pollResponse.status);
+    }
+    operation = await pollResponse.json();
+  }
+
+  if (operation.error) {
+    // Operation errors use gRPC codes; 3 (INVALID_ARGUMENT) is the one callers care about
+    throw new GoogleSpeechError(operation.error.message, operation.error.code === 3 ? 400 : 500);
+  }
+
+  return operation.response?.results || [];
+}
+
+/**
+ * Merge per-segment results onto a single timeline. Inside an overlap, words from the
+ * earlier segment are kept up to the midpoint and words from the later one after it.
+ * Speaker tags of each segment are renamed to match the segment before it.
+ */
+function stitchSegments(segments: SegmentTranscript[]): LongRecognitionResult {
+  const words: RecognizedWord[] = [];
+  const transcripts: string[] = [];
+  let duration = 0;
+  let previousWords: RecognizedWord[] = [];
+
+  segments.forEach((segment, index) => {
+    const next = segments[index + 1];
+    const cutoff = next ? next.offset + SEGMENT_OVERLAP_SECONDS / 2 : Infinity;
+    const previous = segments[index - 1];
+    const floor = previous ? segment.offset + SEGMENT_OVERLAP_SECONDS / 2 : -Infinity;
+
+    // With diarization enabled, Google appends a final result that repeats every word
+    // of the request with a speaker tag; use only that one to avoid duplicates
+    const diarized = [...segment.results].reverse().find(result =>
+      result.alternatives?.[0]?.words?.some(info => info.speakerTag)
+    );
+    const results = diarized ? [diarized] : segment.results;
+    // The diarized result carries no confidence or alternatives, so look them up
+    // from the per-utterance results by word timing
+    const details = collectWordDetails(segment.results.filter(result => result !== diarized));
+
+    const segmentWords: RecognizedWord[] = [];
+    for (const result of results) {
+      const alternative = result.alternatives?.[0];
+      if (!alternative) continue;
+
+      if (alternative.words?.length) {
+        for (const info of alternative.words) {
+          const detail = details.get(wordKey(info)) || {
+            ...toWordDetail(info, alternative.confidence),
+            language: result.languageCode,
+          };
+          segmentWords.push({
+            word: info.word,
+            start: segment.offset + parseGoogleDuration(info.startTime),
+            end: segment.offset + parseGoogleDuration(info.endTime),
+            speakerTag: info.speakerTag,
+            ...detail,
+          });
+        }
+      } else if (alternative.transcript) {
+        transcripts.push(alternative.transcript.trim());
+      }
+    }
+
+    if (previous) {
+      const tags = matchSpeakerTags(previousWords, segmentWords, segment.offset + SEGMENT_OVERLAP_SECONDS);
+      for (const word of segmentWords) {
+        if (word.speakerTag !== undefined) word.speakerTag = tags.get(word.speakerTag);
+      }
+    }
+    words.push(...segmentWords.filter(word => word.start >= floor && word.start < cutoff));
+    previousWords = segmentWords;
+
+    for (const result of segment.results) {
+      duration = Math.max(duration, segment.offset + parseGoogleDuration(result.resultEndTime));
+    }
+  });
+
+  const text = words.length > 0
+    ? words.map(word => word.word).join(' ')
+    : transcripts.join(' ');
+
+  if (words.length > 0) {
+    duration = Math.max(duration, words[words.length - 1].end);
+  }
+
+  return { text, words, duration };
+}
+
+/**
+ * Google numbers speakers afresh in every request, so the same person can be
+ * tag 1 in one segment and tag 2 in the next. Both segments hear the overlap
+ * between them: pair up the words they share there and rename each of the
+ * later segment's tags to the earlier tag it agrees with most. Tags never
+ * heard in the overlap take whichever earlier tags are left, in order.
+ */
+function matchSpeakerTags(earlier: RecognizedWord[], later: RecognizedWord[], overlapEnd: number): Map<number, number> {
+  const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  const votes = new Map<string, { from: number; to: number; count: number }>();
+
+  for (const word of later) {
+    if (word.start >= overlapEnd || word.speakerTag === undefined) continue;
+    const match = earlier.find(other =>
+      other.speakerTag !== undefined &&
+      Math.abs(other.start - word.start) <= OVERLAP_WORD_TOLERANCE_SECONDS &&
+      normalize(other.word) === normalize(word.word)
+    );
+    if (match?.speakerTag === undefined) continue;
+
+    const key = `${word.speakerTag}:${match.speakerTag}`;
+    const vote = votes.get(key) || { from: word.speakerTag, to: match.speakerTag, count: 0 };
+    votes.set(key, { ...vote, count: vote.count + 1 });
+  }
+
+  const tags = new Map<number, number>();
+  const taken = new Set<number>();
+  for (const { from, to } of Array.from(votes.values()).sort((a, b) => b.count - a.count)) {
+    if (tags.has(from) || taken.has(to)) continue;
+    tags.set(from, to);
+    taken.add(to);
+  }
+
+  const tagsOf = (words: RecognizedWord[]) =>
+    Array.from(new Set(words.flatMap(word => (word.speakerTag === undefined ? [] : [word.speakerTag])))).sort((a, b) => a - b);
+  const leftover = tagsOf(earlier).filter(tag => !taken.has(tag));
+  for (const tag of tagsOf(later)) {
+    if (tags.has(tag)) continue;
+    let renamed = leftover.shift() ?? tag;
+    while (taken.has(renamed)) renamed++;
+    tags.set(tag, renamed);
+    taken.add(renamed);
+  }
+
+  return tags;
+}
+
+interface WordDetail {
+  confidence?: number;
+  alternatives?: string[];
+  language?: string;
+}
+
+function wordKey(info: GoogleWordInfo) {
+  return `${parseGoogleDuration(info.startTime).toFixed(3)}:${info.word}`;
+}
+
+function toWordDetail(info: GoogleWordInfo, resultConfidence?: number): WordDetail {
+  // Word confidence is only filled in on the top alternative; 0 means "not set"
+  const confidence = info.confidence || resultConfidence || undefined;
+  return confidence === undefined ? {} : { confidence };
+}
+
+/**
+ * Confidence, alternative wordings and detected language for every word of the
+ * top hypotheses, keyed by start time and word.
+ */
+function collectWordDetails(results: GoogleRecognitionResult[]): Map<string, WordDetail> {
+  const details = new Map<string, WordDetail>();
+
+  for (const result of results) {
+    const [top, ...others] = result.alternatives || [];
+    if (!top?.words?.length) continue;
+
+    const topWords = top.words.map(info => info.word);
+    const alignments = others
+      .map(other => (other.transcript || '').trim())
+      .filter(Boolean)
+      .map(transcript => alignAlternative(topWords, transcript.split(/\s+/)));
+
+    top.words.forEach((info, index) => {
+      const alternatives = Array.from(new Set(
+        alignments
+          .map(alignment => alignment[index])
+          .filter((alternative): alternative is string => Boolean(alternative))
+      ));
+      details.set(wordKey(info), {
+        ...toWordDetail(info, top.confidence),
+        ...(alternatives.length > 0 ? { alternatives } : {}),
+        language: result.languageCode,
+      });
+    });
+  }
+
+  return details;
+}
+
+/**
+ * Line another hypothesis up against the top one and report, per top word,
+ * what the other hypothesis has in its place when that differs. Words are
+ * matched by longest common subsequence; an unmatched run replacing a single
+ * top word, or a run of the same length, maps onto those words.
+ */
+function alignAlternative(topWords: string[], otherWords: string[]): (string | undefined)[] {
+  const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  const a = topWords.map(normalize);
+  const b = otherWords.map(normalize);
+
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const aligned: (string | undefined)[] = new Array(a.length).fill(undefined);
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+
+    // Collect the unmatched runs up to the next common word
+    const runStartA = i;
+    const runStartB = j;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) break;
+      if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) i++;
+      else j++;
+    }
+
+    const runA = i - runStartA;
+    const runB = otherWords.slice(runStartB, j);
+    if (runA === 1 && runB.length > 0) {
+      aligned[runStartA] = runB.join(' ');
+    } else if (runA > 1 && runA === runB.length) {
+      runB.forEach((word, k) => {
+        aligned[runStartA + k] = word;
+      });
+    }
+  }
+
+  return aligned;
+}
+
+function splitPcmWav(wav: PcmWav): Array<{ offset: number; audio: Buffer }> {
+  const maxDataBytes = MAX_INLINE_BYTES - wav.header.length;
+  const windowBytes = maxDataBytes - (maxDataBytes % wav.blockAlign);
+  const overlapBytes = Math.round((SEGMENT_OVERLAP_SECONDS * wav.byteRate) / wav.blockAlign) * wav.blockAlign;
+  const stepBytes = windowBytes - overlapBytes;
+
+  const segments: Array<{ offset: number; audio: Buffer }> = [];
+  for (let start = 0; start < wav.data.length; start += stepBytes) {
+    const data = wav.data.subarray(start, Math.min(start + windowBytes, wav.data.length));
+    segments.push({
+      offset: start / wav.byteRate,
+      audio: buildWav(wav.header, data),
+    });
+    if (start + windowBytes >= wav.data.length) break;
+  }
+
+  return segments;
+}
+
+function parsePcmWav(buffer: Buffer): PcmWav | null {
+  if (buffer.length < 44 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let offset = 12;
+  let byteRate = 0;
+  let blockAlign = 0;
+  let isPcm = false;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      isPcm = buffer.readUInt16LE(body) === 1;
+      byteRate = buffer.readUInt32LE(body + 8);
+      blockAlign = buffer.readUInt16LE(body + 12);
+    } else if (chunkId === 'data') {
+      if (!isPcm || !byteRate || !blockAlign) return null;
+      return {
+        header: buffer.subarray(0, body),
+        data: buffer.subarray(body, Math.min(body + chunkSize, buffer.length)),
+        byteRate,
+        blockAlign,
+      };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+function buildWav(header: Buffer, data: Buffer): Buffer {
+  const wav = Buffer.concat([header, data]);
+  wav.writeUInt32LE(wav.length - 8, 4);
+  wav.writeUInt32LE(data.length, header.length - 4);
+  return wav;
+}
+
+function parseGoogleDuration(value?: string | GoogleDuration): number {
+  if (!value) return 0;
+  // The REST API serialises protobuf Durations as strings like "1.500s"
+  if (typeof value === 'string') return parseFloat(value) || 0;
+  return Number(value.seconds || 0) + (value.nanos || 0) / 1e9;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
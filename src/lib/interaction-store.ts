@@ -0,0 +1,13 @@
+import { readJsonFile, writeJsonFile } from '@/lib/data-store';
+import { BUILT_IN_INTERACTIONS, DrugInteraction } from '@/lib/interactions';
+
+const INTERACTIONS_FILE = 'interactions';
+
+// Until someone imports a table, the starter table is used
+export async function loadInteractions(): Promise<DrugInteraction[]> {
+  return readJsonFile<DrugInteraction[]>(INTERACTIONS_FILE, BUILT_IN_INTERACTIONS);
+}
+
+export async function saveInteractions(interactions: DrugInteraction[]) {
+  await writeJsonFile(INTERACTIONS_FILE, interactions);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_INTERACTIONS, checkInteractions, parseInteractionCsv } from '@/lib/interactions';
+
+describe('parseInteractionCsv', () => {
+  it('reads quoted cells holding commas, quotes and line breaks', () => {
+    const csv = [
+      '\uFEFFDrug A,Drug B,Severity,Mechanism,Management',
+      'warfarin,"ibuprofen; naproxen",Major,"Adds to bleeding risk, especially in the elderly","Prefer ""acetaminophen"" for pain.',
+      'Check INR."',
+    ].join('\r\n');
+
+    expect(parseInteractionCsv(csv)).toEqual([
+      {
+        drugA: ['warfarin'],
+        drugB: ['ibuprofen', 'naproxen'],
+        severity: 'major',
+        mechanism: 'Adds to bleeding risk, especially in the elderly',
+        management: 'Prefer "acetaminophen" for pain.\r\nCheck INR.',
+      },
+    ]);
+  });
+
+  it('names the row with a bad severity', () => {
+    const csv = 'drug_a,drug_b,severity\nwarfarin,aspirin,major\nsimvastatin,clarithromycin,serious';
+    expect(() => parseInteractionCsv(csv)).toThrow('Row 2 has severity "serious"');
+  });
+
+  it('needs the drug and severity columns', () => {
+    expect(() => parseInteractionCsv('drug,severity\nwarfarin,major')).toThrow('The CSV header must include');
+  });
+});
+
+describe('checkInteractions', () => {
+  const table = parseInteractionCsv('drug_a,drug_b,severity\nwarfarin,ibuprofen;naproxen,major\nlisinopril,spironolactone,moderate');
+
+  it('matches a row whichever way round the medications are listed', () => {
+    const alerts = checkInteractions([{ name: 'Ibuprofen 400 mg' }, { name: 'Warfarin' }], table);
+    expect(alerts).toEqual([
+      expect.objectContaining({ drugs: ['Ibuprofen 400 mg', 'Warfarin'], severity: 'major' }),
+    ]);
+  });
+
+  it('puts the most severe interactions first', () => {
+    const alerts = checkInteractions(
+      [{ name: 'Lisinopril' }, { name: 'Spironolactone' }, { name: 'Naproxen' }, { name: 'Warfarin' }],
+      table
+    );
+    expect(alerts.map(alert => alert.severity)).toEqual(['major', 'moderate']);
+  });
+
+  it('matches on whole drug names only', () => {
+    expect(checkInteractions([{ name: 'Warfarin' }, { name: 'Ibuprofenol' }], table)).toEqual([]);
+  });
+
+  it('flags the built-in statin and macrolide pair', () => {
+    const alerts = checkInteractions([{ name: 'Clarithromycin 500 mg' }, { name: 'Simvastatin 40 mg' }], BUILT_IN_INTERACTIONS);
+    expect(alerts[0]).toMatchObject({ drugs: ['Clarithromycin 500 mg', 'Simvastatin 40 mg'], severity: 'contraindicated' });
+  });
+});
@@ -0,0 +1,338 @@
+import { mentionsDrug } from '@/lib/medications';
+import type { SummaryMedication } from '@/lib/types';
+
+// Most severe first; alerts are listed in this order
+export const INTERACTION_SEVERITIES = ['contraindicated', 'major', 'moderate', 'minor'] as const;
+
+export type InteractionSeverity = typeof INTERACTION_SEVERITIES[number];
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  contraindicated: 'Contraindicated',
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+/**
+ * One row of the interaction table. Each side lists the names a drug goes by,
+ * generic and brand, or the members of a class that all interact the same way.
+ */
+export interface DrugInteraction {
+  drugA: string[];
+  drugB: string[];
+  severity: InteractionSeverity;
+  mechanism: string;
+  management: string;
+}
+
+/**
+ * An interaction found between two medications in a summary, by the names the
+ * summary gives them.
+ */
+export interface InteractionAlert {
+  drugs: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  management: string;
+}
+
+const MAX_INTERACTIONS = 50000;
+
+// Columns an imported CSV must have, matched ignoring case, spaces and underscores
+const CSV_COLUMNS: Record<string, keyof DrugInteraction> = {
+  druga: 'drugA',
+  drug1: 'drugA',
+  drugb: 'drugB',
+  drug2: 'drugB',
+  severity: 'severity',
+  mechanism: 'mechanism',
+  management: 'management',
+};
+
+const NSAIDS = ['ibuprofen', 'naproxen', 'diclofenac', 'meloxicam', 'celecoxib', 'ketorolac', 'indomethacin', 'advil', 'motrin', 'aleve'];
+const SSRIS_SNRIS = ['sertraline', 'fluoxetine', 'paroxetine', 'citalopram', 'escitalopram', 'venlafaxine', 'duloxetine', 'zoloft', 'prozac', 'lexapro'];
+const ACE_ARBS = ['lisinopril', 'enalapril', 'ramipril', 'benazepril', 'losartan', 'valsartan', 'irbesartan', 'olmesartan'];
+const OPIOIDS = ['oxycodone', 'hydrocodone', 'morphine', 'codeine', 'tramadol', 'fentanyl', 'hydromorphone', 'methadone'];
+const WARFARIN = ['warfarin', 'coumadin', 'jantoven'];
+
+/**
+ * A starter table of common, well-documented interactions so checking works
+ * out of the box. It is far from complete; import a maintained dataset for
+ * real use.
+ */
+export const BUILT_IN_INTERACTIONS: DrugInteraction[] = [
+  {
+    drugA: WARFARIN,
+    drugB: [...NSAIDS, 'aspirin'],
+    severity: 'major',
+    mechanism: 'NSAIDs and aspirin impair platelet function and irritate the stomach lining, adding to the bleeding risk of warfarin.',
+    management: 'Avoid if possible and prefer acetaminophen for pain. If used together, check INR and counsel on signs of bleeding.',
+  },
+  {
+    drugA: WARFARIN,
+    drugB: ['amiodarone'],
+    severity: 'major',
+    mechanism: 'Amiodarone inhibits CYP2C9 and CYP3A4, slowing warfarin clearance; the effect builds over weeks.',
+    management: 'Warfarin doses usually need to drop by 30-50%. Monitor INR closely for several weeks.',
+  },
+  {
+    drugA: WARFARIN,
+    drugB: ['fluconazole', 'metronidazole', 'sulfamethoxazole', 'bactrim'],
+    severity: 'major',
+    mechanism: 'CYP2C9 inhibition raises warfarin levels and INR.',
+    management: 'Prefer a non-interacting alternative, or reduce the warfarin dose and check INR within 3-5 days.',
+  },
+  {
+    drugA: WARFARIN,
+    drugB: SSRIS_SNRIS,
+    severity: 'moderate',
+    mechanism: 'Serotonergic antidepressants impair platelet aggregation, adding to bleeding risk.',
+    management: 'Monitor INR when starting or stopping the antidepressant and counsel on signs of bleeding.',
+  },
+  {
+    drugA: ['sildenafil', 'tadalafil', 'vardenafil', 'viagra', 'cialis'],
+    drugB: ['nitroglycerin', 'isosorbide', 'nitrostat'],
+    severity: 'contraindicated',
+    mechanism: 'Both raise cGMP and dilate blood vessels, which can cause severe hypotension.',
+    management: 'Do not use together. No nitrate within 24 hours of sildenafil or vardenafil, or 48 hours of tadalafil.',
+  },
+  {
+    drugA: ['simvastatin', 'lovastatin'],
+    drugB: ['clarithromycin', 'erythromycin', 'itraconazole', 'ketoconazole', 'posaconazole'],
+    severity: 'contraindicated',
+    mechanism: 'Strong CYP3A4 inhibition raises statin levels, with a high risk of myopathy and rhabdomyolysis.',
+    management: 'Hold the statin for the course of the interacting drug or choose a non-interacting alternative.',
+  },
+  {
+    drugA: SSRIS_SNRIS,
+    drugB: ['tramadol'],
+    severity: 'major',
+    mechanism: 'Additive serotonergic effects risk serotonin syndrome; tramadol also lowers the seizure threshold.',
+    management: 'Avoid if possible. If used, start low and counsel on agitation, tremor, fever and diarrhea.',
+  },
+  {
+    drugA: SSRIS_SNRIS,
+    drugB: ['phenelzine', 'tranylcypromine', 'isocarboxazid', 'selegiline', 'linezolid'],
+    severity: 'contraindicated',
+    mechanism: 'MAO inhibition with serotonin reuptake inhibition can cause life-threatening serotonin syndrome.',
+    management: 'Do not combine. Allow at least 14 days after an MAOI, and 5 weeks after fluoxetine, before switching.',
+  },
+  {
+    drugA: ACE_ARBS,
+    drugB: ['spironolactone', 'eplerenone', 'amiloride', 'triamterene', 'potassium'],
+    severity: 'major',
+    mechanism: 'Both reduce potassium excretion, risking hyperkalemia, especially with kidney impairment.',
+    management: 'Monitor potassium and kidney function; avoid potassium supplements unless prescribed.',
+  },
+  {
+    drugA: ['lithium'],
+    drugB: [...NSAIDS, ...ACE_ARBS, 'hydrochlorothiazide', 'chlorthalidone'],
+    severity: 'major',
+    mechanism: 'Reduced kidney clearance of lithium raises levels toward toxicity.',
+    management: 'Avoid if possible; otherwise check a lithium level within a week and counsel on signs of toxicity.',
+  },
+  {
+    drugA: ['methotrexate'],
+    drugB: ['trimethoprim', 'sulfamethoxazole', 'bactrim'],
+    severity: 'major',
+    mechanism: 'Additive antifolate effects and reduced methotrexate clearance risk bone marrow suppression.',
+    management: 'Avoid the combination and choose another antibiotic.',
+  },
+  {
+    drugA: ['clopidogrel', 'plavix'],
+    drugB: ['omeprazole', 'esomeprazole', 'prilosec', 'nexium'],
+    severity: 'moderate',
+    mechanism: 'CYP2C19 inhibition reduces activation of clopidogrel and its antiplatelet effect.',
+    management: 'Use pantoprazole or an H2 blocker if acid suppression is needed.',
+  },
+  {
+    drugA: ['levothyroxine', 'synthroid'],
+    drugB: ['calcium', 'iron', 'ferrous', 'antacid', 'antacids', 'sucralfate', 'cholestyramine', 'tums'],
+    severity: 'moderate',
+    mechanism: 'Binding in the gut reduces levothyroxine absorption.',
+    management: 'Separate doses by at least 4 hours.',
+  },
+  {
+    drugA: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'doxycycline', 'tetracycline', 'minocycline'],
+    drugB: ['calcium', 'magnesium', 'aluminum', 'iron', 'ferrous', 'zinc', 'antacid', 'antacids', 'tums'],
+    severity: 'moderate',
+    mechanism: 'Chelation with multivalent cations reduces antibiotic absorption.',
+    management: 'Take the antibiotic 2 hours before or 6 hours after the mineral product.',
+  },
+  {
+    drugA: ['digoxin'],
+    drugB: ['amiodarone', 'verapamil', 'dronedarone', 'clarithromycin'],
+    severity: 'major',
+    mechanism: 'P-glycoprotein inhibition raises digoxin levels.',
+    management: 'Digoxin doses often need halving. Monitor levels, heart rate and signs of toxicity.',
+  },
+  {
+    drugA: OPIOIDS,
+    drugB: ['alprazolam', 'lorazepam', 'diazepam', 'clonazepam', 'temazepam', 'zolpidem', 'gabapentin', 'pregabalin'],
+    severity: 'major',
+    mechanism: 'Additive central nervous system and respiratory depression.',
+    management: 'Avoid if possible. Use the lowest doses, counsel on sedation and offer naloxone.',
+  },
+  {
+    drugA: ['allopurinol', 'febuxostat'],
+    drugB: ['azathioprine', 'mercaptopurine'],
+    severity: 'major',
+    mechanism: 'Xanthine oxidase inhibition blocks thiopurine breakdown, risking bone marrow suppression.',
+    management: 'Avoid, or reduce the thiopurine dose to a quarter to a third with close blood count monitoring.',
+  },
+  {
+    drugA: ['colchicine'],
+    drugB: ['clarithromycin', 'ketoconazole', 'itraconazole', 'ritonavir', 'cyclosporine'],
+    severity: 'major',
+    mechanism: 'CYP3A4 and P-glycoprotein inhibition raise colchicine to toxic levels.',
+    management: 'Reduce the colchicine dose or avoid; do not combine in kidney or liver impairment.',
+  },
+  {
+    drugA: ['aspirin'],
+    drugB: ['ibuprofen', 'advil', 'motrin'],
+    severity: 'moderate',
+    mechanism: 'Ibuprofen can block the antiplatelet effect of low-dose aspirin, and both irritate the stomach.',
+    management: 'Take immediate-release aspirin at least 30 minutes before, or 8 hours after, ibuprofen.',
+  },
+];
+
+/**
+ * Validate an interaction table from an import or the editor. Names may be a
+ * list or one string separated by semicolons. Throws with a message fit for
+ * the user, naming the row.
+ */
+export function parseInteractions(input: unknown): DrugInteraction[] {
+  if (!Array.isArray(input)) {
+    throw new Error('The interaction table must be a list of interactions');
+  }
+  if (input.length > MAX_INTERACTIONS) {
+    throw new Error(`The interaction table has more than ${MAX_INTERACTIONS} rows`);
+  }
+
+  return input.map((entry, index) => {
+    const { drugA, drugB, severity, mechanism, management } = (entry || {}) as Record<string, unknown>;
+    const row = `Row ${index + 1}`;
+    const first = readNames(drugA);
+    const second = readNames(drugB);
+    if (first.length === 0 || second.length === 0) {
+      throw new Error(`${row} needs a drug on each side`);
+    }
+
+    const level = typeof severity === 'string' ? severity.trim().toLowerCase() : '';
+    if (!INTERACTION_SEVERITIES.includes(level as InteractionSeverity)) {
+      throw new Error(`${row} has severity "${String(severity ?? '')}"; use one of ${INTERACTION_SEVERITIES.join(', ')}`);
+    }
+
+    return {
+      drugA: first,
+      drugB: second,
+      severity: level as InteractionSeverity,
+      mechanism: typeof mechanism === 'string' ? mechanism.trim() : '',
+      management: typeof management === 'string' ? management.trim() : '',
+    };
+  });
+}
+
+/**
+ * An interaction table from CSV with a header row of drug_a, drug_b,
+ * severity, mechanism and management. Alternative names in a drug cell are
+ * separated by semicolons.
+ */
+export function parseInteractionCsv(text: string): DrugInteraction[] {
+  const [header, ...rows] = parseCsv(text).filter(row => row.some(cell => cell.trim()));
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const columns = header.map(name => CSV_COLUMNS[name.toLowerCase().replace(/[^a-z0-9]/g, '')]);
+  for (const required of ['drugA', 'drugB', 'severity'] as const) {
+    if (!columns.includes(required)) {
+      throw new Error('The CSV header must include drug_a, drug_b and severity, plus mechanism and management');
+    }
+  }
+
+  return parseInteractions(rows.map(cells =>
+    Object.fromEntries(columns.flatMap((column, i) => (column ? [[column, cells[i] ?? '']] : [])))
+  ));
+}
+
+/**
+ * Every pair of the given medications that the table lists, most severe
+ * first. A row matches whichever way round the two medications are.
+ */
+export function checkInteractions(medications: SummaryMedication[], table: DrugInteraction[]): InteractionAlert[] {
+  const alerts: InteractionAlert[] = [];
+
+  for (let i = 0; i < medications.length; i++) {
+    for (let j = i + 1; j < medications.length; j++) {
+      const [a, b] = [medications[i], medications[j]];
+      for (const interaction of table) {
+        const matches = (x: SummaryMedication, y: SummaryMedication) =>
+          interaction.drugA.some(drug => mentionsDrug(x, drug)) && interaction.drugB.some(drug => mentionsDrug(y, drug));
+        if (!matches(a, b) && !matches(b, a)) continue;
+
+        alerts.push({
+          drugs: [a.name, b.name],
+          severity: interaction.severity,
+          mechanism: interaction.mechanism,
+          management: interaction.management,
+        });
+      }
+    }
+  }
+
+  return alerts.sort((x, y) => INTERACTION_SEVERITIES.indexOf(x.severity) - INTERACTION_SEVERITIES.indexOf(y.severity));
+}
+
+function readNames(value: unknown): string[] {
+  const names = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[;|]/) : [];
+  return names
+    .filter((name): name is string => typeof name === 'string')
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Rows of cells from CSV text, with quoted cells that may hold commas, quotes
+ * ("" for one) and line breaks.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
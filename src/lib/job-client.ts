@@ -0,0 +1,157 @@
+import type { TranscriptionData, TranscriptionJob } from '@/lib/types';
+
+const POLL_INTERVAL_MS = 1000;
+// Remembered so a reloaded or reopened tab can pick up a job that is still running
+const ACTIVE_JOB_KEY = 'activeTranscriptionJob';
+
+export interface JobOptions {
+  provider: string;
+  language: string;
+  pharmacy?: string;
+}
+
+export interface SubmittedJob {
+  job: TranscriptionJob;
+  // Settles when the server has the whole file
+  upload: Promise<void>;
+}
+
+export interface JobWatcher {
+  // Resolves with the transcript when the job is done and rejects when it fails
+  result: Promise<TranscriptionData>;
+  stop: () => void;
+}
+
+/**
+ * Create a transcription job and start uploading its audio. Follow the upload
+ * and the transcription after it with `watchTranscriptionJob`, and call
+ * `rememberActiveJob` for a job the recorder should pick up again after a reload.
+ */
+export async function submitTranscriptionJob(audio: Blob, options: JobOptions): Promise<SubmittedJob> {
+  const response = await fetch('/api/transcribe/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...options, size: audio.size }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Could not start transcription');
+  }
+
+  const job: TranscriptionJob = await response.json();
+
+  const upload = fetch(`/api/transcribe/jobs/${job.id}/audio`, {
+    method: 'PUT',
+    headers: { 'Content-Type': audio.type || 'audio/webm' },
+    body: audio,
+  }).then(
+    async uploadResponse => {
+      if (!uploadResponse.ok) {
+        const errorData = await uploadResponse.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Audio upload failed');
+      }
+    },
+    () => {
+      throw new Error('Network error while uploading audio');
+    }
+  );
+
+  return { job, upload };
+}
+
+/**
+ * Create a transcription job for audio already sent with `uploadInChunks`.
+ */
+export async function startJobFromUpload(uploadId: string, options: JobOptions): Promise<TranscriptionJob> {
+  const response = await fetch('/api/transcribe/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...options, uploadId }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Could not start transcription');
+  }
+
+  const job: TranscriptionJob = await response.json();
+  return job;
+}
+
+/**
+ * Poll a job until it finishes, reporting every status change. Pass the upload
+ * from `submitTranscriptionJob` so a failed upload ends the watch straight away.
+ */
+export function watchTranscriptionJob(
+  id: string,
+  onUpdate: (job: TranscriptionJob) => void,
+  upload?: Promise<void>
+): JobWatcher {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const stop = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+
+  const result = new Promise<TranscriptionData>((resolve, reject) => {
+    upload?.catch(error => {
+      if (stopped) return;
+      stop();
+      cancelTranscriptionJob(id);
+      reject(error);
+    });
+
+    const poll = async () => {
+      if (stopped) return;
+      try {
+        const response = await fetch(`/api/transcribe/jobs/${id}`, { cache: 'no-store' });
+        if (stopped) return;
+        if (response.status === 404) {
+          clearActiveJob(id);
+          reject(new Error('The transcription job was lost, possibly because the server restarted. Please transcribe again.'));
+          return;
+        }
+        if (response.ok) {
+          const job: TranscriptionJob = await response.json();
+          onUpdate(job);
+          if (job.status === 'done' && job.result) {
+            clearActiveJob(id);
+            resolve(job.result);
+            return;
+          }
+          if (job.status === 'failed') {
+            clearActiveJob(id);
+            reject(new Error(job.error || 'Transcription failed'));
+            return;
+          }
+        }
+      } catch {
+        // A dropped connection is retried on the next poll
+      }
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    poll();
+  });
+
+  return { result, stop };
+}
+
+export async function cancelTranscriptionJob(id: string) {
+  clearActiveJob(id);
+  await fetch(`/api/transcribe/jobs/${id}`, { method: 'DELETE' }).catch(() => {});
+}
+
+export function rememberActiveJob(id: string) {
+  localStorage.setItem(ACTIVE_JOB_KEY, id);
+}
+
+export function getActiveJobId(): string | null {
+  return localStorage.getItem(ACTIVE_JOB_KEY);
+}
+
+function clearActiveJob(id: string) {
+  if (localStorage.getItem(ACTIVE_JOB_KEY) === id) {
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+  }
+}
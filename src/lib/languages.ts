@@ -0,0 +1,76 @@
+// Language setting value that asks the provider to detect the language itself
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export interface LanguageOption {
+  code: string;
+  label: string;
+}
+
+/**
+ * Languages offered for transcription, as BCP-47 codes Google accepts. Whisper
+ * only needs the base language, see `baseLanguage`.
+ */
+export const TRANSCRIPTION_LANGUAGES: LanguageOption[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-US', label: 'Spanish (US)' },
+  { code: 'es-ES', label: 'Spanish (Spain)' },
+  { code: 'cmn-Hans-CN', label: 'Chinese, Mandarin' },
+  { code: 'yue-Hant-HK', label: 'Chinese, Cantonese' },
+  { code: 'vi-VN', label: 'Vietnamese' },
+  { code: 'fil-PH', label: 'Filipino' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'ru-RU', label: 'Russian' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'ja-JP', label: 'Japanese' },
+];
+
+// ISO 639-1 codes used on transcript segments and for summary output
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  zh: 'Chinese',
+  vi: 'Vietnamese',
+  tl: 'Tagalog',
+  ko: 'Korean',
+  ru: 'Russian',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ja: 'Japanese',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  ht: 'Haitian Creole',
+  pl: 'Polish',
+};
+
+export const OUTPUT_LANGUAGES = Object.keys(LANGUAGE_NAMES);
+
+/**
+ * Reduce a BCP-47 code to the ISO 639-1 language, e.g. `es-US` to `es` and
+ * `cmn-Hans-CN` to `zh`.
+ */
+export function baseLanguage(code: string): string {
+  const base = code.split('-')[0].toLowerCase();
+  if (base === 'cmn' || base === 'yue') return 'zh';
+  if (base === 'fil') return 'tl';
+  return base;
+}
+
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[baseLanguage(code)] || code;
+}
+
+/**
+ * Whisper reports the detected language by name ("english"); map it back to a code.
+ */
+export function languageFromName(name: string | undefined): string | undefined {
+  if (!name) return undefined;
+  const lower = name.toLowerCase();
+  if (LANGUAGE_NAMES[lower]) return lower;
+  return Object.keys(LANGUAGE_NAMES).find(code => LANGUAGE_NAMES[code].toLowerCase() === lower);
+}
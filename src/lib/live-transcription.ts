@@ -0,0 +1,257 @@
+import type { TranscriptionData, TranscriptSegment } from '@/lib/types';
+
+// How much audio is batched into one upload while recording
+const CHUNK_INTERVAL_MS = 500;
+// Waits before each retry of a chunk upload; after the last, the chunk is dropped
+const CHUNK_RETRY_DELAYS_MS = [500, 1000, 2000, 4000];
+// Capture starting later than this after the recorder misses speech worth keeping
+const MAX_START_OFFSET_SECONDS = 0.5;
+
+// Runs on the audio thread and hands raw samples back in blocks of 2048 frames
+const CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(2048);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.buffer[this.length++] = channel[i];
+        if (this.length === this.buffer.length) {
+          this.port.postMessage(this.buffer.slice(0));
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface LiveTranscriptionCallbacks {
+  onCommitted: (segments: TranscriptSegment[]) => void;
+  onPartial: (segments: TranscriptSegment[]) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * The server's transcript of what it was sent, with times moved onto the
+ * recording's timeline. When chunks were dropped or capture started late, the
+ * server heard less than the recording holds and the transcript has gaps.
+ */
+export interface LiveTranscriptionResult {
+  transcript: TranscriptionData;
+  // Seconds between the recorder starting and the first captured sample
+  startOffset: number;
+  droppedChunks: number;
+  complete: boolean;
+}
+
+export interface LiveTranscription {
+  // Stops capturing, uploads what's left and resolves with the transcript
+  finish: () => Promise<LiveTranscriptionResult>;
+  cancel: () => void;
+  // Audio captured while paused is dropped, matching the recording
+  pause: () => void;
+  resume: () => void;
+}
+
+/**
+ * Stream microphone audio to /api/transcribe/stream while recording. Audio is
+ * taken from the recorder's existing AudioContext source as 16-bit PCM at the
+ * context's sample rate; the server resamples it like any upload. Capture
+ * starts before the session is created so the opening words aren't lost;
+ * `recordingStartedAt` is the `performance.now()` time the recorder started.
+ */
+export async function startLiveTranscription(
+  audioContext: AudioContext,
+  source: MediaStreamAudioSourceNode,
+  recordingStartedAt: number,
+  options: { provider: string; language: string; pharmacy?: string },
+  callbacks: LiveTranscriptionCallbacks
+): Promise<LiveTranscription> {
+  const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+  try {
+    await audioContext.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const captureNode = new AudioWorkletNode(audioContext, 'pcm-capture');
+  let pending: Float32Array[] = [];
+  let paused = false;
+  captureNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    if (!paused) {
+      pending.push(event.data);
+    }
+  };
+  source.connect(captureNode);
+  // The node outputs silence, but it only runs while connected to the destination
+  captureNode.connect(audioContext.destination);
+  const startOffset = Math.max(0, (performance.now() - recordingStartedAt) / 1000);
+
+  // Chunks are uploaded strictly in order, each retried before it is given up
+  // on; the server's timeline is only whole while none has been dropped.
+  // Audio waits in `pending` until the session exists.
+  let sessionUrl: string | null = null;
+  let uploads = Promise.resolve();
+  let droppedChunks = 0;
+  const flush = () => {
+    const url = sessionUrl;
+    if (!url || pending.length === 0) return;
+    const body = toPcm16(pending);
+    pending = [];
+    uploads = uploads.then(async () => {
+      const error = await uploadChunk(url, body);
+      if (error) {
+        droppedChunks++;
+        callbacks.onError(`${error}. The full recording will be transcribed when you stop.`);
+      }
+    });
+  };
+  const flushTimer = setInterval(flush, CHUNK_INTERVAL_MS);
+
+  const stopCapture = () => {
+    clearInterval(flushTimer);
+    source.disconnect(captureNode);
+    captureNode.disconnect();
+    captureNode.port.onmessage = null;
+  };
+
+  try {
+    sessionUrl = await createSession({ ...options, sampleRate: audioContext.sampleRate });
+  } catch (error) {
+    stopCapture();
+    throw error;
+  }
+  const url = sessionUrl;
+
+  const events = new EventSource(url);
+  events.onmessage = (message) => {
+    const event = JSON.parse(message.data);
+    if (event.type === 'committed') {
+      callbacks.onCommitted(event.segments);
+    } else if (event.type === 'partial') {
+      callbacks.onPartial(event.segments);
+    } else if (event.type === 'error') {
+      callbacks.onError(event.message);
+    } else if (event.type === 'closed') {
+      events.close();
+    }
+  };
+
+  return {
+    async finish() {
+      stopCapture();
+      flush();
+      await uploads;
+
+      try {
+        const finishResponse = await fetch(`${url}/finish`, { method: 'POST' });
+        if (!finishResponse.ok) {
+          const errorData = await finishResponse.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Live transcription failed');
+        }
+        const transcript: TranscriptionData = await finishResponse.json();
+        return {
+          transcript: shiftTranscript(transcript, startOffset),
+          startOffset,
+          droppedChunks,
+          complete: droppedChunks === 0 && startOffset <= MAX_START_OFFSET_SECONDS,
+        };
+      } finally {
+        events.close();
+      }
+    },
+
+    cancel() {
+      stopCapture();
+      events.close();
+      fetch(url, { method: 'DELETE' }).catch(() => {});
+    },
+
+    pause() {
+      paused = true;
+    },
+
+    resume() {
+      paused = false;
+    },
+  };
+}
+
+async function createSession(body: Record<string, unknown>): Promise<string> {
+  const response = await fetch('/api/transcribe/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Could not start live transcription');
+  }
+  const { sessionId } = await response.json();
+  return `/api/transcribe/stream/${sessionId}`;
+}
+
+/**
+ * Send one chunk, retrying network errors and server failures. Resolves with
+ * why it was given up on, or null once the server has it.
+ */
+async function uploadChunk(sessionUrl: string, body: ArrayBuffer): Promise<string | null> {
+  let error = 'Audio chunk upload failed';
+  for (let attempt = 0; attempt <= CHUNK_RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, CHUNK_RETRY_DELAYS_MS[attempt - 1]));
+    }
+    try {
+      const response = await fetch(sessionUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body,
+      });
+      if (response.ok) return null;
+      const errorData = await response.json().catch(() => ({}));
+      error = errorData.error || error;
+      // The session is gone or refused the audio; sending it again won't help
+      if (response.status < 500 && response.status !== 408 && response.status !== 429) return error;
+    } catch {
+      error = 'Network error while streaming audio';
+    }
+  }
+  return error;
+}
+
+// The server's times count from the first captured sample, not the recording's start
+function shiftTranscript(transcript: TranscriptionData, offset: number): TranscriptionData {
+  if (offset === 0 || !transcript.segments) return transcript;
+  return {
+    ...transcript,
+    duration: transcript.duration + offset,
+    segments: transcript.segments.map(segment => ({
+      ...segment,
+      start: segment.start + offset,
+      end: segment.end + offset,
+      words: segment.words?.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })),
+    })),
+  };
+}
+
+function toPcm16(blocks: Float32Array[]): ArrayBuffer {
+  const length = blocks.reduce((total, block) => total + block.length, 0);
+  const view = new DataView(new ArrayBuffer(length * 2));
+  let offset = 0;
+  for (const block of blocks) {
+    for (let i = 0; i < block.length; i++) {
+      const clamped = Math.max(-1, Math.min(1, block[i]));
+      view.setInt16(offset, clamped < 0 ? clamped * 32768 : clamped * 32767, true);
+      offset += 2;
+    }
+  }
+  return view.buffer;
+}
@@ -0,0 +1,33 @@
+import type { SummaryData, SummaryMedication } from '@/lib/types';
+
+/**
+ * Every medication in a summary, from all of its medication sections, once
+ * each by name.
+ */
+export function summaryMedications(summary: Pick<SummaryData, 'template' | 'sections'>): SummaryMedication[] {
+  const seen = new Set<string>();
+  return summary.template.sections
+    .filter(section => section.type === 'medications')
+    .flatMap(section => (summary.sections[section.id] as SummaryMedication[] | undefined) ?? [])
+    .filter(medication => {
+      const key = normalizeDrugName(medication.name);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export function normalizeDrugName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Whether a medication is the drug a table names, by whole words of its name
+ * or parsed ingredient, so "Aspirin 81 mg" is aspirin and "Hydrocodone/APAP"
+ * is hydrocodone.
+ */
+export function mentionsDrug(medication: SummaryMedication, drug: string): boolean {
+  const names = ` ${normalizeDrugName(`${medication.name} ${medication.sig?.ingredient ?? ''}`)} `;
+  const wanted = normalizeDrugName(drug);
+  return !!wanted && names.includes(` ${wanted} `);
+}
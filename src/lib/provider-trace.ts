@@ -0,0 +1,31 @@
+import type { FailoverReason, ProviderAttempt } from '@/lib/types';
+
+const REASON_LABELS: Record<FailoverReason, string> = {
+  quota: 'quota error',
+  auth: 'authentication error',
+  timeout: 'timeout',
+  server: 'server error',
+  other: 'error',
+};
+
+/**
+ * A one-line account of a server-side failover, e.g. "Served by OpenAI Whisper
+ * after Google Speech-to-Text quota error". Null when the first provider
+ * answered, since there is nothing worth pointing out.
+ */
+export function describeProviderTrace(attempts: ProviderAttempt[] | undefined): string | null {
+  if (!attempts || attempts.length < 2) return null;
+
+  const served = attempts.find(attempt => attempt.ok);
+  const failures: string[] = [];
+  for (const attempt of attempts) {
+    if (attempt.ok) continue;
+    const failure = `${attempt.label} ${REASON_LABELS[attempt.reason ?? 'other']}`;
+    // A retried provider shows up once
+    if (!failures.includes(failure)) failures.push(failure);
+  }
+
+  return served
+    ? `Served by ${served.label} after ${failures.join(', ')}`
+    : `Tried ${failures.join(', ')}`;
+}
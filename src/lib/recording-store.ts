@@ -0,0 +1,110 @@
+const DB_NAME = 'pharmacy-ai-recordings';
+const DB_VERSION = 1;
+const RECORDINGS = 'recordings';
+const CHUNKS = 'chunks';
+
+/**
+ * A recording kept in IndexedDB while it is being made, so a crashed or
+ * closed tab doesn't lose the consultation. It is removed once transcribed.
+ */
+export interface StoredRecording {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  updatedAt: number;
+  // Seconds recorded, not counting pauses
+  duration: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS, { keyPath: 'id' });
+        const chunks = db.createObjectStore(CHUNKS, { keyPath: ['recordingId', 'index'] });
+        chunks.createIndex('recordingId', 'recordingId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function createStoredRecording(mimeType: string): Promise<StoredRecording> {
+  const now = Date.now();
+  const recording: StoredRecording = {
+    id: crypto.randomUUID(),
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    duration: 0,
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS, 'readwrite');
+  transaction.objectStore(RECORDINGS).put(recording);
+  await completion(transaction);
+  return recording;
+}
+
+/**
+ * Save one MediaRecorder time slice and how long the recording is so far.
+ */
+export async function appendRecordingChunk(recording: StoredRecording, index: number, data: Blob, duration: number) {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS, CHUNKS], 'readwrite');
+  transaction.objectStore(CHUNKS).put({ recordingId: recording.id, index, data });
+  transaction.objectStore(RECORDINGS).put({ ...recording, duration, updatedAt: Date.now() });
+  await completion(transaction);
+}
+
+export async function listStoredRecordings(): Promise<StoredRecording[]> {
+  const db = await openDatabase();
+  const recordings = await result<StoredRecording[]>(db.transaction(RECORDINGS).objectStore(RECORDINGS).getAll());
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Join a stored recording's chunks back into one playable file.
+ */
+export async function loadStoredRecording(recording: StoredRecording): Promise<Blob> {
+  const db = await openDatabase();
+  const chunks = await result<{ index: number; data: Blob }[]>(
+    db.transaction(CHUNKS).objectStore(CHUNKS).index('recordingId').getAll(recording.id)
+  );
+  return new Blob(
+    chunks.sort((a, b) => a.index - b.index).map(chunk => chunk.data),
+    { type: recording.mimeType }
+  );
+}
+
+export async function deleteStoredRecording(id: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS, CHUNKS], 'readwrite');
+  transaction.objectStore(RECORDINGS).delete(id);
+  transaction.objectStore(CHUNKS).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+  await completion(transaction);
+}
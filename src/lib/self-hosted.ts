@@ -0,0 +1,107 @@
+import OpenAI from 'openai';
+
+export type SelfHostedService = 'transcription' | 'llm';
+
+export interface SelfHostedConfig {
+  baseURL: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface SelfHostedHealth {
+  service: SelfHostedService;
+  configured: boolean;
+  ok: boolean;
+  baseURL?: string;
+  model?: string;
+  // Only known when the server lists its models
+  modelAvailable?: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Endpoints for OpenAI-compatible servers on the local network, e.g. a
+ * whisper.cpp or faster-whisper server for transcription and a llama.cpp,
+ * vLLM or Ollama server for summaries. Unset base URL means not configured.
+ */
+export function getSelfHostedConfig(service: SelfHostedService): SelfHostedConfig | null {
+  const prefix = service === 'transcription' ? 'SELF_HOSTED_TRANSCRIBE' : 'SELF_HOSTED_LLM';
+  const baseURL = process.env[`${prefix}_BASE_URL`];
+  if (!baseURL) return null;
+
+  return {
+    baseURL: baseURL.replace(/\/+$/, ''),
+    model: process.env[`${prefix}_MODEL`] || (service === 'transcription' ? 'whisper-1' : 'llama3.1'),
+    // Local servers usually ignore the key, but the SDK refuses to run without one
+    apiKey: process.env[`${prefix}_API_KEY`] || 'not-needed',
+  };
+}
+
+export function createSelfHostedClient(config: SelfHostedConfig): OpenAI {
+  return new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+  });
+}
+
+/**
+ * Check that a self-hosted endpoint answers. Tries the OpenAI `/models` route
+ * first and falls back to `/health`, which whisper.cpp and llama.cpp expose.
+ */
+export async function checkSelfHostedHealth(service: SelfHostedService): Promise<SelfHostedHealth> {
+  const config = getSelfHostedConfig(service);
+  if (!config) {
+    return { service, configured: false, ok: false };
+  }
+
+  const startedAt = Date.now();
+  const headers = { Authorization: `Bearer ${config.apiKey}` };
+
+  try {
+    const modelsResponse = await fetch(`${config.baseURL}/models`, {
+      headers,
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+
+    if (modelsResponse.ok) {
+      const data = await modelsResponse.json().catch(() => null);
+      const modelIds: string[] = Array.isArray(data?.data) ? data.data.map((model: { id: string }) => model.id) : [];
+      return {
+        service,
+        configured: true,
+        ok: true,
+        baseURL: config.baseURL,
+        model: config.model,
+        modelAvailable: modelIds.length > 0 ? modelIds.includes(config.model) : undefined,
+        latencyMs: Date.now() - startedAt,
+      };
+    }
+
+    const healthResponse = await fetch(`${new URL(config.baseURL).origin}/health`, {
+      headers,
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+
+    return {
+      service,
+      configured: true,
+      ok: healthResponse.ok,
+      baseURL: config.baseURL,
+      model: config.model,
+      latencyMs: Date.now() - startedAt,
+      error: healthResponse.ok ? undefined : `Server responded with status ${healthResponse.status}`,
+    };
+  } catch (error) {
+    return {
+      service,
+      configured: true,
+      ok: false,
+      baseURL: config.baseURL,
+      model: config.model,
+      error: error instanceof Error ? error.message : 'Server unreachable',
+    };
+  }
+}
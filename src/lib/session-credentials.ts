@@ -0,0 +1,64 @@
+import type { ApiCredentials, ConnectionTest, CredentialService, CredentialStatus } from '@/lib/credentials';
+
+const LEGACY_KEY_NAMES: (keyof ApiCredentials)[] = ['openaiApiKey', 'googleApiKey', 'googleProjectId'];
+
+export async function getCredentialStatus(): Promise<CredentialStatus> {
+  const response = await fetch('/api/credentials', { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error('Could not load API key status');
+  }
+  return (await response.json()).status;
+}
+
+/**
+ * Hand keys to the server for this browser session. They are not kept in the
+ * browser; an empty string removes a key.
+ */
+export async function saveSessionCredentials(changes: Partial<ApiCredentials>): Promise<CredentialStatus> {
+  const response = await fetch('/api/credentials', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Could not save API keys');
+  }
+  return (await response.json()).status;
+}
+
+export async function testCredentials(
+  service: CredentialService,
+  apiKey?: string,
+  projectId?: string
+): Promise<ConnectionTest> {
+  const response = await fetch('/api/credentials/test', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ service, apiKey: apiKey || undefined, projectId: projectId || undefined }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return { service, ok: false, error: errorData.error || 'Connection test failed' };
+  }
+  return response.json();
+}
+
+/**
+ * Earlier versions saved API keys in localStorage with the other settings.
+ * Separate any found there so they can be moved to the session store.
+ */
+export function splitStoredKeys<T extends object>(settings: T): { settings: T; keys: Partial<ApiCredentials> | null } {
+  const stored = settings as Partial<ApiCredentials>;
+  const remaining = { ...settings };
+  const keys: Partial<ApiCredentials> = {};
+
+  for (const name of LEGACY_KEY_NAMES) {
+    if (typeof stored[name] === 'string' && stored[name]) {
+      keys[name] = stored[name];
+    }
+    delete (remaining as Partial<ApiCredentials>)[name];
+  }
+
+  return { settings: remaining, keys: Object.keys(keys).length > 0 ? keys : null };
+}
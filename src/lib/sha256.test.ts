@@ -0,0 +1,24 @@
+import { createHash } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { sha256Hex } from '@/lib/sha256';
+
+afterEach(() => vi.unstubAllGlobals());
+
+function toBuffer(text: string): ArrayBuffer {
+  const bytes = new TextEncoder().encode(text);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+describe('sha256Hex', () => {
+  it('works the digest out without crypto.subtle', async () => {
+    vi.stubGlobal('crypto', {});
+    const inputs = ['', 'abc', 'a'.repeat(55), 'a'.repeat(56), 'a'.repeat(64), 'x'.repeat(100_000)];
+    for (const input of inputs) {
+      expect(await sha256Hex(toBuffer(input))).toBe(createHash('sha256').update(input).digest('hex'));
+    }
+  });
+
+  it('matches crypto.subtle where it is available', async () => {
+    expect(await sha256Hex(toBuffer('pharmacy consultation'))).toBe(createHash('sha256').update('pharmacy consultation').digest('hex'));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { formatSig, parseSig, withSig } from '@/lib/sig';
+
+describe('parseSig', () => {
+  it('reads ranges of doses and intervals with an as-needed indication', () => {
+    const sig = parseSig('one to two tablets by mouth every four to six hours as needed for pain');
+    expect(sig).toMatchObject({
+      dose: { min: 1, max: 2 },
+      doseForm: 'tablet',
+      route: 'oral',
+      frequency: { count: { min: 1, max: 1 }, interval: { min: 4, max: 6 }, unit: 'hour' },
+      asNeeded: true,
+      indication: 'pain',
+    });
+    expect(formatSig(sig)).toBe('1-2 tablets by mouth every 4-6 hours as needed for pain');
+  });
+
+  it('reads Latin abbreviations', () => {
+    expect(formatSig(parseSig('1 tab PO BID x 10 days'))).toBe('1 tablet by mouth twice daily for 10 days');
+    expect(formatSig(parseSig('one capsule t.i.d.'))).toBe('1 capsule 3 times daily');
+    expect(parseSig('take 1 tablet QHS')).toMatchObject({
+      frequency: { count: { min: 1, max: 1 }, interval: { min: 1, max: 1 }, unit: 'day' },
+      timing: 'at bedtime',
+    });
+  });
+
+  it('reads "a day" after a dose as once daily', () => {
+    const sig = parseSig('take one tablet a day');
+    expect(sig.frequency).toEqual({ count: { min: 1, max: 1 }, interval: { min: 1, max: 1 }, unit: 'day' });
+    expect(formatSig(sig)).toBe('1 tablet once daily');
+  });
+
+  it('reads meal timing', () => {
+    expect(parseSig('take one capsule twice a day after meals').timing).toBe('after meals');
+    expect(parseSig('one tablet with food').timing).toBe('with food');
+  });
+
+  it('keeps ingredient and strength from the name', () => {
+    expect(parseSig('take one tablet daily', 'Lisinopril 10 mg tablet')).toMatchObject({
+      ingredient: 'Lisinopril',
+      strength: { value: 10, unit: 'mg' },
+      dose: { min: 1, max: 1 },
+    });
+  });
+
+  it('keeps the amount said in the directions apart from the strength in the name', () => {
+    const sig = parseSig('take 400 mg every 6 hours', 'Ibuprofen 200 mg tablet');
+    expect(sig.strength).toEqual({ value: 200, unit: 'mg' });
+    expect(sig.amount).toEqual({ value: 400, unit: 'mg' });
+    expect(formatSig(parseSig('take 500 milligrams three times a day', 'Ibuprofen 200 mg tablet'))).toBe('500 mg 3 times daily');
+  });
+
+  it('never shows the strength in the name as a dose', () => {
+    const sig = parseSig('apply a thin layer twice daily', 'Ibuprofen 200 mg tablet');
+    expect(sig.strength).toEqual({ value: 200, unit: 'mg' });
+    expect(sig.amount).toBeUndefined();
+    expect(formatSig(sig)).toBe('on the skin twice daily');
+  });
+
+  it('reads durations and half tablets', () => {
+    expect(formatSig(parseSig('half a tablet every other day for two weeks'))).toBe('0.5 tablet every other day for 2 weeks');
+  });
+
+  it('reads spoken numbers past twelve', () => {
+    expect(parseSig('one capsule twice a day for fourteen days').duration).toEqual({ value: { min: 14, max: 14 }, unit: 'day' });
+    expect(parseSig('for twenty-one days').duration).toEqual({ value: { min: 21, max: 21 }, unit: 'day' });
+    expect(parseSig('take one hundred milligrams daily').amount).toEqual({ value: 100, unit: 'mg' });
+  });
+});
+
+describe('withSig', () => {
+  it('leaves medications without directions alone', () => {
+    const medication = { name: 'Metformin 500 mg' };
+    expect(withSig(medication)).toBe(medication);
+  });
+
+  it('parses the directions, falling back to dosage and frequency', () => {
+    const medication = withSig({ name: 'Amoxicillin 500 mg', dosage: '1 capsule', frequency: 'three times a day' });
+    expect(medication.sig && formatSig(medication.sig)).toBe('1 capsule 3 times daily');
+  });
+});
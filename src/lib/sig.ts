@@ -0,0 +1,364 @@
+import type { SummaryMedication } from '@/lib/types';
+
+export const SIG_ROUTES = [
+  'oral',
+  'sublingual',
+  'inhaled',
+  'nasal',
+  'ophthalmic',
+  'otic',
+  'topical',
+  'transdermal',
+  'subcutaneous',
+  'intramuscular',
+  'rectal',
+  'vaginal',
+] as const;
+
+export type SigRoute = typeof SIG_ROUTES[number];
+
+export type SigTimeUnit = 'hour' | 'day' | 'week' | 'month';
+
+/** A spoken amount such as "one to two"; `min` and `max` are equal for a single value. */
+export interface SigRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Medication directions in structured form. Every field is optional because
+ * spoken directions rarely say everything; fields not heard are left out
+ * rather than guessed.
+ */
+export interface MedicationSig {
+  // The drug itself, without strength or dose form
+  ingredient?: string;
+  // The product's strength, from its name
+  strength?: { value: number; unit: string };
+  // The amount of drug in one dose when the directions say it, e.g. "500 milligrams"
+  amount?: { value: number; unit: string };
+  // Singular, e.g. tablet, capsule, puff, ml
+  doseForm?: string;
+  route?: SigRoute;
+  // How many of the dose form per dose
+  dose?: SigRange;
+  // `count` doses every `interval` of `unit`: twice a day is 2 per 1 day, every 4-6 hours is 1 per 4-6 hours
+  frequency?: { count: SigRange; interval: SigRange; unit: SigTimeUnit };
+  // When in the day, e.g. at bedtime or with meals
+  timing?: string;
+  asNeeded?: boolean;
+  // What an as-needed dose is for, e.g. pain
+  indication?: string;
+  duration?: { value: SigRange; unit: Exclude<SigTimeUnit, 'hour'> };
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS_WORDS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// Spelled-out units to the abbreviations strengths are written with
+const UNIT_WORDS: Array<[RegExp, string]> = [
+  [/\bmilligrams?\b/g, 'mg'],
+  [/\bmicrograms?\b/g, 'mcg'],
+  [/\bgrams?\b/g, 'g'],
+  [/\b(milliliters?|millilitres?|mls|cc)\b/g, 'ml'],
+  [/\bmilliequivalents?\b/g, 'meq'],
+  [/\b(international units?|iu)\b/g, 'units'],
+  [/\bpercent\b/g, '%'],
+];
+
+const DOSE_FORMS: Array<[RegExp, string]> = [
+  [/^tab(let)?s?$/, 'tablet'],
+  [/^cap(sule)?s?$/, 'capsule'],
+  [/^puffs?$/, 'puff'],
+  [/^drops?$/, 'drop'],
+  [/^sprays?$/, 'spray'],
+  [/^patch(es)?$/, 'patch'],
+  [/^(teaspoons?|tsp)$/, 'teaspoon'],
+  [/^(tablespoons?|tbsp)$/, 'tablespoon'],
+  [/^ml$/, 'ml'],
+  [/^units?$/, 'unit'],
+  [/^suppositor(y|ies)$/, 'suppository'],
+  [/^applications?$/, 'application'],
+  [/^injections?$/, 'injection'],
+  [/^lozenges?$/, 'lozenge'],
+  [/^packets?$/, 'packet'],
+  [/^inhalations?$/, 'inhalation'],
+];
+const DOSE_FORM_WORDS =
+  'tablets?|tabs?|capsules?|caps?|puffs?|drops?|sprays?|patch(?:es)?|teaspoons?|tsp|tablespoons?|tbsp|ml|units?|suppositor(?:y|ies)|applications?|injections?|lozenges?|packets?|inhalations?';
+// Words in a medication name that describe the product rather than the drug
+const PRODUCT_WORDS = `${DOSE_FORM_WORDS}|inhalers?|creams?|ointments?|gels?|lotions?|solutions?|suspensions?|syrups?|liquids?|pens?`;
+
+// Checked in order; the first route mentioned wins
+const ROUTE_PATTERNS: Array<[RegExp, SigRoute]> = [
+  [/\b(under the tongue|sublingual(ly)?|sl)\b/, 'sublingual'],
+  [/\b(by mouth|orally|oral|po|swallow(ed)?)\b/, 'oral'],
+  [/\b(inhaled?|inhalations?|inhaler|puffs?|nebuli[sz]ed|nebuli[sz]er)\b/, 'inhaled'],
+  [/\b(in (each|the|one) nostril|in the nose|nasal(ly)?|intranasal)\b/, 'nasal'],
+  [/\b(in (each|the|both|one|affected) eyes?|ophthalmic)\b/, 'ophthalmic'],
+  [/\b(in (each|the|both|one|affected) ears?|otic)\b/, 'otic'],
+  [/\b(subcutaneous(ly)?|subcut|subq|sq|under the skin)\b/, 'subcutaneous'],
+  [/\b(intramuscular(ly)?|into the muscle)\b/, 'intramuscular'],
+  [/\b(transdermal(ly)?|patch(es)?)\b/, 'transdermal'],
+  [/\b(topical(ly)?|apply|applied|to the (skin|affected area)|cream|ointment|lotion|gel)\b/, 'topical'],
+  [/\b(rectal(ly)?|suppositor(y|ies))\b/, 'rectal'],
+  [/\bvaginal(ly)?\b/, 'vaginal'],
+];
+
+export const ROUTE_LABELS: Record<SigRoute, string> = {
+  oral: 'by mouth',
+  sublingual: 'under the tongue',
+  inhaled: 'inhaled',
+  nasal: 'in the nose',
+  ophthalmic: 'in the eye',
+  otic: 'in the ear',
+  topical: 'on the skin',
+  transdermal: 'on the skin as a patch',
+  subcutaneous: 'under the skin',
+  intramuscular: 'into the muscle',
+  rectal: 'rectally',
+  vaginal: 'vaginally',
+};
+
+// Latin and pharmacy shorthand, matched as whole words after dots are removed
+const ABBREVIATIONS: Record<string, Pick<MedicationSig, 'frequency' | 'timing'>> = {
+  qd: { frequency: perDay(1) },
+  bid: { frequency: perDay(2) },
+  tid: { frequency: perDay(3) },
+  qid: { frequency: perDay(4) },
+  qhs: { frequency: perDay(1), timing: 'at bedtime' },
+  hs: { timing: 'at bedtime' },
+  qam: { frequency: perDay(1), timing: 'in the morning' },
+  qpm: { frequency: perDay(1), timing: 'in the evening' },
+  qod: { frequency: { count: range(1), interval: range(2), unit: 'day' } },
+  qw: { frequency: { count: range(1), interval: range(1), unit: 'week' } },
+  ac: { timing: 'before meals' },
+  pc: { timing: 'after meals' },
+};
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+const RANGE = `${NUMBER}(?:\\s*(?:-|to|or)\\s*${NUMBER})?`;
+const AS_NEEDED = '(?:as needed|if needed|when needed|as required|prn)';
+
+/**
+ * Parse spoken medication directions, such as "one to two tablets by mouth
+ * every four to six hours as needed for pain" or "1 tab PO BID x 10 days".
+ * `name` supplies the ingredient and strength. An amount said in the
+ * directions, like "400 mg", is the dose and goes in `amount`; it never
+ * replaces the product's strength, and the strength is never taken for a dose.
+ */
+export function parseSig(directions: string, name = ''): MedicationSig {
+  const text = normalize(directions);
+  const sig: MedicationSig = {};
+
+  const product = normalize(name);
+  const ingredient = name
+    .replace(/\s\d.*$/, '')
+    .replace(new RegExp(`\\b(${PRODUCT_WORDS})\\b`, 'gi'), '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (ingredient) sig.ingredient = ingredient;
+
+  const said = text.match(new RegExp(`${NUMBER}\\s*(mg|mcg|g|meq|%)(?:\\/(ml|\\d*\\s*ml))?(?!\\w)`));
+  const labelled = product.match(new RegExp(`${NUMBER}\\s*(mg|mcg|g|meq|units|%)(?:\\/(ml|\\d*\\s*ml))?(?!\\w)`));
+  if (said) sig.amount = readStrength(said);
+  if (labelled) sig.strength = readStrength(labelled);
+
+  // Strengths are read first so "500 mg" isn't taken for a dose of 500
+  const withoutStrength = text.replace(new RegExp(`${NUMBER}\\s*(mg|mcg|g|meq|%)(\\/\\S+)?(?!\\w)`, 'g'), ' ');
+  const dose = withoutStrength.match(new RegExp(`${RANGE}\\s*(${DOSE_FORM_WORDS})\\b`));
+  if (dose) {
+    sig.dose = range(Number(dose[1]), dose[2] ? Number(dose[2]) : undefined);
+    sig.doseForm = doseForm(dose[3]);
+  } else {
+    const form = withoutStrength.match(new RegExp(`\\b(${DOSE_FORM_WORDS})\\b`));
+    if (form) sig.doseForm = doseForm(form[1]);
+  }
+
+  // "Albuterol inhaler" says how it is taken even when the directions don't
+  sig.route = (ROUTE_PATTERNS.find(([pattern]) => pattern.test(text)) ?? ROUTE_PATTERNS.find(([pattern]) => pattern.test(product)))?.[1];
+
+  Object.assign(sig, readFrequency(text));
+
+  const asNeeded = text.match(new RegExp(`\\b${AS_NEEDED}\\b`));
+  if (asNeeded) {
+    sig.asNeeded = true;
+    const indication =
+      text.match(new RegExp(`\\b${AS_NEEDED}\\s+(?:for|when|if)\\s+([a-z ]+?)(?=\\s*(?:[,.;]|$|\\band\\b|\\bfor \\d|\\bup to\\b|\\bnot to exceed\\b|\\bmax))`)) ??
+      text.match(new RegExp(`\\bfor\\s+([a-z ]+?)\\s+${AS_NEEDED}`));
+    if (indication && !/^(an? |\d)/.test(indication[1])) sig.indication = indication[1].trim();
+  }
+
+  const duration = text.match(new RegExp(`\\b(?:for|x)\\s*(?:${RANGE}|(a|an))\\s+(days?|weeks?|months?)\\b`));
+  if (duration) {
+    const value = duration[3] ? range(1) : range(Number(duration[1]), duration[2] ? Number(duration[2]) : undefined);
+    sig.duration = { value, unit: duration[4].replace(/s$/, '') as 'day' | 'week' | 'month' };
+  }
+
+  return Object.fromEntries(Object.entries(sig).filter(([, value]) => value !== undefined)) as MedicationSig;
+}
+
+/**
+ * The medication with its directions parsed, from what was said word for word
+ * or, failing that, the dosage and frequency.
+ */
+export function withSig(medication: SummaryMedication): SummaryMedication {
+  const phrase = sigPhrase(medication);
+  // The name alone gives a strength but no directions worth showing
+  if (Object.keys(parseSig(phrase)).length === 0) return medication;
+  return { ...medication, sig: parseSig(phrase, medication.name) };
+}
+
+/**
+ * The words a sig was parsed from, shown next to it so the reader can check it.
+ */
+export function sigPhrase(medication: SummaryMedication): string {
+  return medication.directions || [medication.dosage, medication.frequency].filter(Boolean).join(' ');
+}
+
+/**
+ * Directions written out in one standard form, e.g. "1-2 tablets by mouth
+ * every 4-6 hours as needed for pain for 5 days".
+ */
+export function formatSig(sig: MedicationSig): string {
+  const parts: string[] = [];
+
+  if (sig.dose) {
+    const form = sig.doseForm ?? 'dose';
+    parts.push(`${formatRange(sig.dose)} ${sig.dose.max <= 1 ? form : pluralize(form)}`);
+  } else if (sig.amount && sig.amount.unit !== '%') {
+    // A dose said as an amount of drug, e.g. "500 milligrams three times a day"
+    parts.push(`${sig.amount.value} ${sig.amount.unit}`);
+  }
+  if (sig.route) parts.push(ROUTE_LABELS[sig.route]);
+  if (sig.frequency) parts.push(formatFrequency(sig.frequency));
+  if (sig.timing) parts.push(sig.timing);
+  if (sig.asNeeded) parts.push(sig.indication ? `as needed for ${sig.indication}` : 'as needed');
+  if (sig.duration) {
+    const unit = sig.duration.value.max === 1 ? sig.duration.unit : `${sig.duration.unit}s`;
+    parts.push(`for ${formatRange(sig.duration.value)} ${unit}`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Lower case, numbers as digits and shorthand without dots, so the patterns
+ * above see "one and a half tabs b.i.d." as "1.5 tabs bid".
+ */
+function normalize(text: string): string {
+  let normalized = ` ${text.toLowerCase()} `
+    .replace(/\b((?:[a-z]\.){2,})/g, match => match.replace(/\./g, ''))
+    .replace(/\b1\s*\/\s*([2-4])\b/g, (_, denominator) => String(1 / Number(denominator)))
+    .replace(/\b(one|1) and (a )?half\b/g, '1.5')
+    .replace(/\b(a |one )?half( of)?( a| an)?\b/g, ' 0.5 ')
+    .replace(/\bq\.?\s?(\d+)\s*(?:-|to)\s*(\d+)\s*h(?:rs?|ours?)?\b/g, 'every $1 to $2 hours')
+    .replace(/\bq\.?\s?(\d+)\s*h(?:rs?|ours?)?\b/g, 'every $1 hours');
+
+  for (const [pattern, unit] of UNIT_WORDS) {
+    normalized = normalized.replace(pattern, unit);
+  }
+  // "Twenty-one" and "a hundred" before the single words, so the parts aren't read apart
+  const ones = Object.keys(NUMBER_WORDS).filter(word => NUMBER_WORDS[word] > 0 && NUMBER_WORDS[word] < 10).join('|');
+  normalized = normalized
+    .replace(new RegExp(`\\b(${Object.keys(TENS_WORDS).join('|')})(?:[\\s-](${ones}))?\\b`, 'g'),
+      (_, tens: string, unit?: string) => String(TENS_WORDS[tens] + (unit ? NUMBER_WORDS[unit] : 0)))
+    .replace(/\b(?:a |one )?hundred\b/g, '100')
+    .replace(new RegExp(`\\b(${Object.keys(NUMBER_WORDS).join('|')})\\b`, 'g'), word => String(NUMBER_WORDS[word]));
+
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * How often, from the first phrase that says so, plus when in the day.
+ */
+function readFrequency(text: string): Pick<MedicationSig, 'frequency' | 'timing'> {
+  const result: Pick<MedicationSig, 'frequency' | 'timing'> = {};
+  const unitOf = (word: string): SigTimeUnit =>
+    /^(day|daily|night|nightly)/.test(word) ? 'day' : (word.replace(/s$/, '').replace(/ly$/, '') as SigTimeUnit);
+
+  const every = text.match(new RegExp(`\\bevery\\s+(?:${RANGE}\\s*)?(other\\s+)?(hours?|days?|weeks?|months?)\\b`));
+  const times = text.match(new RegExp(`\\b(?:(once|twice|thrice)|${RANGE}\\s*times?)\\s*(?:a|an|per|each|every|in a|in 1)?\\s*(day|daily|week|weekly|month|monthly|night)\\b`));
+  // "One tablet a day" is one dose a day
+  const perDose = text.match(new RegExp(`\\b${RANGE}\\s*(?:${DOSE_FORM_WORDS}|mg|mcg|g|meq)\\s+(?:a|an|per|each)\\s+(day|week|month)\\b`));
+  const bare = text.match(/\b(once|twice|daily|weekly|monthly|nightly|every night|every morning|every evening)\b/);
+
+  if (times) {
+    const count = times[1]
+      ? range({ once: 1, twice: 2, thrice: 3 }[times[1] as 'once' | 'twice' | 'thrice'])
+      : range(Number(times[2]), times[3] ? Number(times[3]) : undefined);
+    result.frequency = { count, interval: range(1), unit: unitOf(times[4]) };
+  } else if (every) {
+    const interval = every[3] ? range(2) : every[1] ? range(Number(every[1]), every[2] ? Number(every[2]) : undefined) : range(1);
+    result.frequency = { count: range(1), interval, unit: unitOf(every[4]) };
+  } else if (perDose) {
+    result.frequency = { count: range(1), interval: range(1), unit: unitOf(perDose[3]) };
+  } else if (bare) {
+    const word = bare[1];
+    if (word === 'twice') result.frequency = perDay(2);
+    else if (word === 'weekly' || word === 'monthly') result.frequency = { count: range(1), interval: range(1), unit: unitOf(word) };
+    else result.frequency = perDay(1);
+  }
+
+  for (const [abbreviation, meaning] of Object.entries(ABBREVIATIONS)) {
+    if (!new RegExp(`\\b${abbreviation}\\b`).test(text)) continue;
+    result.frequency ??= meaning.frequency;
+    result.timing ??= meaning.timing;
+  }
+
+  result.timing ??= text.match(/\b(at bedtime|before bed|at night|every night|nightly)\b/) ? 'at bedtime'
+    : text.match(/\b(in the morning|every morning|each morning)\b/) ? 'in the morning'
+    : text.match(/\b(in the evening|every evening|each evening)\b/) ? 'in the evening'
+    : text.match(/\b(with (meals|food|breakfast|dinner|supper))\b/)?.[1]
+    ?? text.match(/\b(before (meals|food|breakfast|dinner))\b/)?.[1]
+    ?? text.match(/\b(after (meals|food|eating|breakfast|dinner|supper))\b/)?.[1]
+    ?? text.match(/\b(on an empty stomach)\b/)?.[1];
+  if (result.timing && !result.frequency && /bedtime|morning|evening/.test(result.timing)) {
+    result.frequency = perDay(1);
+  }
+
+  return Object.fromEntries(Object.entries(result).filter(([, value]) => value !== undefined));
+}
+
+function formatFrequency({ count, interval, unit }: NonNullable<MedicationSig['frequency']>): string {
+  const single = interval.min === 1 && interval.max === 1;
+  if (count.min === 1 && count.max === 1) {
+    if (single) return unit === 'hour' ? 'every hour' : `once ${unit === 'day' ? 'daily' : `${unit}ly`}`;
+    if (unit === 'day' && interval.min === 2 && interval.max === 2) return 'every other day';
+    return `every ${formatRange(interval)} ${unit}s`;
+  }
+  const howMany = count.min === 2 && count.max === 2 ? 'twice' : `${formatRange(count)} times`;
+  return single ? `${howMany} ${unit === 'day' ? 'daily' : `a ${unit}`}` : `${howMany} every ${formatRange(interval)} ${unit}s`;
+}
+
+function formatRange({ min, max }: SigRange): string {
+  return min === max ? String(min) : `${min}-${max}`;
+}
+
+function readStrength(match: RegExpMatchArray): NonNullable<MedicationSig['strength']> {
+  return { value: Number(match[1]), unit: match[3] ? `${match[2]}/${match[3].replace(/\s+/g, ' ')}` : match[2] };
+}
+
+function doseForm(word: string): string {
+  return DOSE_FORMS.find(([pattern]) => pattern.test(word))?.[1] ?? word;
+}
+
+function pluralize(form: string): string {
+  if (form === 'ml') return form;
+  if (form === 'patch') return 'patches';
+  if (form === 'suppository') return 'suppositories';
+  return `${form}s`;
+}
+
+function range(min: number, max = min): SigRange {
+  return { min, max };
+}
+
+function perDay(count: number): NonNullable<MedicationSig['frequency']> {
+  return { count: range(count), interval: range(1), unit: 'day' };
+}
@@ -0,0 +1,167 @@
+import { ALLERGY_SEVERITIES, readSeverity } from '@/lib/allergies';
+import type { CitedAllergy, CitedItem, CitedMedication, CitedNote } from '@/lib/summarization/schema';
+import type { TranscriptLine } from '@/lib/summarization/evidence';
+import type { NoteTemplate } from '@/lib/templates';
+
+// A chunk may end this far before its size limit to finish at a change of speaker
+const SPEAKER_BOUNDARY_SLACK = 0.25;
+
+/**
+ * Split numbered transcript lines into chunks of at most `maxChars`, never
+ * inside a line. A chunk ends where the speaker changes when there is one near
+ * the limit, so a question stays with its answer. Lines keep their ids, so
+ * citations from any chunk point into the whole transcript.
+ */
+export function chunkTranscript(lines: TranscriptLine[], maxChars: number): TranscriptLine[][] {
+  const chunks: TranscriptLine[][] = [];
+  let current: TranscriptLine[] = [];
+  let size = 0;
+
+  for (const line of lines) {
+    const length = line.id.length + line.text.length + 4;
+    if (current.length > 0 && size + length > maxChars) {
+      const cut = speakerBoundary(current, maxChars);
+      chunks.push(current.slice(0, cut));
+      current = current.slice(cut);
+      size = current.reduce((total, kept) => total + kept.id.length + kept.text.length + 4, 0);
+    }
+    current.push(line);
+    size += length;
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Combine the notes written for each chunk into one. Medications are matched
+ * by normalized name, allergies by substance and list items by normalized text, keeping the first
+ * wording and every citation; paragraphs are joined in transcript order.
+ * Tolerates partly written notes, so drafts can be merged too.
+ */
+export function mergeNotes(notes: CitedNote[], template: NoteTemplate): CitedNote {
+  const merged: CitedNote = {};
+
+  for (const section of template.sections) {
+    const values: unknown[] = notes.map(note => note?.[section.id]);
+
+    if (section.type === 'text') {
+      const items = values.filter((value): value is CitedItem => isCitedItem(value) && !!value.text.trim());
+      merged[section.id] = {
+        text: items.map(item => item.text.trim()).join(' '),
+        evidence: unique(items.flatMap(item => citations(item.evidence))),
+      };
+    } else if (section.type === 'medications') {
+      const byName = new Map<string, CitedMedication>();
+      for (const item of values.flatMap(value => (Array.isArray(value) ? value : [])) as Partial<CitedMedication>[]) {
+        if (!item || typeof item.name !== 'string' || !item.name.trim()) continue;
+        const medication: CitedMedication = {
+          name: item.name,
+          dosage: item.dosage || '',
+          frequency: item.frequency || '',
+          notes: item.notes || '',
+          directions: item.directions || '',
+          evidence: citations(item.evidence),
+        };
+        const key = normalizeName(medication.name);
+        const existing = byName.get(key);
+        byName.set(key, existing ? mergeMedication(existing, medication) : medication);
+      }
+      merged[section.id] = Array.from(byName.values());
+    } else if (section.type === 'allergies') {
+      const bySubstance = new Map<string, CitedAllergy>();
+      for (const item of values.flatMap(value => (Array.isArray(value) ? value : [])) as Partial<CitedAllergy>[]) {
+        if (!item || typeof item.substance !== 'string' || (!item.substance.trim() && item.denied !== true)) continue;
+        const allergy: CitedAllergy = {
+          substance: item.substance,
+          reaction: item.reaction || '',
+          severity: item.severity || '',
+          denied: item.denied === true,
+          evidence: citations(item.evidence),
+        };
+        const key = normalizeText(allergy.substance);
+        const existing = bySubstance.get(key);
+        bySubstance.set(key, existing ? mergeAllergy(existing, allergy) : allergy);
+      }
+      merged[section.id] = Array.from(bySubstance.values());
+    } else {
+      const byText = new Map<string, CitedItem>();
+      for (const item of values.flatMap(value => (Array.isArray(value) ? value : []))) {
+        if (!isCitedItem(item) || !item.text.trim()) continue;
+        const key = normalizeText(item.text);
+        const existing = byText.get(key);
+        byText.set(key, {
+          text: existing?.text ?? item.text,
+          evidence: unique([...(existing?.evidence ?? []), ...citations(item.evidence)]),
+        });
+      }
+      merged[section.id] = Array.from(byText.values());
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Where to end a chunk that has outgrown its limit: after the last change of
+ * speaker in its final stretch, or before the line that didn't fit.
+ */
+function speakerBoundary(lines: TranscriptLine[], maxChars: number): number {
+  let size = 0;
+  for (let i = lines.length - 1; i > 0; i--) {
+    size += lines[i].id.length + lines[i].text.length + 4;
+    if (size > maxChars * SPEAKER_BOUNDARY_SLACK) break;
+    if (lines[i].speaker && lines[i - 1].speaker && lines[i].speaker !== lines[i - 1].speaker) return i;
+  }
+  return lines.length;
+}
+
+// Later chunks fill in details earlier ones didn't hear
+function mergeMedication(existing: CitedMedication, addition: CitedMedication): CitedMedication {
+  const notes = [existing.notes, addition.notes]
+    .filter((note, index, all) => note && all.findIndex(other => normalizeText(other) === normalizeText(note)) === index);
+  return {
+    name: existing.name,
+    dosage: existing.dosage || addition.dosage || '',
+    frequency: existing.frequency || addition.frequency || '',
+    notes: notes.join('; '),
+    directions: existing.directions || addition.directions,
+    evidence: unique([...existing.evidence, ...addition.evidence]),
+  };
+}
+
+// An allergy reported in any chunk outweighs a denial in another, and the worst severity is kept
+function mergeAllergy(existing: CitedAllergy, addition: CitedAllergy): CitedAllergy {
+  const rank = (severity: string) => {
+    const level = readSeverity(severity);
+    return level ? ALLERGY_SEVERITIES.indexOf(level) : -1;
+  };
+  return {
+    substance: existing.substance,
+    reaction: existing.reaction || addition.reaction,
+    severity: rank(addition.severity) > rank(existing.severity) ? addition.severity : existing.severity,
+    denied: existing.denied && addition.denied,
+    evidence: unique([...existing.evidence, ...addition.evidence]),
+  };
+}
+
+// "Metformin 500mg" and "metformin" are the same medication; strengths are kept in the dosage
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\d+(\.\d+)?\s*(mg|mcg|g|ml|units?|%)\b/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function isCitedItem(value: unknown): value is CitedItem {
+  return !!value && typeof value === 'object' && typeof (value as CitedItem).text === 'string';
+}
+
+function citations(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+}
+
+function unique(ids: string[]): string[] {
+  return Array.from(new Set(ids));
+}
@@ -0,0 +1,94 @@
+import { readSeverity } from '@/lib/allergies';
+import type { CitedAllergy, CitedItem, CitedMedication, CitedNote } from '@/lib/summarization/schema';
+import type { SummaryInput } from '@/lib/summarization/types';
+import type { NoteTemplate } from '@/lib/templates';
+import type { EvidenceSpan, SectionValue, SpeakerRole, SummaryEvidence } from '@/lib/types';
+
+/**
+ * A transcript line as the model sees it, with the id it cites it by.
+ */
+export interface TranscriptLine {
+  id: string;
+  text: string;
+  span: EvidenceSpan;
+  // Who said it, when the transcript has segments
+  speaker?: SpeakerRole;
+}
+
+/**
+ * Split the transcript into citable lines: one per segment when there are
+ * segments, so citations carry times, otherwise one per sentence.
+ */
+export function numberTranscript(input: SummaryInput): TranscriptLine[] {
+  if (input.segments && input.segments.length > 0) {
+    return input.segments.map((segment, index) => ({
+      id: `L${index + 1}`,
+      text: segment.speaker === 'Unknown' ? segment.text : `${segment.speaker}: ${segment.text}`,
+      span: { quote: segment.text, segment: index, start: segment.start, end: segment.end },
+      speaker: segment.speaker,
+    }));
+  }
+
+  return input.text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .map((sentence, index) => ({ id: `L${index + 1}`, text: sentence, span: { quote: sentence } }));
+}
+
+export function formatNumberedTranscript(lines: TranscriptLine[]): string {
+  return lines.map(line => `[${line.id}] ${line.text}`).join('\n');
+}
+
+/**
+ * Swap the line ids the model cited for the transcript passages themselves.
+ * Ids that don't exist are dropped, so an item citing nothing real ends up
+ * with no evidence and is flagged in the summary view.
+ */
+export function resolveEvidence(
+  reply: CitedNote,
+  template: NoteTemplate,
+  lines: TranscriptLine[]
+): { sections: Record<string, SectionValue>; evidence: SummaryEvidence } {
+  const byId = new Map(lines.map(line => [line.id, line.span]));
+  const spans = (ids: string[]) =>
+    Array.from(new Set(ids.map(id => id.replace(/[[\]\s]/g, '').toUpperCase())))
+      .flatMap(id => byId.get(id) ?? []);
+
+  const sections: Record<string, SectionValue> = {};
+  const evidence: SummaryEvidence = {};
+
+  for (const section of template.sections) {
+    const value = reply[section.id];
+    if (section.type === 'text') {
+      const item = value as CitedItem;
+      sections[section.id] = item.text;
+      evidence[section.id] = item.text ? [spans(item.evidence)] : [];
+    } else if (section.type === 'medications') {
+      const medications = value as CitedMedication[];
+      sections[section.id] = medications.map(({ name, dosage, frequency, notes, directions }) => ({
+        name,
+        dosage,
+        frequency,
+        notes,
+        directions,
+      }));
+      evidence[section.id] = medications.map(medication => spans(medication.evidence));
+    } else if (section.type === 'allergies') {
+      const allergies = value as CitedAllergy[];
+      sections[section.id] = allergies.map(({ substance, reaction, severity, denied }) => ({
+        substance,
+        reaction,
+        severity: readSeverity(severity),
+        denied,
+      }));
+      evidence[section.id] = allergies.map(allergy => spans(allergy.evidence));
+    } else {
+      const items = value as CitedItem[];
+      sections[section.id] = items.map(item => item.text);
+      evidence[section.id] = items.map(item => spans(item.evidence));
+    }
+  }
+
+  return { sections, evidence };
+}
@@ -0,0 +1,57 @@
+import { detectAllergies } from '@/lib/allergies';
+import type { SectionValue } from '@/lib/types';
+
+/**
+ * A keyword guess at the sections of the built-in consultation summary, used
+ * only when no model reply could be validated. Summaries built this way are
+ * flagged with source 'fallback', whatever template was asked for.
+ */
+export function createFallbackSummary(text: string): Record<string, SectionValue> {
+  const lowerText = text.toLowerCase();
+  
+  // Extract medications
+  const medications = [
+    'aspirin', 'ibuprofen', 'acetaminophen', 'amoxicillin', 'metformin',
+    'lisinopril', 'atorvastatin', 'omeprazole', 'albuterol', 'prednisone'
+  ].filter(med => lowerText.includes(med)).map(med => ({
+    name: med.charAt(0).toUpperCase() + med.slice(1),
+    dosage: '',
+    frequency: '',
+    notes: ''
+  }));
+
+  // Extract key topics
+  const topics = [];
+  if (lowerText.includes('medication')) topics.push('Medication discussion');
+  if (lowerText.includes('side effect')) topics.push('Side effects');
+  if (lowerText.includes('allergy')) topics.push('Allergies');
+  if (lowerText.includes('dosage')) topics.push('Dosage instructions');
+  if (lowerText.includes('refill')) topics.push('Refill request');
+
+  // Extract action items
+  const actions = [];
+  if (lowerText.includes('follow up')) actions.push('Schedule follow-up appointment');
+  if (lowerText.includes('refill')) actions.push('Process medication refill');
+  if (lowerText.includes('call')) actions.push('Call patient with updates');
+
+  // Extract patient concerns
+  const concerns = [];
+  if (lowerText.includes('pain')) concerns.push('Pain management');
+  if (lowerText.includes('side effect')) concerns.push('Medication side effects');
+  if (lowerText.includes('allergy')) concerns.push('Allergic reactions');
+
+  // Extract recommendations
+  const recommendations = [];
+  if (lowerText.includes('take with food')) recommendations.push('Take medication with food');
+  if (lowerText.includes('avoid alcohol')) recommendations.push('Avoid alcohol while taking medication');
+  if (lowerText.includes('monitor')) recommendations.push('Monitor for side effects');
+
+  return {
+    keyTopics: topics.length > 0 ? topics : ['General consultation'],
+    medications: medications.length > 0 ? medications : [{ name: 'No specific medications mentioned', dosage: '', frequency: '', notes: '' }],
+    allergies: detectAllergies(text),
+    actionItems: actions.length > 0 ? actions : ['Review consultation notes'],
+    patientConcerns: concerns.length > 0 ? concerns : ['General health discussion'],
+    pharmacistRecommendations: recommendations.length > 0 ? recommendations : ['Follow prescribed regimen']
+  };
+} 
\ No newline at end of file
@@ -0,0 +1,354 @@
+import { checkAllergies, summaryAllergies } from '@/lib/allergies';
+import type { ApiCredentials } from '@/lib/credentials';
+import { FailoverError, failoverChain, runWithFailover } from '@/lib/failover';
+import { loadInteractions } from '@/lib/interaction-store';
+import { checkInteractions } from '@/lib/interactions';
+import { summaryMedications } from '@/lib/medications';
+import { withSig } from '@/lib/sig';
+import { chunkTranscript, mergeNotes } from '@/lib/summarization/chunks';
+import { numberTranscript, resolveEvidence, TranscriptLine } from '@/lib/summarization/evidence';
+import { createFallbackSummary } from '@/lib/summarization/fallback';
+import { parsePartialJson, toSummaryDraft } from '@/lib/summarization/partial';
+import { buildPatientSummaryPrompt, buildSummaryPrompt, repairPrompt, SUMMARY_SYSTEM_PROMPT } from '@/lib/summarization/prompts';
+import { getSummarizer } from '@/lib/summarization/registry';
+import {
+  CitedNote,
+  noteSchema,
+  parseModelJson,
+  PATIENT_SUMMARY_SCHEMA,
+  PatientSummaryContent,
+} from '@/lib/summarization/schema';
+import {
+  CompletionRequest,
+  ReplyFormat,
+  SummarizerError,
+  SummarizerProvider,
+  SummaryInput,
+  SummaryProgress,
+  SummarySegment,
+} from '@/lib/summarization/types';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, findTemplate, NoteTemplate } from '@/lib/templates';
+import {
+  PatientSummary,
+  ProviderAttempt,
+  SectionValue,
+  SpeakerRole,
+  SummaryData,
+  SummaryDraft,
+  SummaryMedication,
+} from '@/lib/types';
+
+export { SummarizerError } from '@/lib/summarization/types';
+export type {
+  SummarizerInfo,
+  SummarizerProvider,
+  SummaryInput,
+  SummaryProgress,
+  SummarySegment,
+} from '@/lib/summarization/types';
+export { DEFAULT_SUMMARIZER, getSummarizer, listSummarizers } from '@/lib/summarization/registry';
+
+// A summarizer that hasn't answered by then, repair included, is treated as down;
+// long transcripts get this much per chunk
+const SUMMARIZER_TIMEOUT_MS = 2 * 60 * 1000;
+// Streamed replies are re-parsed for drafts at most this often
+const DRAFT_INTERVAL_MS = 150;
+// Longer transcripts are summarized in chunks of about this size and merged
+const CHUNK_CHARS = Math.max(2000, Number(process.env.SUMMARY_CHUNK_CHARS) || 12000);
+
+const SPEAKER_ROLES: SpeakerRole[] = ['Pharmacist', 'Patient', 'Unknown'];
+
+const PATIENT_SUMMARY_FORMAT: ReplyFormat = { name: 'patient_summary', schema: PATIENT_SUMMARY_SCHEMA };
+
+/**
+ * Fill in a note template from a transcript with the given summarizer, falling
+ * back to the ones listed in SUMMARIZER_FAILOVER that are configured. A
+ * transcript longer than SUMMARY_CHUNK_CHARS is summarized in chunks that are
+ * merged. Adds the patient copy when a patient language is given. With `progress`, drafts of
+ * the sections are reported as a streamed reply comes in.
+ */
+export async function summarizeTranscript(
+  summarizer: SummarizerProvider,
+  input: SummaryInput,
+  template: NoteTemplate,
+  credentials: ApiCredentials,
+  progress: SummaryProgress = {}
+): Promise<SummaryData> {
+  const lines = numberTranscript(input);
+  const chunks = chunkTranscript(lines, CHUNK_CHARS);
+  const { result: reply, servedBy, attempts } = await runWithFailover(
+    summarizerChain(summarizer, credentials),
+    async id => {
+      const candidate = getSummarizer(id) as SummarizerProvider;
+      progress.onAttempt?.(candidate);
+      try {
+        return chunks.length > 1
+          ? await generateChunkedNote(candidate, input, chunks, template, credentials, progress)
+          : await generateValidated<CitedNote>(
+            candidate,
+            buildSummaryPrompt(input, lines, template),
+            noteFormat(template),
+            credentials,
+            progress,
+            partial => toSummaryDraft(partial, template)
+          );
+      } catch (error) {
+        // However the SDK reports it, a cancelled summary must not be retried elsewhere
+        throw progress.signal?.aborted ? progress.signal.reason : error;
+      }
+    },
+    SUMMARIZER_TIMEOUT_MS * chunks.length
+  );
+
+  // Keyword matching is a last resort, only knows the built-in note, and is
+  // flagged so the UI can say so
+  const cited = reply ? resolveEvidence(reply, template, lines) : null;
+  const summary: SummaryData = {
+    template: cited ? template : (findTemplate(BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID) as NoteTemplate),
+    sections: cited ? parseSigs(cited.sections, template) : createFallbackSummary(input.text),
+    source: cited ? 'model' : 'fallback',
+    evidence: cited?.evidence,
+    language: input.outputLanguage,
+    servedBy,
+    attempts,
+  };
+  const medications = summaryMedications(summary);
+  summary.interactions = checkInteractions(medications, await loadInteractions());
+  summary.allergyConflicts = checkAllergies(summaryAllergies(summary), medications);
+
+  if (input.patientLanguage) {
+    const patientSummary = await createPatientSummary(
+      getSummarizer(servedBy) as SummarizerProvider,
+      input,
+      input.patientLanguage,
+      credentials,
+      progress.signal
+    );
+    if (patientSummary) {
+      summary.patientSummary = patientSummary;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * The summary input from a request body, or null when there is no transcript.
+ */
+export function readSummaryInput(body: Record<string, unknown> | null): SummaryInput | null {
+  if (!body || typeof body.text !== 'string' || !body.text.trim()) return null;
+
+  return {
+    text: body.text,
+    speakers: Array.isArray(body.speakers) ? body.speakers.filter(speaker => typeof speaker === 'string') : undefined,
+    duration: typeof body.duration === 'number' ? body.duration : undefined,
+    segments: readSegments(body.segments),
+    outputLanguage: typeof body.outputLanguage === 'string' && body.outputLanguage ? body.outputLanguage : 'en',
+    patientLanguage: typeof body.patientLanguage === 'string' && body.patientLanguage ? body.patientLanguage : undefined,
+  };
+}
+
+/**
+ * A user-facing message and status for a failed summary, with the attempts
+ * made so the UI can show what was tried.
+ */
+export function describeSummaryFailure(caught: unknown): { error: string; status: number; attempts?: ProviderAttempt[] } {
+  const attempts = caught instanceof FailoverError ? caught.attempts : undefined;
+  const error = caught instanceof FailoverError ? caught.lastError : caught;
+
+  if (error instanceof SummarizerError) {
+    return { error: error.message, status: error.status, attempts };
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('quota') || error.message.includes('429') || error.message.includes('insufficient_quota')) {
+      return {
+        error: 'OpenAI API quota exceeded. Please check your billing at https://platform.openai.com/account/billing or try using Google Gemini instead.',
+        status: 429,
+        attempts,
+      };
+    } else if (error.message.includes('API key')) {
+      return { error: 'Invalid API key. Please check your configuration.', status: 401, attempts };
+    } else if (error.message.includes('SERVICE_DISABLED') || error.message.includes('Generative Language API')) {
+      return {
+        error: 'Google Gemini API not enabled. Please follow these steps:\n1. Go to https://console.developers.google.com/apis/api/generativelanguage.googleapis.com/overview\n2. Click "Enable" for the Generative Language API\n3. Wait a few minutes for the change to take effect\n4. Try again. If you continue to have issues, try using OpenAI instead.',
+        status: 403,
+        attempts,
+      };
+    } else if (error.message.includes('timed out')) {
+      return { error: error.message, status: 504, attempts };
+    }
+  }
+
+  return { error: 'Summary generation failed. Please try again.', status: 500, attempts };
+}
+
+/**
+ * The requested summarizer, then any SUMMARIZER_FAILOVER fallbacks these
+ * credentials cover.
+ */
+function summarizerChain(requested: SummarizerProvider, credentials: ApiCredentials) {
+  return failoverChain(requested.id, process.env.SUMMARIZER_FAILOVER)
+    .map(id => (id === requested.id ? requested : getSummarizer(id)))
+    .filter((candidate, index): candidate is SummarizerProvider =>
+      !!candidate && (index === 0 || candidate.isConfigured(credentials))
+    );
+}
+
+/**
+ * Map-reduce for transcripts too long for one reply: a note for each chunk in
+ * turn, merged into one. Drafts show the chunks done so far with the one being
+ * written. Null when any chunk's reply is unusable, since a merged note
+ * missing part of the visit would read as complete.
+ */
+async function generateChunkedNote(
+  summarizer: SummarizerProvider,
+  input: SummaryInput,
+  chunks: TranscriptLine[][],
+  template: NoteTemplate,
+  credentials: ApiCredentials,
+  progress: SummaryProgress
+): Promise<CitedNote | null> {
+  const done: CitedNote[] = [];
+
+  for (const [index, chunk] of chunks.entries()) {
+    const note = await generateValidated<CitedNote>(
+      summarizer,
+      buildSummaryPrompt(input, chunk, template, { index, count: chunks.length }),
+      noteFormat(template),
+      credentials,
+      progress,
+      partial => toSummaryDraft(mergeNotes([...done, partial as CitedNote], template), template)
+    );
+    if (!note) return null;
+    done.push(note);
+  }
+
+  return mergeNotes(done, template);
+}
+
+function noteFormat(template: NoteTemplate): ReplyFormat {
+  return { name: 'clinical_note', schema: noteSchema(template) };
+}
+
+/**
+ * Ask for JSON in the given format, and if the reply doesn't validate, ask once
+ * more with the validation errors. Null when the repaired reply is still unusable.
+ * Only the first reply is streamed, and only when `toDraft` says how to show
+ * it; a repair replaces the draft in one go.
+ */
+async function generateValidated<T>(
+  summarizer: SummarizerProvider,
+  prompt: string,
+  format: ReplyFormat,
+  credentials: ApiCredentials,
+  progress: SummaryProgress = {},
+  toDraft?: (partial: unknown) => SummaryDraft
+): Promise<T | null> {
+  const request: CompletionRequest = { system: SUMMARY_SYSTEM_PROMPT, prompt, format, signal: progress.signal };
+  const reply = progress.onDraft && toDraft && summarizer.stream
+    ? await readStreamedReply(summarizer.stream(request, credentials), toDraft, progress.onDraft)
+    : await summarizer.complete(request, credentials);
+  if (!reply) {
+    throw new SummarizerError('No response from AI service', 502);
+  }
+
+  const first = parseModelJson<T>(reply, format.schema);
+  if (first.value) return first.value;
+
+  // Only the validation errors are logged; the reply holds patient details
+  console.warn(`${summarizer.id} ${format.name} failed validation, asking for a repair:`, first.errors);
+  const repaired = await summarizer.complete(
+    { ...request, prompt: repairPrompt(prompt, reply, first.errors) },
+    credentials
+  );
+  const second = parseModelJson<T>(repaired, format.schema);
+  if (!second.value) {
+    console.error(`${summarizer.id} ${format.name} still invalid after repair:`, second.errors);
+  }
+  return second.value;
+}
+
+/**
+ * Collect a streamed reply, passing on the sections parsed so far whenever
+ * they change.
+ */
+async function readStreamedReply(
+  chunks: AsyncIterable<string>,
+  toDraft: (partial: unknown) => SummaryDraft,
+  onDraft: (draft: SummaryDraft) => void
+): Promise<string> {
+  let reply = '';
+  let sent = '';
+  let sentAt = 0;
+
+  for await (const chunk of chunks) {
+    reply += chunk;
+    if (Date.now() - sentAt < DRAFT_INTERVAL_MS) continue;
+
+    const draft = toDraft(parsePartialJson(reply));
+    const serialized = JSON.stringify(draft);
+    if (serialized !== sent) {
+      onDraft(draft);
+      sent = serialized;
+      sentAt = Date.now();
+    }
+  }
+
+  return reply;
+}
+
+/**
+ * A take-home version of the consultation for the patient, in their language.
+ * Returns undefined rather than failing the whole summary when the reply is unusable.
+ */
+async function createPatientSummary(
+  summarizer: SummarizerProvider,
+  input: SummaryInput,
+  language: string,
+  credentials: ApiCredentials,
+  signal?: AbortSignal
+): Promise<PatientSummary | undefined> {
+  try {
+    const content = await generateValidated<PatientSummaryContent>(
+      summarizer,
+      buildPatientSummaryPrompt(input, language),
+      PATIENT_SUMMARY_FORMAT,
+      credentials,
+      { signal }
+    );
+    return content ? { ...content, language } : undefined;
+  } catch (error) {
+    console.error('Patient summary error:', error);
+    return undefined;
+  }
+}
+
+/**
+ * The sections with every medication's directions parsed into a structured sig.
+ */
+function parseSigs(sections: Record<string, SectionValue>, template: NoteTemplate): Record<string, SectionValue> {
+  return Object.fromEntries(template.sections.map(section => [
+    section.id,
+    section.type === 'medications' ? (sections[section.id] as SummaryMedication[]).map(withSig) : sections[section.id],
+  ]));
+}
+
+/**
+ * Segments from a request body. Citations point at segments by position, so
+ * a list with any malformed entry is ignored rather than filtered.
+ */
+function readSegments(value: unknown): SummarySegment[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+
+  const segments: SummarySegment[] = [];
+  for (const item of value) {
+    const segment = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    if (typeof segment.text !== 'string' || typeof segment.start !== 'number' || typeof segment.end !== 'number') {
+      return undefined;
+    }
+    const speaker = SPEAKER_ROLES.includes(segment.speaker as SpeakerRole) ? (segment.speaker as SpeakerRole) : 'Unknown';
+    segments.push({ speaker, start: segment.start, end: segment.end, text: segment.text });
+  }
+  return segments;
+}
@@ -0,0 +1,128 @@
+import { readSeverity } from '@/lib/allergies';
+import type { NoteTemplate } from '@/lib/templates';
+import type { SummaryDraft } from '@/lib/types';
+
+/**
+ * Parse JSON that stops part way through, as a reply does while the model is
+ * still writing it. Open strings, arrays and objects are closed, and a trailing
+ * key or value that can't be completed is dropped. Undefined until an object
+ * or array has started.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[[{]/);
+  if (start === -1) return undefined;
+  const json = text.slice(start);
+
+  // Brackets still to close, innermost last
+  let closers = '';
+  let inString = false;
+  let escaped = false;
+  // The last place the text can be cut without leaving half a member behind
+  let cut = { at: 0, closers: '' };
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      closers += char === '{' ? '}' : ']';
+      cut = { at: i + 1, closers };
+    } else if (char === '}' || char === ']') {
+      closers = closers.slice(0, -1);
+      // Anything after the outermost value, like a closing code fence, is ignored
+      if (!closers) return tryParse(json.slice(0, i + 1));
+      cut = { at: i + 1, closers };
+    } else if (char === ',') {
+      cut = { at: i, closers };
+    }
+  }
+
+  // Finishing the string being written keeps a half-written item on screen
+  if (inString) {
+    const completed = tryParse(`${escaped ? json.slice(0, -1) : json}"${closing(closers)}`);
+    if (completed !== undefined) return completed;
+  } else {
+    const completed = tryParse(json + closing(closers));
+    if (completed !== undefined) return completed;
+  }
+  return tryParse(json.slice(0, cut.at) + closing(cut.closers));
+}
+
+/**
+ * The template's sections in a partly parsed reply, keeping only values of the
+ * right type. Items appear once they have text, medications once they have a
+ * name and allergies once they have a substance or are denied; citations are resolved only in the final summary.
+ */
+export function toSummaryDraft(value: unknown, template: NoteTemplate): SummaryDraft {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const fields = value as Record<string, unknown>;
+  const draft: SummaryDraft = {};
+
+  for (const section of template.sections) {
+    const field = fields[section.id];
+    if (section.type === 'text') {
+      const text = itemText(field);
+      if (text) draft[section.id] = text;
+    } else if (section.type === 'list' && Array.isArray(field)) {
+      draft[section.id] = field.flatMap(item => {
+        const text = itemText(item);
+        return text ? [text] : [];
+      });
+    } else if (section.type === 'medications' && Array.isArray(field)) {
+      draft[section.id] = field.flatMap(item => {
+        const medication = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        if (typeof medication.name !== 'string' || !medication.name) return [];
+        return [{
+          name: medication.name,
+          dosage: typeof medication.dosage === 'string' ? medication.dosage : undefined,
+          frequency: typeof medication.frequency === 'string' ? medication.frequency : undefined,
+          notes: typeof medication.notes === 'string' ? medication.notes : undefined,
+          directions: typeof medication.directions === 'string' ? medication.directions : undefined,
+        }];
+      });
+    } else if (section.type === 'allergies' && Array.isArray(field)) {
+      draft[section.id] = field.flatMap(item => {
+        const allergy = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        const substance = typeof allergy.substance === 'string' ? allergy.substance : '';
+        if (!substance && allergy.denied !== true) return [];
+        return [{
+          substance,
+          reaction: typeof allergy.reaction === 'string' ? allergy.reaction : undefined,
+          severity: readSeverity(allergy.severity),
+          denied: allergy.denied === true,
+        }];
+      });
+    }
+  }
+
+  return draft;
+}
+
+// A cited item's text, or a bare string from a model that skipped the wrapper
+function itemText(item: unknown): string | undefined {
+  const text = item && typeof item === 'object' ? (item as Record<string, unknown>).text : item;
+  return typeof text === 'string' && text ? text : undefined;
+}
+
+function closing(closers: string): string {
+  return closers.split('').reverse().join('');
+}
+
+function tryParse(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,116 @@
+import { languageName } from '@/lib/languages';
+import { formatNumberedTranscript, TranscriptLine } from '@/lib/summarization/evidence';
+import type { SummaryInput } from '@/lib/summarization/types';
+import type { NoteTemplate, SectionType } from '@/lib/templates';
+
+// How each type of section looks in the example reply
+const SECTION_EXAMPLES: Record<SectionType, string> = {
+  text: '{ "text": "a short paragraph", "evidence": ["L1", "L2"] }',
+  list: '[{ "text": "item", "evidence": ["L3"] }]',
+  medications: '[{ "name": "medication name", "dosage": "dosage if mentioned", "frequency": "frequency if mentioned", "notes": "any additional notes", "directions": "the directions exactly as said", "evidence": ["L4"] }]',
+  allergies: '[{ "substance": "what the patient is allergic to", "reaction": "reaction if mentioned", "severity": "mild, moderate, severe or empty", "denied": false, "evidence": ["L5"] }]',
+};
+
+export const SUMMARY_SYSTEM_PROMPT =
+  'You are a pharmacy AI assistant that creates structured summaries of pharmacy consultations. Always respond with valid JSON.';
+
+/**
+ * The prompt for a note in the given template, written for the pharmacist in
+ * `outputLanguage`, over the numbered transcript lines so every item can cite
+ * its source. With `part`, the lines are one chunk of a long transcript.
+ */
+export function buildSummaryPrompt(
+  input: SummaryInput,
+  lines: TranscriptLine[],
+  template: NoteTemplate,
+  part?: { index: number; count: number }
+): string {
+  return `You are a pharmacy AI assistant. Analyze the following pharmacy consultation transcript and write a ${template.name}. Focus on pharmacy-specific information and organize it into the sections below.
+${consultationContext(input)}${part ? `
+This is part ${part.index + 1} of ${part.count} of a long consultation. The other parts are summarized separately and combined afterwards, so only include what this part says.
+` : ''}
+TRANSCRIPT${part ? ` (PART ${part.index + 1} OF ${part.count})` : ''}:
+${formatNumberedTranscript(lines)}
+
+Please provide a JSON response with the following structure:
+{
+${template.sections.map(section => `  "${section.id}": ${SECTION_EXAMPLES[section.type]}`).join(',\n')}
+}
+
+Sections:
+${template.sections.map(section => `- "${section.id}" (${section.title}): ${section.instructions || section.title}`).join('\n')}
+${template.instructions ? `\n${template.instructions}\n` : ''}
+Guidelines:
+- Each transcript line starts with its id in brackets, e.g. [L3]; list in "evidence" the ids of every line an item is taken from
+- Only include items the transcript actually supports; never cite a line that doesn't say it
+- After the id, lines may start with the speaker ("Pharmacist:" or "Patient:"); use these labels to attribute what the patient said and what the pharmacist advised
+- Focus on clinically relevant information
+- Keep each item concise but informative
+- Copy medication directions into "directions" word for word as they were said, e.g. "one to two tablets every four to six hours as needed for pain", without rewording or abbreviating
+- Record each allergy the patient reports with its reaction and severity as described; set "denied" to true for a substance the patient says they are not allergic to, and for "no known allergies" give one allergy with an empty substance and "denied" true
+- Use an empty list for a section the consultation didn't cover, and an empty string for a dosage, frequency, note or directions that were not mentioned
+- The transcript may mix languages; write every value in ${languageName(input.outputLanguage)} regardless of the language it was spoken in, keeping medication names as spoken
+
+Return only valid JSON without any additional text.`;
+}
+
+/**
+ * The take-home copy, addressed to the patient in their own language.
+ */
+export function buildPatientSummaryPrompt(input: SummaryInput, language: string): string {
+  return `You are a pharmacy AI assistant. Using the following pharmacy consultation transcript, write a short take-home summary for the patient.
+${consultationContext(input)}
+TRANSCRIPT:
+${input.text}
+
+Please provide a JSON response with the following structure:
+{
+  "overview": "two or three sentences on what was discussed",
+  "medications": [
+    {
+      "name": "medication name",
+      "instructions": "how and when to take it"
+    }
+  ],
+  "nextSteps": ["step1", "step2"]
+}
+
+Guidelines:
+- Write in ${languageName(language)}, whatever language the transcript is in
+- Address the patient directly, in plain words at about a 6th-grade reading level
+- Only include instructions the pharmacist actually gave; do not add medical advice
+- Keep medication names as spoken so the patient can match them to their labels
+
+Return only valid JSON without any additional text.`;
+}
+
+/**
+ * A follow-up prompt asking the model to fix its own reply.
+ */
+export function repairPrompt(originalPrompt: string, reply: string, errors: string[]): string {
+  return `${originalPrompt}
+
+Your previous reply was:
+${reply}
+
+It does not match the required JSON structure:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with the corrected JSON object only, no markdown and no other text.`;
+}
+
+/**
+ * Who took part and for how long, so the model can weigh a brief refill check
+ * differently from a long medication review. Empty when neither is known.
+ */
+function consultationContext(input: SummaryInput): string {
+  const lines: string[] = [];
+  if (input.speakers && input.speakers.length > 0) {
+    lines.push(`Speakers: ${input.speakers.join(', ')}`);
+  }
+  if (input.duration && input.duration > 0) {
+    const minutes = Math.max(1, Math.round(input.duration / 60));
+    lines.push(`Consultation length: about ${minutes} minute${minutes === 1 ? '' : 's'}`);
+  }
+  return lines.length > 0 ? `\n${lines.join('\n')}\n` : '';
+}
@@ -0,0 +1,55 @@
+import { GenerativeModel, GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+import type { ApiCredentials } from '@/lib/credentials';
+import { toGeminiSchema } from '@/lib/summarization/schema';
+import { CompletionRequest, SummarizerError, SummarizerProvider } from '@/lib/summarization/types';
+
+const MODEL = 'gemini-1.5-flash';
+const TEMPERATURE = 0.3;
+const MAX_OUTPUT_TOKENS = 2000;
+
+export const geminiSummarizer: SummarizerProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Fast and cost-effective',
+  setupHint: 'Requires enabling Generative Language API in Google Cloud Console',
+
+  isConfigured(credentials) {
+    return Boolean(credentials.googleApiKey);
+  },
+
+  async complete(request, credentials) {
+    const result = await createModel(request, credentials).generateContent(request.prompt, { signal: request.signal });
+    return result.response.text();
+  },
+
+  async *stream(request, credentials) {
+    const result = await createModel(request, credentials).generateContentStream(request.prompt, { signal: request.signal });
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  },
+};
+
+function createModel(request: CompletionRequest, credentials: ApiCredentials): GenerativeModel {
+  if (!credentials.googleApiKey) {
+    throw new SummarizerError('Google API key not configured', 500);
+  }
+
+  return new GoogleGenerativeAI(credentials.googleApiKey).getGenerativeModel(
+    {
+      model: MODEL,
+      systemInstruction: request.system,
+      generationConfig: {
+        temperature: TEMPERATURE,
+        maxOutputTokens: MAX_OUTPUT_TOKENS,
+        // JSON mode constrained to the schema
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.format.schema) as unknown as ResponseSchema,
+      },
+    },
+    // The SDK sends the key in a header; the project, when set, is billed
+    credentials.googleProjectId ? { customHeaders: { 'X-Goog-User-Project': credentials.googleProjectId } } : undefined
+  );
+}
@@ -0,0 +1,67 @@
+import OpenAI from 'openai';
+import type { ApiCredentials } from '@/lib/credentials';
+import { CompletionRequest, SummarizerError, SummarizerProvider } from '@/lib/summarization/types';
+
+const MODEL = process.env.OPENAI_MODEL || 'gpt-4o';
+const TEMPERATURE = numberFromEnv(process.env.OPENAI_TEMPERATURE, 0.3);
+const MAX_TOKENS = numberFromEnv(process.env.OPENAI_MAX_TOKENS, 2000);
+
+export const openaiSummarizer: SummarizerProvider = {
+  id: 'openai',
+  label: 'OpenAI GPT-4o',
+  description: 'Advanced AI summarization',
+
+  isConfigured(credentials) {
+    return Boolean(credentials.openaiApiKey);
+  },
+
+  async complete(request, credentials) {
+    const completion = await createClient(credentials).chat.completions.create(
+      completionParams(request),
+      { signal: request.signal }
+    );
+
+    return completion.choices[0]?.message?.content || '';
+  },
+
+  async *stream(request, credentials) {
+    const stream = await createClient(credentials).chat.completions.create(
+      { ...completionParams(request), stream: true },
+      { signal: request.signal }
+    );
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  },
+};
+
+function createClient(credentials: ApiCredentials): OpenAI {
+  if (!credentials.openaiApiKey) {
+    throw new SummarizerError('OpenAI API key not configured', 500);
+  }
+  return new OpenAI({ apiKey: credentials.openaiApiKey });
+}
+
+function completionParams(request: CompletionRequest) {
+  return {
+    model: MODEL,
+    messages: [
+      { role: 'system' as const, content: request.system },
+      { role: 'user' as const, content: request.prompt },
+    ],
+    temperature: TEMPERATURE,
+    max_tokens: MAX_TOKENS,
+    // Structured outputs hold the reply to the schema
+    response_format: {
+      type: 'json_schema' as const,
+      json_schema: { name: request.format.name, strict: true, schema: request.format.schema },
+    },
+  };
+}
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
@@ -0,0 +1,82 @@
+import { createSelfHostedClient, getSelfHostedConfig, SelfHostedConfig } from '@/lib/self-hosted';
+import { CompletionRequest, SummarizerError, SummarizerProvider } from '@/lib/summarization/types';
+
+const TEMPERATURE = 0.3;
+const MAX_TOKENS = 2000;
+
+/**
+ * A llama.cpp, vLLM or Ollama server speaking the OpenAI chat API, so
+ * transcripts never leave the local network.
+ */
+export const selfHostedSummarizer: SummarizerProvider = {
+  id: 'self-hosted',
+  label: 'Self-hosted LLM',
+  description: 'OpenAI-compatible server, data stays local',
+
+  isConfigured() {
+    return Boolean(getSelfHostedConfig('llm'));
+  },
+
+  async complete(request) {
+    const config = requireConfig();
+
+    try {
+      const completion = await createSelfHostedClient(config).chat.completions.create(
+        completionParams(request, config),
+        { signal: request.signal }
+      );
+
+      return completion.choices[0]?.message?.content || '';
+    } catch (error) {
+      throw serverFailure(config, error);
+    }
+  },
+
+  async *stream(request) {
+    const config = requireConfig();
+
+    try {
+      const stream = await createSelfHostedClient(config).chat.completions.create(
+        { ...completionParams(request, config), stream: true },
+        { signal: request.signal }
+      );
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    } catch (error) {
+      throw serverFailure(config, error);
+    }
+  },
+};
+
+function requireConfig(): SelfHostedConfig {
+  const config = getSelfHostedConfig('llm');
+  if (!config) {
+    throw new SummarizerError('Self-hosted LLM server not configured. Set SELF_HOSTED_LLM_BASE_URL.', 500);
+  }
+  return config;
+}
+
+function completionParams(request: CompletionRequest, config: SelfHostedConfig) {
+  return {
+    model: config.model,
+    messages: [
+      { role: 'system' as const, content: request.system },
+      { role: 'user' as const, content: request.prompt },
+    ],
+    temperature: TEMPERATURE,
+    max_tokens: MAX_TOKENS,
+    // Most local servers support JSON mode but not full schemas
+    response_format: { type: 'json_object' as const },
+  };
+}
+
+function serverFailure(config: SelfHostedConfig, error: unknown): SummarizerError {
+  console.error('Self-hosted LLM error:', error);
+  return new SummarizerError(
+    `Self-hosted LLM server at ${config.baseURL} failed. Check that it is running and serves model "${config.model}".`,
+    502
+  );
+}
@@ -0,0 +1,28 @@
+import { geminiSummarizer } from '@/lib/summarization/providers/gemini';
+import { openaiSummarizer } from '@/lib/summarization/providers/openai';
+import { selfHostedSummarizer } from '@/lib/summarization/providers/self-hosted';
+import { SummarizerInfo, SummarizerProvider } from '@/lib/summarization/types';
+import type { ApiCredentials } from '@/lib/credentials';
+
+// Order here is the order the settings panel lists summarizers in
+const summarizers: SummarizerProvider[] = [
+  openaiSummarizer,
+  geminiSummarizer,
+  selfHostedSummarizer,
+];
+
+export const DEFAULT_SUMMARIZER = 'openai';
+
+export function getSummarizer(id: string): SummarizerProvider | undefined {
+  return summarizers.find(summarizer => summarizer.id === id);
+}
+
+export function listSummarizers(credentials: ApiCredentials): SummarizerInfo[] {
+  return summarizers.map(summarizer => ({
+    id: summarizer.id,
+    label: summarizer.label,
+    description: summarizer.description,
+    setupHint: summarizer.setupHint,
+    configured: summarizer.isConfigured(credentials),
+  }));
+}
@@ -0,0 +1,201 @@
+import type { NoteTemplate } from '@/lib/templates';
+import type { PatientSummary, SummaryAllergy, SummaryMedication } from '@/lib/types';
+
+/**
+ * The subset of JSON Schema the summary schemas use. It is sent as-is to
+ * OpenAI structured outputs, converted for Gemini, and checked locally by
+ * `validateAgainstSchema`, so the three can't drift apart.
+ */
+export type JsonSchema =
+  | { type: 'string'; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: JsonSchema; description?: string }
+  | {
+      type: 'object';
+      properties: Record<string, JsonSchema>;
+      required: string[];
+      additionalProperties: false;
+      description?: string;
+    };
+
+// An item as the model writes it, citing the ids of the transcript lines it came from
+export interface CitedItem {
+  text: string;
+  evidence: string[];
+}
+
+export type CitedMedication = Required<Omit<SummaryMedication, 'sig'>> & { evidence: string[] };
+
+// Severity is free text from the model, normalized when the note is resolved
+export type CitedAllergy = Required<Omit<SummaryAllergy, 'severity'>> & { severity: string; evidence: string[] };
+
+// A note as the model writes it, by section id; language, provider and flags are added by summarizeTranscript
+export type CitedNote = Record<string, CitedItem | CitedItem[] | CitedMedication[] | CitedAllergy[]>;
+
+export type PatientSummaryContent = Omit<PatientSummary, 'language'>;
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+const evidenceIds: JsonSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Ids of the transcript lines this is taken from, e.g. L3',
+};
+
+const citedItem = (description?: string): JsonSchema => ({
+  type: 'object',
+  properties: { text: { type: 'string' }, evidence: evidenceIds },
+  required: ['text', 'evidence'],
+  additionalProperties: false,
+  ...(description ? { description } : {}),
+});
+
+const citedMedication: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    // Empty strings when not mentioned; strict structured output has no optional fields
+    dosage: { type: 'string' },
+    frequency: { type: 'string' },
+    notes: { type: 'string' },
+    directions: { type: 'string', description: 'The directions word for word as said, e.g. one to two tablets every four to six hours as needed' },
+    evidence: evidenceIds,
+  },
+  required: ['name', 'dosage', 'frequency', 'notes', 'directions', 'evidence'],
+  additionalProperties: false,
+};
+
+const citedAllergy: JsonSchema = {
+  type: 'object',
+  properties: {
+    substance: { type: 'string', description: 'What the patient is allergic to; empty for no known allergies' },
+    reaction: { type: 'string' },
+    severity: { type: 'string', description: 'mild, moderate or severe, or empty when not said' },
+    denied: { type: 'boolean', description: 'True when the patient said they are not allergic' },
+    evidence: evidenceIds,
+  },
+  required: ['substance', 'reaction', 'severity', 'denied', 'evidence'],
+  additionalProperties: false,
+};
+
+const SECTION_ITEMS: Record<'list' | 'medications' | 'allergies', JsonSchema> = {
+  list: citedItem(),
+  medications: citedMedication,
+  allergies: citedAllergy,
+};
+
+/**
+ * The reply schema for a note template: one property per section, shaped by
+ * the section's type, with every item citing its transcript lines.
+ */
+export function noteSchema(template: NoteTemplate): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(template.sections.map(section => {
+      const description = section.instructions || section.title;
+      if (section.type === 'text') return [section.id, citedItem(description)];
+      return [section.id, { type: 'array', items: SECTION_ITEMS[section.type], description }];
+    })),
+    required: template.sections.map(section => section.id),
+    additionalProperties: false,
+  };
+}
+
+export const PATIENT_SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    overview: { type: 'string' },
+    medications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          instructions: { type: 'string' },
+        },
+        required: ['name', 'instructions'],
+        additionalProperties: false,
+      },
+    },
+    nextSteps: stringList('What the patient should do next'),
+  },
+  required: ['overview', 'medications', 'nextSteps'],
+  additionalProperties: false,
+};
+
+/**
+ * Parse a model reply as JSON, tolerating markdown code fences and prose
+ * around the object, then check it against the schema.
+ */
+export function parseModelJson<T>(reply: string, schema: JsonSchema): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(reply));
+  } catch (error) {
+    return { value: null, errors: [`Reply is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const errors = validateAgainstSchema(parsed, schema, '$');
+  return errors.length === 0 ? { value: parsed as T, errors } : { value: null, errors };
+}
+
+/**
+ * Gemini's responseSchema takes an OpenAPI subset without additionalProperties.
+ */
+export function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  if (schema.type === 'object') {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)])
+      ),
+      required: schema.required,
+    };
+  }
+  if (schema.type === 'array') {
+    return { type: 'array', items: toGeminiSchema(schema.items) };
+  }
+  return { type: schema.type };
+}
+
+function extractJson(reply: string): string {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : reply).trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string): string[] {
+  if (schema.type === 'string') {
+    return typeof value === 'string' ? [] : [`${path} must be a string`];
+  }
+
+  if (schema.type === 'boolean') {
+    return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+  }
+
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) return [`${path} must be an array`];
+    return value.flatMap((item, index) => validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${path} must be an object`];
+  }
+  const record = value as Record<string, unknown>;
+  const errors = schema.required
+    .filter(name => !(name in record))
+    .map(name => `${path}.${name} is missing`);
+  for (const [name, property] of Object.entries(schema.properties)) {
+    if (name in record) {
+      errors.push(...validateAgainstSchema(record[name], property, `${path}.${name}`));
+    }
+  }
+  return errors;
+}
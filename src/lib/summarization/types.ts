@@ -0,0 +1,85 @@
+import type { ApiCredentials } from '@/lib/credentials';
+import type { JsonSchema } from '@/lib/summarization/schema';
+import type { SummaryDraft, TranscriptSegment } from '@/lib/types';
+
+// The parts of a segment a summary can cite
+export type SummarySegment = Pick<TranscriptSegment, 'speaker' | 'start' | 'end' | 'text'>;
+
+/**
+ * What a summary is made from. Speakers and duration are optional context
+ * the prompt uses when the transcript has them.
+ */
+export interface SummaryInput {
+  text: string;
+  // Speaker labels that appear in the transcript, e.g. Pharmacist and Patient
+  speakers?: string[];
+  // Length of the consultation in seconds
+  duration?: number;
+  // The transcript as timed segments, so summary items can cite where they came from
+  segments?: SummarySegment[];
+  // ISO 639-1 code the summary is written in
+  outputLanguage: string;
+  // ISO 639-1 code for the optional take-home copy
+  patientLanguage?: string;
+}
+
+/**
+ * The JSON shape a reply must have, by name for providers that take one.
+ */
+export interface ReplyFormat {
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  format: ReplyFormat;
+  // Aborted when the user cancels, so the provider stops generating
+  signal?: AbortSignal;
+}
+
+/**
+ * Hooks for following a summary while it is written, as the streaming route does.
+ */
+export interface SummaryProgress {
+  signal?: AbortSignal;
+  // Called as each summarizer in the failover chain starts, retries included
+  onAttempt?: (summarizer: SummarizerProvider) => void;
+  // The sections parsed so far from a streamed reply
+  onDraft?: (draft: SummaryDraft) => void;
+}
+
+export interface SummarizerInfo {
+  id: string;
+  label: string;
+  description: string;
+  setupHint?: string;
+  configured: boolean;
+}
+
+export interface SummarizerProvider {
+  id: string;
+  label: string;
+  description: string;
+  // Shown under the summarizer in Settings when it needs extra setup
+  setupHint?: string;
+  isConfigured(credentials: ApiCredentials): boolean;
+  // Raw reply text; validation and repair happen in one place for every provider
+  complete(request: CompletionRequest, credentials: ApiCredentials): Promise<string>;
+  // The same reply in pieces as it is generated; summarizers without it are read with complete()
+  stream?(request: CompletionRequest, credentials: ApiCredentials): AsyncIterable<string>;
+}
+
+/**
+ * Thrown by providers with a message that can be shown to the user as-is.
+ */
+export class SummarizerError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SummarizerError';
+    this.status = status;
+  }
+}
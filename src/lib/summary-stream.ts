@@ -0,0 +1,110 @@
+import type { SummarySegment } from '@/lib/summarization/types';
+import type { NoteTemplate } from '@/lib/templates';
+import type { SummaryData, SummaryDraft, SummaryStreamEvent, TranscriptSegment } from '@/lib/types';
+
+export interface SummaryRequest {
+  text: string;
+  speakers?: string[];
+  duration?: number;
+  segments?: SummarySegment[];
+  summarizer: string;
+  outputLanguage: string;
+  patientLanguage?: string;
+  // Id of a note template from /api/templates; empty for the default
+  template?: string;
+}
+
+/**
+ * Generate a summary through /api/summarize/stream, passing each draft to
+ * `onDraft` as it arrives, laid out in the note template. Resolves with the
+ * validated summary; aborting `signal` cancels generation on the server too.
+ */
+export async function streamSummary(
+  request: SummaryRequest,
+  onDraft: (draft: SummaryData) => void,
+  signal: AbortSignal
+): Promise<SummaryData> {
+  // The server fails over to its configured fallbacks on its own
+  const response = await fetch('/api/summarize/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Summary generation failed');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let template: NoteTemplate | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+
+    // Events end with a blank line; the last piece may still be arriving
+    const messages = buffered.split('\n\n');
+    buffered = messages.pop() ?? '';
+
+    for (const message of messages) {
+      if (!message.startsWith('data: ')) continue;
+      const event: SummaryStreamEvent = JSON.parse(message.slice('data: '.length));
+
+      if (event.type === 'template') {
+        template = event.template;
+        onDraft(summaryFromDraft({}, template));
+      } else if (event.type === 'attempt') {
+        if (template) onDraft(summaryFromDraft({}, template));
+      } else if (event.type === 'draft') {
+        if (template) onDraft(summaryFromDraft(event.draft, template));
+      } else if (event.type === 'summary') {
+        reader.cancel();
+        return event.summary;
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+    }
+  }
+
+  throw new Error('Summary generation ended without a summary. Please try again.');
+}
+
+/**
+ * The segment fields a summary cites, without word timings and confidences.
+ */
+export function summarySegments(segments: TranscriptSegment[]): SummarySegment[] {
+  return segments.map(({ speaker, start, end, text }) => ({ speaker, start, end, text }));
+}
+
+/**
+ * A draft shown as a summary, with the sections that haven't started left empty.
+ */
+function summaryFromDraft(draft: SummaryDraft, template: NoteTemplate): SummaryData {
+  return {
+    template,
+    sections: Object.fromEntries(
+      template.sections.map(section => [section.id, draft[section.id] ?? (section.type === 'text' ? '' : [])])
+    ),
+  };
+}
+
+/**
+ * A shorter message for an alert than the server's, for the common failures.
+ */
+export function describeSummaryError(error: unknown): string {
+  if (error instanceof Error) {
+    if (error.message.includes('quota') || error.message.includes('429')) {
+      return 'API quota exceeded. Please check your billing or try a different provider.';
+    } else if (error.message.includes('API key')) {
+      return 'API key not configured. Please check your settings.';
+    } else if (error.message.includes('SERVICE_DISABLED') || error.message.includes('Generative Language API')) {
+      return 'Google Gemini API not enabled. Please enable it in Google Cloud Console or try using OpenAI instead.';
+    } else if (error.message.includes('network')) {
+      return 'Network error. Please check your internet connection.';
+    }
+  }
+  return 'Error generating summary. Please try again.';
+}
@@ -0,0 +1,19 @@
+import { readJsonFile, writeJsonFile } from '@/lib/data-store';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, findTemplate, NoteTemplate } from '@/lib/templates';
+
+const TEMPLATES_FILE = 'templates';
+
+// Until someone edits them, the templates are the built-in ones
+export async function loadTemplates(): Promise<NoteTemplate[]> {
+  return readJsonFile<NoteTemplate[]>(TEMPLATES_FILE, BUILT_IN_TEMPLATES);
+}
+
+export async function saveTemplates(templates: NoteTemplate[]) {
+  await writeJsonFile(TEMPLATES_FILE, templates);
+}
+
+// A template removed since it was picked in Settings falls back to the default
+export async function getTemplate(id: string | undefined): Promise<NoteTemplate | undefined> {
+  const templates = await loadTemplates();
+  return findTemplate(templates, id) ?? findTemplate(templates, DEFAULT_TEMPLATE_ID) ?? templates[0];
+}
@@ -0,0 +1,358 @@
+export const SECTION_TYPES = ['text', 'list', 'medications', 'allergies'] as const;
+
+export type SectionType = typeof SECTION_TYPES[number];
+
+export const SECTION_COLORS = ['blue', 'green', 'purple', 'orange', 'indigo', 'teal', 'red', 'gray'] as const;
+
+export type SectionColor = typeof SECTION_COLORS[number];
+
+export const SECTION_TYPE_LABELS: Record<SectionType, string> = {
+  text: 'Paragraph',
+  list: 'Bulleted list',
+  medications: 'Medication list',
+  allergies: 'Allergy list',
+};
+
+/**
+ * One part of a note: what the summarizer writes there and how it is shown.
+ */
+export interface TemplateSection {
+  // Key of the section in the summarizer's JSON reply
+  id: string;
+  title: string;
+  type: SectionType;
+  // Tells the summarizer what belongs in this section
+  instructions: string;
+  color: SectionColor;
+  // Spans both columns of the summary view instead of one
+  fullWidth?: boolean;
+}
+
+/**
+ * A kind of clinical note, e.g. a SOAP note or an MTM takeaway, filled in by
+ * the summarizer from the consultation transcript.
+ */
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Guidance for the whole note, added to the prompt after the sections
+  instructions: string;
+  sections: TemplateSection[];
+}
+
+export const DEFAULT_TEMPLATE_ID = 'consultation-summary';
+
+// Section ids become JSON keys in the reply schema
+const SECTION_ID_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
+const MAX_SECTIONS = 12;
+
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Consultation Summary',
+    description: 'Topics, medications, follow-ups, concerns and advice from a counseling visit',
+    instructions: 'Note any side effects, allergies, or drug interactions mentioned, and include refill requests or follow-up actions.',
+    sections: [
+      { id: 'keyTopics', title: 'Key Topics', type: 'list', instructions: 'Main topics discussed', color: 'blue' },
+      {
+        id: 'medications',
+        title: 'Medications Mentioned',
+        type: 'medications',
+        instructions: 'Every medication mentioned, with dosage and frequency when stated',
+        color: 'green',
+      },
+      {
+        id: 'allergies',
+        title: 'Allergies',
+        type: 'allergies',
+        instructions: 'Every drug or other allergy mentioned with its reaction and severity, and any allergy the patient denied',
+        color: 'red',
+      },
+      { id: 'actionItems', title: 'Action Items', type: 'list', instructions: 'Follow-up actions, refills and referrals', color: 'purple' },
+      {
+        id: 'patientConcerns',
+        title: 'Patient Concerns',
+        type: 'list',
+        instructions: 'Concerns and questions raised by the patient',
+        color: 'orange',
+      },
+      {
+        id: 'pharmacistRecommendations',
+        title: 'Pharmacist Recommendations',
+        type: 'list',
+        instructions: 'Advice given by the pharmacist',
+        color: 'indigo',
+        fullWidth: true,
+      },
+    ],
+  },
+  {
+    id: 'soap',
+    name: 'SOAP Note',
+    description: 'Subjective, objective, assessment and plan for clinical services',
+    instructions: 'Write in clinical shorthand suitable for the patient record. Put only what the patient reports under Subjective and only measurements, observations and records under Objective.',
+    sections: [
+      {
+        id: 'subjective',
+        title: 'Subjective',
+        type: 'list',
+        instructions: 'Chief complaint, symptoms, history and adherence as reported by the patient',
+        color: 'blue',
+      },
+      {
+        id: 'objective',
+        title: 'Objective',
+        type: 'list',
+        instructions: 'Vitals, lab values, observations and dispensing records mentioned',
+        color: 'teal',
+      },
+      {
+        id: 'medications',
+        title: 'Current Medications',
+        type: 'medications',
+        instructions: 'Medications the patient is taking or was prescribed',
+        color: 'green',
+      },
+      {
+        id: 'allergies',
+        title: 'Allergies',
+        type: 'allergies',
+        instructions: 'Allergies and intolerances with reaction and severity, or no known allergies',
+        color: 'red',
+      },
+      {
+        id: 'assessment',
+        title: 'Assessment',
+        type: 'list',
+        instructions: 'Drug therapy problems the pharmacist identified and their likely causes',
+        color: 'orange',
+      },
+      {
+        id: 'plan',
+        title: 'Plan',
+        type: 'list',
+        instructions: 'Interventions, counseling given, prescriber contacts, monitoring and follow-up',
+        color: 'indigo',
+        fullWidth: true,
+      },
+    ],
+  },
+  {
+    id: 'mtm',
+    name: 'MTM Takeaway',
+    description: 'CMS-style recap, medication action plan and personal medication list',
+    instructions: 'This is the patient takeaway from a comprehensive medication review. Write the recap and action plan to the patient as "you", in plain words.',
+    sections: [
+      {
+        id: 'recap',
+        title: 'Review Recap',
+        type: 'text',
+        instructions: 'A short letter-style recap of what was reviewed and why',
+        color: 'blue',
+        fullWidth: true,
+      },
+      {
+        id: 'actionPlan',
+        title: 'Medication Action Plan',
+        type: 'list',
+        instructions: 'Each thing the patient agreed to do, written as "What I need to do"',
+        color: 'purple',
+      },
+      {
+        id: 'questions',
+        title: 'Questions for My Prescriber',
+        type: 'list',
+        instructions: 'Questions or problems to raise with the prescriber',
+        color: 'orange',
+      },
+      {
+        id: 'medicationList',
+        title: 'Personal Medication List',
+        type: 'medications',
+        instructions: 'Every medication, vitamin and supplement, with how to take it and what it is for in the notes',
+        color: 'green',
+        fullWidth: true,
+      },
+      {
+        id: 'allergies',
+        title: 'Allergies and Side Effects',
+        type: 'allergies',
+        instructions: 'Medicines the patient is allergic to or should avoid, with what happened',
+        color: 'red',
+        fullWidth: true,
+      },
+    ],
+  },
+  {
+    id: 'immunization',
+    name: 'Immunization Screening',
+    description: 'Vaccine screening answers, contraindications and administration',
+    instructions: 'Record screening answers as stated. Flag any answer that is a contraindication or precaution; do not decide eligibility yourself.',
+    sections: [
+      {
+        id: 'vaccines',
+        title: 'Vaccines Requested or Given',
+        type: 'medications',
+        instructions: 'Each vaccine, with dose, route or site in the dosage and lot or manufacturer in the notes when said',
+        color: 'teal',
+      },
+      {
+        id: 'screening',
+        title: 'Screening Answers',
+        type: 'list',
+        instructions: 'Answers about illness today, prior reactions, pregnancy, immunosuppression and recent vaccines',
+        color: 'blue',
+      },
+      {
+        id: 'allergies',
+        title: 'Allergies',
+        type: 'allergies',
+        instructions: 'Allergies to vaccine components, latex, eggs or medications, and prior vaccine reactions, or no known allergies',
+        color: 'red',
+      },
+      {
+        id: 'contraindications',
+        title: 'Contraindications and Precautions',
+        type: 'list',
+        instructions: 'Answers that may rule out or delay a vaccine',
+        color: 'red',
+      },
+      {
+        id: 'education',
+        title: 'Education and Consent',
+        type: 'list',
+        instructions: 'Vaccine information statements given, side effects discussed and consent',
+        color: 'purple',
+      },
+      {
+        id: 'followUp',
+        title: 'Follow-up',
+        type: 'list',
+        instructions: 'Next doses due, observation period and reporting instructions',
+        color: 'indigo',
+        fullWidth: true,
+      },
+    ],
+  },
+  {
+    id: 'counseling-checklist',
+    name: 'Counseling Checklist',
+    description: 'Points covered when counseling on new or changed prescriptions',
+    instructions: 'Only list points the pharmacist actually covered; leave a section empty rather than guess.',
+    sections: [
+      {
+        id: 'medications',
+        title: 'Medications Counseled',
+        type: 'medications',
+        instructions: 'Each medication counseled on, with dosage and frequency',
+        color: 'green',
+      },
+      {
+        id: 'allergies',
+        title: 'Allergies Checked',
+        type: 'allergies',
+        instructions: 'Allergies confirmed or denied during counseling',
+        color: 'red',
+      },
+      {
+        id: 'counselingPoints',
+        title: 'Points Covered',
+        type: 'list',
+        instructions: 'Purpose, directions, missed doses, side effects, interactions, storage and refills as discussed',
+        color: 'blue',
+      },
+      {
+        id: 'patientQuestions',
+        title: 'Patient Questions',
+        type: 'list',
+        instructions: 'Questions the patient asked and how they were answered',
+        color: 'orange',
+      },
+      {
+        id: 'teachBack',
+        title: 'Teach-back',
+        type: 'text',
+        instructions: 'How the patient showed they understood, or what needed repeating',
+        color: 'purple',
+        fullWidth: true,
+      },
+    ],
+  },
+];
+
+/**
+ * Validate a template list from the editor, trimming text and dropping blank
+ * optional fields. The default template must stay, since summaries without a
+ * template fall back to it. Throws with a message fit for the user.
+ */
+export function parseTemplates(input: unknown): NoteTemplate[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('Templates must be a list with at least one template');
+  }
+
+  const ids = new Set<string>();
+  const templates = input.map((entry, index) => {
+    const { id, name, description, instructions, sections } = (entry || {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !id.trim() || typeof name !== 'string' || !name.trim()) {
+      throw new Error(`Template ${index + 1} needs an id and a name`);
+    }
+    if (ids.has(id.trim())) {
+      throw new Error(`Template id "${id.trim()}" is used twice`);
+    }
+    ids.add(id.trim());
+
+    return {
+      id: id.trim(),
+      name: name.trim(),
+      description: typeof description === 'string' ? description.trim() : '',
+      instructions: typeof instructions === 'string' ? instructions.trim() : '',
+      sections: parseSections(sections, name.trim()),
+    };
+  });
+
+  if (!ids.has(DEFAULT_TEMPLATE_ID)) {
+    throw new Error(`The default template (${DEFAULT_TEMPLATE_ID}) can't be removed`);
+  }
+  return templates;
+}
+
+export function findTemplate(templates: NoteTemplate[], id: string | undefined): NoteTemplate | undefined {
+  return templates.find(template => template.id === (id || DEFAULT_TEMPLATE_ID));
+}
+
+function parseSections(input: unknown, templateName: string): TemplateSection[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error(`${templateName} needs at least one section`);
+  }
+  if (input.length > MAX_SECTIONS) {
+    throw new Error(`${templateName} has more than ${MAX_SECTIONS} sections`);
+  }
+
+  const ids = new Set<string>();
+  return input.map((entry, index) => {
+    const { id, title, type, instructions, color, fullWidth } = (entry || {}) as Record<string, unknown>;
+    if (typeof title !== 'string' || !title.trim()) {
+      throw new Error(`Section ${index + 1} of ${templateName} needs a title`);
+    }
+    if (typeof id !== 'string' || !SECTION_ID_PATTERN.test(id)) {
+      throw new Error(`"${title.trim()}" in ${templateName} needs a key of letters and numbers, starting with a letter`);
+    }
+    if (ids.has(id)) {
+      throw new Error(`Section key "${id}" is used twice in ${templateName}`);
+    }
+    ids.add(id);
+    if (!SECTION_TYPES.includes(type as SectionType)) {
+      throw new Error(`Unknown section type for "${title.trim()}" in ${templateName}`);
+    }
+
+    return {
+      id,
+      title: title.trim(),
+      type: type as SectionType,
+      instructions: typeof instructions === 'string' ? instructions.trim() : '',
+      color: SECTION_COLORS.includes(color as SectionColor) ? (color as SectionColor) : 'gray',
+      ...(fullWidth === true ? { fullWidth: true } : {}),
+    };
+  });
+}
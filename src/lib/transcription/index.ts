@@ -0,0 +1,107 @@
+import { preprocessAudio, PreparedAudio, sliceAudio } from '@/lib/audio';
+import { assignSpeakerRoles } from '@/lib/diarization';
+import { failoverChain, runWithFailover } from '@/lib/failover';
+import { getTranscriptionProvider } from '@/lib/transcription/registry';
+import { TranscriptionData, TranscriptSegment } from '@/lib/types';
+import { TranscribeOptions, TranscriptionProvider, TranscriptionRun } from '@/lib/transcription/types';
+import { keepWindowSegments, WINDOW_OVERLAP_SECONDS } from '@/lib/transcription/windows';
+
+export { TranscriptionError } from '@/lib/transcription/types';
+export type { TranscriptionProvider, TranscriptionProviderInfo, ProviderCapabilities, TranscriptionRun } from '@/lib/transcription/types';
+export { getTranscriptionProvider, listTranscriptionProviders, DEFAULT_TRANSCRIPTION_PROVIDER } from '@/lib/transcription/registry';
+
+// One provider gets this long for a whole recording before the next is tried
+const PROVIDER_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * `transcribeAudio` with the fallback providers listed in TRANSCRIPTION_FAILOVER,
+ * skipping any that aren't configured. The result names the provider that
+ * served it and the attempts made.
+ */
+export async function transcribeWithFailover(
+  provider: TranscriptionProvider,
+  audio: Buffer,
+  options: TranscribeOptions,
+  run: TranscriptionRun = {}
+): Promise<TranscriptionData> {
+  const chain = failoverChain(provider.id, process.env.TRANSCRIPTION_FAILOVER)
+    .map(id => (id === provider.id ? provider : getTranscriptionProvider(id)))
+    .filter((candidate): candidate is TranscriptionProvider => !!candidate && candidate.isConfigured(options.credentials));
+  const byId = new Map(chain.map(candidate => [candidate.id, candidate]));
+
+  const { result, attempts } = await runWithFailover(
+    chain,
+    id => transcribeAudio(byId.get(id) as TranscriptionProvider, audio, options, run),
+    PROVIDER_TIMEOUT_MS
+  );
+  return { ...result, attempts };
+}
+
+/**
+ * Run an uploaded recording through preprocessing and the given provider.
+ * Audio longer than the provider's max duration is sent in overlapping windows
+ * and stitched back onto one timeline.
+ */
+export async function transcribeAudio(
+  provider: TranscriptionProvider,
+  audio: Buffer,
+  options: TranscribeOptions,
+  run: TranscriptionRun = {}
+): Promise<TranscriptionData> {
+  const prepared = await preprocessAudio(audio);
+  const maxDuration = provider.capabilities.maxDurationSeconds;
+
+  if (!maxDuration || !prepared.samples || prepared.duration <= maxDuration) {
+    run.signal?.throwIfAborted();
+    run.onProgress?.(0, 1);
+    const result = await provider.transcribe(prepared, options);
+    run.onProgress?.(1, 1);
+    return {
+      text: result.text,
+      duration: result.duration,
+      segments: assignSpeakerRoles(result.segments),
+      provider: provider.id,
+    };
+  }
+
+  const segments = await transcribeInWindows(provider, prepared, maxDuration, options, run);
+
+  return {
+    text: segments.map(segment => segment.text).join(' '),
+    duration: prepared.duration,
+    segments,
+    provider: provider.id,
+  };
+}
+
+async function transcribeInWindows(
+  provider: TranscriptionProvider,
+  prepared: PreparedAudio,
+  windowSeconds: number,
+  options: TranscribeOptions,
+  run: TranscriptionRun
+): Promise<TranscriptSegment[]> {
+  const step = windowSeconds - WINDOW_OVERLAP_SECONDS;
+  const offsets: number[] = [];
+  for (let offset = 0; offset < prepared.duration; offset += step) {
+    offsets.push(offset);
+    if (offset + windowSeconds >= prepared.duration) break;
+  }
+
+  const segments: TranscriptSegment[] = [];
+
+  for (let index = 0; index < offsets.length; index++) {
+    run.signal?.throwIfAborted();
+    run.onProgress?.(index, offsets.length);
+    const offset = offsets[index];
+    const result = await provider.transcribe(sliceAudio(prepared, offset, offset + windowSeconds), options);
+
+    // Speaker tags only mean something within one call, so roles are guessed
+    // afresh for each window and may not agree across a boundary
+    const nextOffset = index < offsets.length - 1 ? offsets[index + 1] : null;
+    segments.push(...keepWindowSegments(assignSpeakerRoles(result.segments), offset, index === 0, nextOffset));
+  }
+
+  run.onProgress?.(offsets.length, offsets.length);
+  return segments;
+}
@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { TranscriptionJob } from '@/lib/types';
+import { FailoverError } from '@/lib/failover';
+import { transcribeWithFailover } from '@/lib/transcription';
+import { TranscribeOptions, TranscriptionError, TranscriptionProvider } from '@/lib/transcription/types';
+
+// Same limit the dropzone checks before uploading
+export const MAX_JOB_AUDIO_BYTES = 50 * 1024 * 1024;
+
+// Provider calls are mostly waiting on the network, but preprocessing runs ffmpeg
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.TRANSCRIPTION_JOB_CONCURRENCY) || 2);
+// Finished jobs stay around this long so a reopened tab can still collect the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+// Jobs whose upload never completed are dropped after this
+const STALLED_UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface JobEntry {
+  job: TranscriptionJob;
+  provider: TranscriptionProvider;
+  options: TranscribeOptions;
+  // Held from upload until the worker picks the job up
+  chunks: Buffer[];
+  controller: AbortController;
+}
+
+// Kept on globalThis so jobs survive module reloads in development
+const globalForJobs = globalThis as unknown as {
+  transcriptionJobs?: { entries: Map<string, JobEntry>; queue: string[]; running: number };
+};
+const state = globalForJobs.transcriptionJobs ?? { entries: new Map<string, JobEntry>(), queue: [], running: 0 };
+globalForJobs.transcriptionJobs = state;
+
+/**
+ * Create a job waiting for its audio. It is queued once the upload completes.
+ */
+export function createTranscriptionJob(
+  provider: TranscriptionProvider,
+  options: TranscribeOptions,
+  totalBytes: number | null
+): TranscriptionJob {
+  dropExpiredJobs();
+
+  const now = Date.now();
+  const entry: JobEntry = {
+    job: {
+      id: randomUUID(),
+      status: 'uploading',
+      provider: provider.id,
+      receivedBytes: 0,
+      totalBytes,
+      completedWindows: 0,
+      totalWindows: 0,
+      createdAt: now,
+      updatedAt: now,
+    },
+    provider,
+    options,
+    chunks: [],
+    controller: new AbortController(),
+  };
+
+  state.entries.set(entry.job.id, entry);
+  return entry.job;
+}
+
+export function getTranscriptionJob(id: string): TranscriptionJob | undefined {
+  return state.entries.get(id)?.job;
+}
+
+/**
+ * Read the uploaded audio for a job, recording progress as it arrives, then
+ * queue the job for the worker.
+ */
+export async function receiveJobAudio(id: string, body: ReadableStream<Uint8Array>) {
+  const entry = state.entries.get(id);
+  if (!entry) {
+    throw new TranscriptionError('Transcription job not found', 404);
+  }
+  if (entry.job.status !== 'uploading' || entry.chunks.length > 0) {
+    throw new TranscriptionError('Audio has already been uploaded for this job', 409);
+  }
+
+  const reader = body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (entry.controller.signal.aborted) {
+      await reader.cancel();
+      throw new TranscriptionError('Transcription job was cancelled', 409);
+    }
+
+    entry.chunks.push(Buffer.from(value));
+    update(entry, { receivedBytes: entry.job.receivedBytes + value.length });
+
+    if (entry.job.receivedBytes > MAX_JOB_AUDIO_BYTES) {
+      await reader.cancel();
+      fail(entry, 'Audio file is larger than 50MB');
+      throw new TranscriptionError('Audio file is larger than 50MB', 413);
+    }
+  }
+
+  if (entry.job.receivedBytes === 0) {
+    fail(entry, 'No audio file provided');
+    throw new TranscriptionError('No audio file provided', 400);
+  }
+
+  queue(entry);
+}
+
+/**
+ * Queue a job with audio that is already on the server, e.g. from a finished
+ * resumable upload.
+ */
+export function attachJobAudio(id: string, audio: Buffer) {
+  const entry = state.entries.get(id);
+  if (!entry) {
+    throw new TranscriptionError('Transcription job not found', 404);
+  }
+  if (entry.job.status !== 'uploading' || entry.chunks.length > 0) {
+    throw new TranscriptionError('Audio has already been uploaded for this job', 409);
+  }
+
+  entry.chunks = [audio];
+  update(entry, { receivedBytes: audio.length, totalBytes: audio.length });
+  queue(entry);
+}
+
+/**
+ * Stop a job wherever it is. A provider call already in flight finishes, but
+ * its result is discarded.
+ */
+export function cancelTranscriptionJob(id: string) {
+  const entry = state.entries.get(id);
+  if (!entry) return;
+
+  entry.controller.abort();
+  entry.chunks = [];
+  state.entries.delete(id);
+  state.queue = state.queue.filter(queued => queued !== id);
+}
+
+function queue(entry: JobEntry) {
+  update(entry, { status: 'queued' });
+  state.queue.push(entry.job.id);
+  runQueuedJobs();
+}
+
+/**
+ * The worker loop: start queued jobs until the concurrency limit is reached,
+ * and come back for more whenever one finishes.
+ */
+function runQueuedJobs() {
+  while (state.running < JOB_CONCURRENCY && state.queue.length > 0) {
+    const entry = state.entries.get(state.queue.shift()!);
+    if (!entry) continue;
+
+    state.running++;
+    processJob(entry).finally(() => {
+      state.running--;
+      runQueuedJobs();
+    });
+  }
+}
+
+async function processJob(entry: JobEntry) {
+  const audio = Buffer.concat(entry.chunks);
+  entry.chunks = [];
+  update(entry, { status: 'transcribing' });
+
+  try {
+    const result = await transcribeWithFailover(entry.provider, audio, entry.options, {
+      signal: entry.controller.signal,
+      onProgress: (completed, total) => update(entry, { completedWindows: completed, totalWindows: total }),
+    });
+    if (entry.controller.signal.aborted) return;
+
+    update(entry, { status: 'done', result });
+  } catch (error) {
+    if (entry.controller.signal.aborted) return;
+
+    console.error('Transcription job error:', error);
+    const cause = error instanceof FailoverError ? error.lastError : error;
+    fail(entry, cause instanceof TranscriptionError ? cause.message : 'Transcription failed. Please try again.');
+  }
+}
+
+function update(entry: JobEntry, changes: Partial<TranscriptionJob>) {
+  entry.job = { ...entry.job, ...changes, updatedAt: Date.now() };
+}
+
+function fail(entry: JobEntry, message: string) {
+  entry.chunks = [];
+  update(entry, { status: 'failed', error: message });
+}
+
+function dropExpiredJobs() {
+  const now = Date.now();
+  state.entries.forEach((entry, id) => {
+    const { status, updatedAt } = entry.job;
+    if (
+      ((status === 'done' || status === 'failed') && now - updatedAt > FINISHED_JOB_TTL_MS) ||
+      (status === 'uploading' && now - updatedAt > STALLED_UPLOAD_TIMEOUT_MS)
+    ) {
+      cancelTranscriptionJob(id);
+    }
+  });
+}
@@ -0,0 +1,150 @@
+import { encodeWav16, PreparedAudio } from '@/lib/audio';
+import { groupWordsIntoSegments } from '@/lib/diarization';
+import { GoogleSpeechError, recognizeLongAudio } from '@/lib/google-speech';
+import { AUTO_DETECT_LANGUAGE, baseLanguage, TRANSCRIPTION_LANGUAGES } from '@/lib/languages';
+import { TranscriptionError, TranscriptionProvider } from '@/lib/transcription/types';
+import { toSpeechContexts } from '@/lib/vocabulary';
+
+// Google detects among a primary language and up to three alternatives, tagging each utterance
+const AUTO_DETECT_LANGUAGES = (process.env.GOOGLE_AUTO_DETECT_LANGUAGES || 'en-US,es-US,cmn-Hans-CN,vi-VN')
+  .split(',')
+  .map(code => code.trim())
+  .filter(Boolean);
+
+export const googleProvider: TranscriptionProvider = {
+  id: 'google',
+  label: 'Google Speech-to-Text',
+  description: 'Free tier available, $0.006/minute',
+  capabilities: {
+    // Long-running recognition plus PCM segmentation handles any length
+    maxDurationSeconds: null,
+    diarization: true,
+    wordTimings: true,
+    languages: TRANSCRIPTION_LANGUAGES.map(language => language.code),
+    languageDetection: true,
+  },
+
+  isConfigured(credentials) {
+    return Boolean(credentials.googleApiKey);
+  },
+
+  async transcribe(audio, options) {
+    if (!options.credentials.googleApiKey) {
+      throw new TranscriptionError('Google API key not configured', 500);
+    }
+
+    const { content, encodingConfig } = toGoogleAudio(audio);
+    const autoDetect = options.language === AUTO_DETECT_LANGUAGE;
+    const languageCode = autoDetect ? AUTO_DETECT_LANGUAGES[0] : options.language;
+
+    try {
+      const result = await recognizeLongAudio(
+        content,
+        {
+          ...encodingConfig,
+          languageCode,
+          ...(autoDetect ? { alternativeLanguageCodes: AUTO_DETECT_LANGUAGES.slice(1, 4) } : {}),
+          enableWordTimeOffsets: true,
+          enableAutomaticPunctuation: true,
+          enableWordConfidence: true,
+          // Extra hypotheses are offered as replacements when reviewing low-confidence words
+          maxAlternatives: 3,
+          model: 'latest_long',
+          speechContexts: toSpeechContexts(options.vocabulary),
+          diarizationConfig: {
+            enableSpeakerDiarization: true,
+            minSpeakerCount: 2,
+            maxSpeakerCount: 2,
+          },
+        },
+        options.credentials
+      );
+
+      if (!result.text) {
+        throw new TranscriptionError('No speech detected in the audio file.', 400);
+      }
+
+      let duration = audio.duration || result.duration;
+
+      // If no duration from words, estimate from audio file size and format
+      if (duration === 0) {
+        // Rough estimation: assume 16kbps bitrate for speech
+        duration = Math.max(Math.round(audio.original.length / (16000 / 8)), 1);
+      }
+
+      return {
+        text: result.text,
+        duration,
+        segments: groupWordsIntoSegments(
+          result.words.map(word => ({ ...word, language: baseLanguage(word.language || languageCode) }))
+        ),
+      };
+    } catch (error) {
+      throw toTranscriptionError(error);
+    }
+  },
+};
+
+/**
+ * Decoded audio goes up as 16kHz LINEAR16. Without a decoder, Opus and FLAC can
+ * still be sent as-is because Google accepts those encodings natively.
+ */
+function toGoogleAudio(audio: PreparedAudio) {
+  if (audio.samples) {
+    return {
+      content: encodeWav16(audio.samples, audio.sampleRate),
+      encodingConfig: { encoding: 'LINEAR16', sampleRateHertz: audio.sampleRate, audioChannelCount: 1 },
+    };
+  }
+
+  const { sniffed, original } = audio;
+  // Opus is always decoded at 48kHz regardless of the input rate recorded in the header
+  if (sniffed.codec === 'opus' && sniffed.container === 'webm') {
+    return { content: original, encodingConfig: { encoding: 'WEBM_OPUS', sampleRateHertz: 48000 } };
+  }
+  if (sniffed.codec === 'opus' && sniffed.container === 'ogg') {
+    return { content: original, encodingConfig: { encoding: 'OGG_OPUS', sampleRateHertz: 48000 } };
+  }
+  if (sniffed.container === 'flac') {
+    return { content: original, encodingConfig: { encoding: 'FLAC' } };
+  }
+
+  throw new TranscriptionError(
+    `${sniffed.container.toUpperCase()} audio (${sniffed.codec}) cannot be sent to Google Speech-to-Text without ffmpeg installed on the server.`,
+    415
+  );
+}
+
+function toTranscriptionError(error: unknown): Error {
+  if (error instanceof TranscriptionError) return error;
+
+  if (error instanceof GoogleSpeechError) {
+    if (error.status === 403) {
+      return new TranscriptionError('Google API key is invalid or quota exceeded. Please check your Google Cloud Console.', 403);
+    } else if (error.status === 413) {
+      return new TranscriptionError('Audio file is too large to send in one request. Upload a WAV file, or install ffmpeg on the server so recordings can be converted and split into segments.', 413);
+    } else if (error.status === 504) {
+      return new TranscriptionError('Google Speech-to-Text took too long to process the audio. Please try again.', 504);
+    } else if (error.status === 400) {
+      // Provide more specific error messages for audio format issues
+      if (error.message.includes('sample_rate') || error.message.includes('encoding')) {
+        return new TranscriptionError('Audio format issue. Please try recording again or upload a different audio file.', 400);
+      } else if (error.message.includes('audio')) {
+        return new TranscriptionError('Invalid audio file. Please ensure the file contains speech and is not corrupted.', 400);
+      }
+      return new TranscriptionError('Invalid audio format. Please try a different audio file.', 400);
+    }
+    return new TranscriptionError('Google Speech-to-Text failed. Please try again.', 500);
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('API key')) {
+      return new TranscriptionError('Invalid Google API key. Please check your configuration.', 401);
+    } else if (error.message.includes('quota')) {
+      return new TranscriptionError('Google API quota exceeded. Please check your billing.', 429);
+    }
+    return error;
+  }
+
+  return new TranscriptionError('Google transcription failed. Please try again.', 500);
+}
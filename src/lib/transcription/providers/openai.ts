@@ -0,0 +1,151 @@
+import OpenAI from 'openai';
+import type { TranscriptionSegment, TranscriptionWord } from 'openai/resources/audio/transcriptions';
+import { encodeOggOpus, encodeWav16, PreparedAudio } from '@/lib/audio';
+import { attachWordsToSegments, diarizeTimedSegments, TimedText } from '@/lib/diarization';
+import { AUTO_DETECT_LANGUAGE, baseLanguage, languageFromName, TRANSCRIPTION_LANGUAGES } from '@/lib/languages';
+import { TranscriptionError, TranscriptionProvider } from '@/lib/transcription/types';
+import { TranscriptWord } from '@/lib/types';
+import { toWhisperPrompt } from '@/lib/vocabulary';
+
+// Whisper rejects uploads above 25MB
+const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+
+export const openaiProvider: TranscriptionProvider = {
+  id: 'openai',
+  label: 'OpenAI Whisper',
+  description: 'High accuracy, $0.006/minute',
+  capabilities: {
+    // 10 minutes of 16kHz WAV stays under the 25MB upload limit
+    maxDurationSeconds: 600,
+    diarization: true,
+    wordTimings: true,
+    languages: TRANSCRIPTION_LANGUAGES.map(language => language.code),
+    languageDetection: true,
+  },
+
+  isConfigured(credentials) {
+    return Boolean(credentials.openaiApiKey);
+  },
+
+  async transcribe(audio, options) {
+    if (!options.credentials.openaiApiKey) {
+      throw new TranscriptionError('OpenAI API key not configured', 500);
+    }
+
+    const openai = new OpenAI({ apiKey: options.credentials.openaiApiKey });
+    const file = await toWhisperFile(audio);
+
+    try {
+      const transcription = await openai.audio.transcriptions.create({
+        file,
+        model: 'whisper-1',
+        prompt: toWhisperPrompt(options.vocabulary),
+        language: toWhisperLanguage(options.language),
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment'],
+      });
+
+      // Whisper has no diarization of its own, so run a pass over its timed segments
+      const speakerTurns = await diarizeTimedSegments(
+        openai,
+        'gpt-4o-mini',
+        withDetectedLanguage(transcription.segments || [], transcription.language, options.language)
+      );
+
+      return {
+        text: transcription.text,
+        duration: transcription.duration || audio.duration,
+        segments: attachWordsToSegments(
+          speakerTurns,
+          scoreWhisperWords(transcription.words || [], transcription.segments || [])
+        ),
+      };
+    } catch (error) {
+      throw toTranscriptionError(error);
+    }
+  },
+};
+
+/**
+ * Package prepared audio for a Whisper-style upload: 16kHz WAV when decoded,
+ * compressed if that would exceed the upload limit, or the original bytes.
+ */
+export async function toWhisperFile(audio: PreparedAudio): Promise<File> {
+  if (!audio.samples) {
+    if (audio.sniffed.container === 'unknown') {
+      throw new TranscriptionError('Unrecognised audio format. Please upload MP3, WAV, M4A, WebM or OGG audio.', 400);
+    }
+    return new File([new Uint8Array(audio.original)], `audio.${audio.sniffed.extension}`, { type: audio.sniffed.mimeType });
+  }
+
+  const wav = encodeWav16(audio.samples, audio.sampleRate);
+  if (wav.length <= WHISPER_MAX_BYTES) {
+    return new File([new Uint8Array(wav)], 'audio.wav', { type: 'audio/wav' });
+  }
+
+  const opus = await encodeOggOpus(wav);
+  if (!opus) {
+    throw new TranscriptionError('Audio is too long to send to Whisper as WAV and ffmpeg is not available to compress it.', 413);
+  }
+  return new File([new Uint8Array(opus)], 'audio.ogg', { type: 'audio/ogg' });
+}
+
+/**
+ * Whisper takes an ISO 639-1 code, or nothing to detect the language itself.
+ */
+export function toWhisperLanguage(language: string): string | undefined {
+  return language === AUTO_DETECT_LANGUAGE ? undefined : baseLanguage(language);
+}
+
+/**
+ * Whisper detects one language for the whole request; start every segment off
+ * with it until the diarization pass labels segments individually.
+ */
+export function withDetectedLanguage(
+  segments: TimedText[],
+  detected: string | undefined,
+  requested: string
+): TimedText[] {
+  const language = languageFromName(detected)
+    || (requested === AUTO_DETECT_LANGUAGE ? undefined : baseLanguage(requested));
+  return segments.map(segment => ({ start: segment.start, end: segment.end, text: segment.text, language }));
+}
+
+/**
+ * Whisper scores segments (average token log-probability), not words, so each
+ * word takes the score of the segment it falls in. Servers that do score words,
+ * such as faster-whisper, send a `probability` on each word, which wins.
+ */
+export function scoreWhisperWords(
+  words: Array<TranscriptionWord & { probability?: number }>,
+  segments: TranscriptionSegment[]
+): TranscriptWord[] {
+  return words.map(word => {
+    const segment = segments.find(candidate => word.start >= candidate.start && word.start < candidate.end);
+    const confidence = typeof word.probability === 'number'
+      ? word.probability
+      : segment && typeof segment.avg_logprob === 'number'
+        ? Math.exp(segment.avg_logprob)
+        : undefined;
+
+    return { word: word.word, start: word.start, end: word.end, confidence };
+  });
+}
+
+function toTranscriptionError(error: unknown): Error {
+  if (!(error instanceof Error)) {
+    return new TranscriptionError('Transcription failed. Please try again.', 500);
+  }
+
+  if (error.message.includes('API key')) {
+    return new TranscriptionError('Invalid OpenAI API key. Please check your configuration.', 401);
+  } else if (error.message.includes('insufficient_quota')) {
+    return new TranscriptionError('OpenAI API quota exceeded. Please add payment method or upgrade your plan at https://platform.openai.com/account/billing', 429);
+  } else if (error.message.includes('quota') || error.message.includes('429')) {
+    return new TranscriptionError('OpenAI API quota exceeded. Please check your billing and usage limits at https://platform.openai.com/account/usage', 429);
+  } else if (error.message.includes('file')) {
+    return new TranscriptionError('Invalid audio file format. Please try a different file.', 400);
+  }
+
+  return error;
+}
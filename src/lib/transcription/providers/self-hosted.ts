@@ -0,0 +1,83 @@
+import { attachWordsToSegments, diarizeTimedSegments, toUntaggedSegments } from '@/lib/diarization';
+import { TRANSCRIPTION_LANGUAGES } from '@/lib/languages';
+import { createSelfHostedClient, getSelfHostedConfig } from '@/lib/self-hosted';
+import {
+  scoreWhisperWords,
+  toWhisperFile,
+  toWhisperLanguage,
+  withDetectedLanguage,
+} from '@/lib/transcription/providers/openai';
+import { TranscriptionError, TranscriptionProvider } from '@/lib/transcription/types';
+import { toWhisperPrompt } from '@/lib/vocabulary';
+
+/**
+ * A whisper.cpp or faster-whisper server speaking the OpenAI transcription API.
+ * Audio never leaves the local network; the diarization pass uses the
+ * self-hosted LLM when one is configured and is skipped otherwise.
+ */
+export const selfHostedProvider: TranscriptionProvider = {
+  id: 'self-hosted',
+  label: 'Self-hosted Whisper',
+  description: 'OpenAI-compatible server on your own network',
+  capabilities: {
+    maxDurationSeconds: null,
+    diarization: Boolean(getSelfHostedConfig('llm')),
+    wordTimings: true,
+    languages: TRANSCRIPTION_LANGUAGES.map(language => language.code),
+    languageDetection: true,
+  },
+
+  isConfigured() {
+    return Boolean(getSelfHostedConfig('transcription'));
+  },
+
+  async transcribe(audio, options) {
+    const config = getSelfHostedConfig('transcription');
+    if (!config) {
+      throw new TranscriptionError('Self-hosted transcription server not configured', 500);
+    }
+
+    const file = await toWhisperFile(audio);
+
+    let transcription;
+    try {
+      transcription = await createSelfHostedClient(config).audio.transcriptions.create({
+        file,
+        model: config.model,
+        prompt: toWhisperPrompt(options.vocabulary),
+        language: toWhisperLanguage(options.language),
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment'],
+      });
+    } catch (error) {
+      console.error('Self-hosted transcription error:', error);
+      throw new TranscriptionError(
+        `Self-hosted transcription server at ${config.baseURL} failed. Check that it is running and serves model "${config.model}".`,
+        502
+      );
+    }
+
+    // Not every server returns segments or word timings; fall back to one untimed segment
+    const timedSegments = withDetectedLanguage(
+      transcription.segments?.length
+        ? transcription.segments
+        : [{ start: 0, end: transcription.duration || audio.duration, text: transcription.text }],
+      transcription.language,
+      options.language
+    );
+
+    const llm = getSelfHostedConfig('llm');
+    const speakerTurns = llm
+      ? await diarizeTimedSegments(createSelfHostedClient(llm), llm.model, timedSegments)
+      : toUntaggedSegments(timedSegments);
+
+    return {
+      text: transcription.text,
+      duration: transcription.duration || audio.duration,
+      segments: attachWordsToSegments(
+        speakerTurns,
+        scoreWhisperWords(transcription.words || [], transcription.segments || [])
+      ),
+    };
+  },
+};
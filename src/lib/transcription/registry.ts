@@ -0,0 +1,28 @@
+import { googleProvider } from '@/lib/transcription/providers/google';
+import { openaiProvider } from '@/lib/transcription/providers/openai';
+import { selfHostedProvider } from '@/lib/transcription/providers/self-hosted';
+import { TranscriptionProvider, TranscriptionProviderInfo } from '@/lib/transcription/types';
+import type { ApiCredentials } from '@/lib/credentials';
+
+// Order here is the order the settings panel lists providers in
+const providers: TranscriptionProvider[] = [
+  openaiProvider,
+  googleProvider,
+  selfHostedProvider,
+];
+
+export const DEFAULT_TRANSCRIPTION_PROVIDER = process.env.TRANSCRIPTION_PROVIDER || 'openai';
+
+export function getTranscriptionProvider(id: string): TranscriptionProvider | undefined {
+  return providers.find(provider => provider.id === id);
+}
+
+export function listTranscriptionProviders(credentials: ApiCredentials): TranscriptionProviderInfo[] {
+  return providers.map(provider => ({
+    id: provider.id,
+    label: provider.label,
+    description: provider.description,
+    capabilities: provider.capabilities,
+    configured: provider.isConfigured(credentials),
+  }));
+}
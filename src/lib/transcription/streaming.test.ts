@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { appendStreamingAudio, createStreamingSession, finishStreamingSession } from '@/lib/transcription/streaming';
+import type { ProviderTranscript, TranscribeOptions, TranscriptionProvider } from '@/lib/transcription/types';
+
+const SAMPLE_RATE = 16000;
+
+function transcript(words: [string, number][]): ProviderTranscript {
+  return {
+    text: words.map(([word]) => word).join(' '),
+    duration: 30,
+    segments: [{
+      speaker: 'Unknown',
+      speakerTag: 1,
+      start: words[0][1],
+      end: words[words.length - 1][1] + 0.4,
+      text: words.map(([word]) => word).join(' '),
+      words: words.map(([word, start]) => ({ word, start, end: start + 0.4 })),
+    }],
+  };
+}
+
+describe('finishStreamingSession', () => {
+  it('keeps a turn that runs across a commit window boundary', async () => {
+    // The first window covers 0-30s; the next starts at 28s and owns speech from 29s
+    const replies = [
+      transcript([['Take', 26], ['it', 27], ['twice', 28.2], ['a', 28.6], ['day', 29.3]]),
+      transcript([['twice', 0.2], ['a', 0.6], ['day', 1.3], ['with', 2], ['food.', 2.5]]),
+    ];
+    const provider = {
+      id: 'test',
+      transcribe: async () => replies.shift() ?? { text: '', duration: 0, segments: [] },
+    } as unknown as TranscriptionProvider;
+
+    const session = createStreamingSession(provider, {} as TranscribeOptions, SAMPLE_RATE);
+    appendStreamingAudio(session, Buffer.alloc(40 * SAMPLE_RATE * 2));
+    const result = await finishStreamingSession(session);
+
+    expect(result.text).toBe('Take it twice a day with food.');
+  });
+});
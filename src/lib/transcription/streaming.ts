@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import { pcm16ToWav, preprocessAudio } from '@/lib/audio';
+import { assignSpeakerRoles } from '@/lib/diarization';
+import { TranscriptionData, TranscriptSegment } from '@/lib/types';
+import { TranscribeOptions, TranscriptionError, TranscriptionProvider } from '@/lib/transcription/types';
+import { keepWindowSegments, WINDOW_OVERLAP_SECONDS } from '@/lib/transcription/windows';
+
+// Audio is committed in windows of this length while recording, so stopping
+// only leaves the last few seconds to transcribe
+const COMMIT_WINDOW_SECONDS = 30;
+// Partial results re-transcribe the uncommitted tail; this bounds how often a
+// provider is called for them
+const PARTIAL_INTERVAL_MS = 3000;
+const MIN_PARTIAL_SECONDS = 1;
+const RETRY_DELAY_MS = 5000;
+// Sessions whose recorder went away without finishing are dropped after this
+const SESSION_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type StreamingEvent =
+  | { type: 'committed'; segments: TranscriptSegment[] }
+  | { type: 'partial'; segments: TranscriptSegment[] }
+  | { type: 'error'; message: string }
+  | { type: 'closed' };
+
+export interface StreamingSession {
+  id: string;
+  provider: TranscriptionProvider;
+  options: TranscribeOptions;
+  sampleRate: number;
+  // PCM from windowStart onwards; committed audio is released
+  chunks: Buffer[];
+  bufferStartSample: number;
+  totalSamples: number;
+  windowStart: number;
+  windowIndex: number;
+  committed: TranscriptSegment[];
+  partial: TranscriptSegment[];
+  // Timeline position the current partial result covers up to
+  partialUntil: number;
+  lastPartialAt: number;
+  retryAfter: number;
+  processing: Promise<void> | null;
+  finishing: boolean;
+  listeners: Set<(event: StreamingEvent) => void>;
+  lastActivity: number;
+}
+
+// Kept on globalThis so sessions survive module reloads in development
+const globalForStreaming = globalThis as unknown as { streamingSessions?: Map<string, StreamingSession> };
+const sessions = globalForStreaming.streamingSessions ?? new Map<string, StreamingSession>();
+globalForStreaming.streamingSessions = sessions;
+
+export function createStreamingSession(
+  provider: TranscriptionProvider,
+  options: TranscribeOptions,
+  sampleRate: number
+): StreamingSession {
+  dropIdleSessions();
+
+  const session: StreamingSession = {
+    id: randomUUID(),
+    provider,
+    options,
+    sampleRate,
+    chunks: [],
+    bufferStartSample: 0,
+    totalSamples: 0,
+    windowStart: 0,
+    windowIndex: 0,
+    committed: [],
+    partial: [],
+    partialUntil: 0,
+    lastPartialAt: 0,
+    retryAfter: 0,
+    processing: null,
+    finishing: false,
+    listeners: new Set(),
+    lastActivity: Date.now(),
+  };
+
+  sessions.set(session.id, session);
+  return session;
+}
+
+export function getStreamingSession(id: string): StreamingSession | undefined {
+  return sessions.get(id);
+}
+
+/**
+ * Add a chunk of mono 16-bit little-endian PCM at the session's sample rate and
+ * transcribe whatever is due.
+ */
+export function appendStreamingAudio(session: StreamingSession, pcm: Buffer) {
+  if (session.finishing) {
+    throw new TranscriptionError('Recording has already finished', 409);
+  }
+
+  // An odd byte count would shift every later sample by half
+  const usable = pcm.length - (pcm.length % 2);
+  session.chunks.push(pcm.subarray(0, usable));
+  session.totalSamples += usable / 2;
+  session.lastActivity = Date.now();
+
+  scheduleProcessing(session);
+}
+
+export function subscribeToStreamingSession(
+  session: StreamingSession,
+  listener: (event: StreamingEvent) => void
+): () => void {
+  session.listeners.add(listener);
+  return () => {
+    session.listeners.delete(listener);
+  };
+}
+
+/**
+ * Stop accepting audio and return the transcript with the same shape as the
+ * upload path. Usually only audio recorded since the last partial result still
+ * needs transcribing.
+ */
+export async function finishStreamingSession(session: StreamingSession): Promise<TranscriptionData> {
+  session.finishing = true;
+
+  try {
+    if (session.processing) {
+      await session.processing;
+    }
+
+    // Windows that failed during recording get one more try here, errors included
+    while (duration(session) >= session.windowStart + COMMIT_WINDOW_SECONDS) {
+      await commitWindow(session);
+    }
+
+    const tail = session.partialUntil >= duration(session)
+      ? session.partial
+      : duration(session) - session.windowStart > 0.1
+        ? await transcribeWindow(session, session.windowStart, duration(session), true)
+        : [];
+
+    const segments = [...session.committed, ...tail];
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      duration: duration(session),
+      segments,
+      provider: session.provider.id,
+    };
+  } finally {
+    closeStreamingSession(session);
+  }
+}
+
+export function closeStreamingSession(session: StreamingSession) {
+  session.finishing = true;
+  sessions.delete(session.id);
+  emit(session, { type: 'closed' });
+  session.listeners.clear();
+  session.chunks = [];
+}
+
+function scheduleProcessing(session: StreamingSession) {
+  if (session.processing || session.finishing) return;
+
+  session.processing = processPending(session).finally(() => {
+    session.processing = null;
+  });
+}
+
+async function processPending(session: StreamingSession) {
+  while (!session.finishing && Date.now() >= session.retryAfter) {
+    try {
+      if (duration(session) >= session.windowStart + COMMIT_WINDOW_SECONDS) {
+        await commitWindow(session);
+      } else if (
+        duration(session) - Math.max(session.partialUntil, session.windowStart) >= MIN_PARTIAL_SECONDS &&
+        Date.now() - session.lastPartialAt >= PARTIAL_INTERVAL_MS
+      ) {
+        await updatePartial(session);
+      } else {
+        return;
+      }
+    } catch (error) {
+      console.error('Streaming transcription error:', error);
+      // Back off until a later chunk arrives; finishing retries committed windows anyway
+      session.retryAfter = Date.now() + RETRY_DELAY_MS;
+      emit(session, {
+        type: 'error',
+        message: error instanceof TranscriptionError ? error.message : 'Live transcription failed. The recording will still be transcribed when you stop.',
+      });
+    }
+  }
+}
+
+async function commitWindow(session: StreamingSession) {
+  const start = session.windowStart;
+  const segments = await transcribeWindow(session, start, start + COMMIT_WINDOW_SECONDS, false);
+
+  session.committed.push(...segments);
+  session.windowStart = start + COMMIT_WINDOW_SECONDS - WINDOW_OVERLAP_SECONDS;
+  session.windowIndex++;
+  session.partial = [];
+  session.partialUntil = 0;
+  releaseAudioBefore(session, session.windowStart);
+
+  emit(session, { type: 'committed', segments });
+}
+
+async function updatePartial(session: StreamingSession) {
+  const until = duration(session);
+  session.lastPartialAt = Date.now();
+  const segments = await transcribeWindow(session, session.windowStart, until, true);
+
+  session.partial = segments;
+  session.partialUntil = until;
+
+  emit(session, { type: 'partial', segments });
+}
+
+/**
+ * Transcribe [start, end) of the recording as one window, with the same overlap
+ * rule the upload path uses. The open window at the end of the recording keeps
+ * everything after its start.
+ */
+async function transcribeWindow(
+  session: StreamingSession,
+  start: number,
+  end: number,
+  isLast: boolean
+): Promise<TranscriptSegment[]> {
+  const wav = pcm16ToWav(readAudio(session, start, end), session.sampleRate);
+  const prepared = await preprocessAudio(wav);
+
+  let segments: TranscriptSegment[];
+  try {
+    const result = await session.provider.transcribe(prepared, session.options);
+    segments = assignSpeakerRoles(result.segments);
+  } catch (error) {
+    // Providers reject windows with nothing to transcribe (silence, a breath) as bad input
+    if (error instanceof TranscriptionError && error.status === 400) {
+      segments = [];
+    } else {
+      throw error;
+    }
+  }
+
+  const nextOffset = isLast ? null : start + COMMIT_WINDOW_SECONDS - WINDOW_OVERLAP_SECONDS;
+  return keepWindowSegments(segments, start, session.windowIndex === 0, nextOffset);
+}
+
+function readAudio(session: StreamingSession, start: number, end: number): Buffer {
+  const buffered = Buffer.concat(session.chunks);
+  const from = Math.max(0, Math.floor(start * session.sampleRate) - session.bufferStartSample);
+  const to = Math.min(buffered.length / 2, Math.floor(end * session.sampleRate) - session.bufferStartSample);
+  return buffered.subarray(from * 2, Math.max(from, to) * 2);
+}
+
+function releaseAudioBefore(session: StreamingSession, seconds: number) {
+  const buffered = Buffer.concat(session.chunks);
+  const drop = Math.min(buffered.length / 2, Math.max(0, Math.floor(seconds * session.sampleRate) - session.bufferStartSample));
+  session.chunks = [Buffer.from(buffered.subarray(drop * 2))];
+  session.bufferStartSample += drop;
+}
+
+function duration(session: StreamingSession) {
+  return session.totalSamples / session.sampleRate;
+}
+
+function emit(session: StreamingSession, event: StreamingEvent) {
+  session.listeners.forEach(listener => listener(event));
+}
+
+function dropIdleSessions() {
+  const now = Date.now();
+  sessions.forEach(session => {
+    if (!session.processing && now - session.lastActivity > SESSION_IDLE_TIMEOUT_MS) {
+      closeStreamingSession(session);
+    }
+  });
+}
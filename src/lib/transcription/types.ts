@@ -0,0 +1,72 @@
+import type { PreparedAudio } from '@/lib/audio';
+import type { ApiCredentials } from '@/lib/credentials';
+import type { TranscriptSegment } from '@/lib/types';
+import type { VocabularyTerm } from '@/lib/vocabulary';
+
+export interface ProviderCapabilities {
+  // Longest audio the provider accepts in one call; longer recordings are sent in windows
+  maxDurationSeconds: number | null;
+  diarization: boolean;
+  wordTimings: boolean;
+  // Language codes the user can choose from; empty when the provider only auto-detects
+  languages: string[];
+  // Whether the language can be detected, per segment, when none is chosen
+  languageDetection: boolean;
+}
+
+export interface TranscriptionProviderInfo {
+  id: string;
+  label: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  configured: boolean;
+}
+
+export interface TranscribeOptions {
+  // A code from TRANSCRIPTION_LANGUAGES, or AUTO_DETECT_LANGUAGE
+  language: string;
+  // Drug names and jargon to bias recognition towards
+  vocabulary: VocabularyTerm[];
+  // Keys from the user's session or the server's environment
+  credentials: ApiCredentials;
+}
+
+/**
+ * Lets a background job follow and cancel a transcription between provider calls.
+ */
+export interface TranscriptionRun {
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * What a provider returns for one call. Segments carry numeric speaker tags;
+ * Pharmacist/Patient roles are assigned afterwards for every provider alike.
+ */
+export interface ProviderTranscript {
+  text: string;
+  duration: number;
+  segments: TranscriptSegment[];
+}
+
+export interface TranscriptionProvider {
+  id: string;
+  label: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  isConfigured(credentials: ApiCredentials): boolean;
+  transcribe(audio: PreparedAudio, options: TranscribeOptions): Promise<ProviderTranscript>;
+}
+
+/**
+ * Thrown by providers with a message that can be shown to the user as-is.
+ */
+export class TranscriptionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.status = status;
+  }
+}
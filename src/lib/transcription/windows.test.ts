@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { keepWindowSegments } from '@/lib/transcription/windows';
+import type { TranscriptSegment } from '@/lib/types';
+
+function segment(speakerTag: number, words: [string, number][]): TranscriptSegment {
+  return {
+    speaker: speakerTag === 1 ? 'Pharmacist' : 'Patient',
+    speakerTag,
+    start: words[0][1],
+    end: words[words.length - 1][1] + 0.4,
+    text: words.map(([word]) => word).join(' '),
+    words: words.map(([word, start]) => ({ word, start, end: start + 0.4 })),
+  };
+}
+
+describe('keepWindowSegments', () => {
+  // Windows of 10s with a 2s overlap: the second starts at 8s and owns speech from 9s
+  const first = [
+    segment(1, [['How', 2], ['are', 2.5], ['you?', 3]]),
+    segment(2, [['Fine,', 7], ['but', 7.5], ['my', 8.2], ['knee', 8.8], ['hurts', 9.3]]),
+  ];
+  const second = [
+    segment(2, [['my', 0.2], ['knee', 0.8], ['hurts', 1.3], ['when', 2], ['I', 2.5], ['walk.', 3]]),
+    segment(1, [['Since', 5], ['when?', 5.5]]),
+  ];
+
+  it('splits a turn that crosses a boundary between the windows that heard it', () => {
+    const kept = [
+      ...keepWindowSegments(first, 0, true, 8),
+      ...keepWindowSegments(second, 8, false, null),
+    ];
+
+    expect(kept.map(turn => turn.text)).toEqual(['How are you?', 'Fine, but my knee', 'hurts when I walk.', 'Since when?']);
+    expect(kept[2].start).toBeCloseTo(9.3);
+    expect(kept[2].end).toBeCloseTo(11.4);
+    expect(kept[2].words?.map(word => word.word)).toEqual(['hurts', 'when', 'I', 'walk.']);
+  });
+
+  it('keeps a segment without word timings by its middle', () => {
+    const untimed: TranscriptSegment[] = [
+      { speaker: 'Patient', speakerTag: 2, start: 0, end: 6, text: 'A long answer.' },
+      { speaker: 'Patient', speakerTag: 2, start: 0, end: 1.5, text: 'Heard before.' },
+    ];
+    expect(keepWindowSegments(untimed, 8, false, null)).toEqual([
+      { speaker: 'Patient', speakerTag: 2, start: 8, end: 14, text: 'A long answer.' },
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { TranscriptSegment } from '@/lib/types';
+
+// Overlap between windows so a word cut at a boundary is heard in full by one of them
+export const WINDOW_OVERLAP_SECONDS = 2;
+
+/**
+ * Shift one window's segments onto the recording timeline and drop the speech
+ * the neighbouring window owns. Inside an overlap the earlier window keeps the
+ * words that start before the midpoint, so a turn running across a boundary
+ * is trimmed rather than lost. Segments without word timings are kept by
+ * where their middle falls.
+ */
+export function keepWindowSegments(
+  segments: TranscriptSegment[],
+  offset: number,
+  isFirst: boolean,
+  nextOffset: number | null
+): TranscriptSegment[] {
+  const floor = isFirst ? -Infinity : offset + WINDOW_OVERLAP_SECONDS / 2;
+  const cutoff = nextOffset === null ? Infinity : nextOffset + WINDOW_OVERLAP_SECONDS / 2;
+  const owned = (time: number) => time >= floor && time < cutoff;
+
+  return segments.flatMap(segment => {
+    if (!segment.words?.length) {
+      return owned(offset + (segment.start + segment.end) / 2)
+        ? [{ ...segment, start: segment.start + offset, end: segment.end + offset }]
+        : [];
+    }
+
+    const words = segment.words
+      .map(word => ({ ...word, start: word.start + offset, end: word.end + offset }))
+      .filter(word => owned(word.start));
+    if (words.length === 0) return [];
+
+    // The provider's punctuated text still fits when no words were cut
+    const isWhole = words.length === segment.words.length;
+    return [{
+      ...segment,
+      text: isWhole ? segment.text : words.map(word => word.word).join(' '),
+      start: isWhole ? segment.start + offset : words[0].start,
+      end: isWhole ? segment.end + offset : words[words.length - 1].end,
+      words,
+    }];
+  });
+}
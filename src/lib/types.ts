@@ -0,0 +1,168 @@
+import type { AllergyConflict } from '@/lib/allergies';
+import type { InteractionAlert } from '@/lib/interactions';
+import type { MedicationSig } from '@/lib/sig';
+import type { NoteTemplate } from '@/lib/templates';
+
+export type SpeakerRole = 'Pharmacist' | 'Patient' | 'Unknown';
+
+/** Times are in seconds from the start of the recording. */
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  // 0-1 as reported by the provider; Whisper only scores whole segments
+  confidence?: number;
+  // What the provider's other hypotheses heard in place of this word
+  alternatives?: string[];
+}
+
+export interface TranscriptSegment {
+  speaker: SpeakerRole;
+  speakerTag: number;
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptWord[];
+  // ISO 639-1 code of the language detected for this segment
+  language?: string;
+}
+
+export interface TranscriptionData {
+  text: string;
+  duration: number;
+  segments?: TranscriptSegment[];
+  // The provider that actually produced the transcript
+  provider?: string;
+  attempts?: ProviderAttempt[];
+}
+
+export type FailoverReason = 'quota' | 'auth' | 'timeout' | 'server' | 'other';
+
+/**
+ * One provider call in a failover chain, reported so the UI can explain which
+ * provider served a request and why others didn't.
+ */
+export interface ProviderAttempt {
+  provider: string;
+  label: string;
+  ok: boolean;
+  reason?: FailoverReason;
+  error?: string;
+  durationMs: number;
+}
+
+export type TranscriptionJobStatus = 'uploading' | 'queued' | 'transcribing' | 'done' | 'failed';
+
+/**
+ * A transcription running in the background, as reported by /api/transcribe/jobs.
+ */
+export interface TranscriptionJob {
+  id: string;
+  status: TranscriptionJobStatus;
+  provider: string;
+  receivedBytes: number;
+  // Size announced by the client when the upload started, if known
+  totalBytes: number | null;
+  // Provider calls finished out of those needed; long audio is sent in windows
+  completedWindows: number;
+  totalWindows: number;
+  error?: string;
+  result?: TranscriptionData;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SummarySource = 'model' | 'fallback';
+
+export interface SummaryMedication {
+  name: string;
+  dosage?: string;
+  frequency?: string;
+  notes?: string;
+  // The directions word for word as they were said
+  directions?: string;
+  // The directions parsed into structured fields, when any were heard
+  sig?: MedicationSig;
+}
+
+export type AllergySeverity = 'mild' | 'moderate' | 'severe';
+
+export interface SummaryAllergy {
+  // What the patient reacts to, as said; empty with `denied` for no known allergies
+  substance: string;
+  reaction?: string;
+  severity?: AllergySeverity;
+  // The patient said they are not allergic, to this substance or, without one, to anything
+  denied?: boolean;
+}
+
+// What a section holds, by its type: a paragraph, a list, medications or allergies
+export type SectionValue = string | string[] | SummaryMedication[] | SummaryAllergy[];
+
+/**
+ * A transcript passage a summary item was taken from.
+ */
+export interface EvidenceSpan {
+  quote: string;
+  // Index into the transcript's segments, when it has them
+  segment?: number;
+  // Seconds from the start of the recording, when known
+  start?: number;
+  end?: number;
+}
+
+// The spans behind each item of each section by section id, in item order; a
+// paragraph counts as one item. An item with no spans wasn't found in the
+// transcript and may have been made up.
+export type SummaryEvidence = Record<string, EvidenceSpan[][]>;
+
+export interface SummaryData {
+  // The template the note follows, copied in so it still renders after the template is edited
+  template: NoteTemplate;
+  // Values by section id
+  sections: Record<string, SectionValue>;
+  // Whether a model wrote the summary or it was guessed by keyword matching
+  source?: SummarySource;
+  // Where each item came from in the transcript; absent for keyword summaries
+  evidence?: SummaryEvidence;
+  // ISO 639-1 code of the language the summary is written in
+  language?: string;
+  patientSummary?: PatientSummary;
+  // Pairs of the summary's medications found in the local interaction table
+  interactions?: InteractionAlert[];
+  // Medications that clash with the patient's allergies; shown as alerts to acknowledge before export
+  allergyConflicts?: AllergyConflict[];
+  // Keys (from conflictKey) of the allergy alerts the pharmacist has acknowledged
+  acknowledgedConflicts?: string[];
+  // The summarizer that actually wrote the summary
+  servedBy?: string;
+  attempts?: ProviderAttempt[];
+}
+
+// The sections that have arrived while a summary is still being written
+export type SummaryDraft = Record<string, SectionValue>;
+
+/**
+ * Events sent by /api/summarize/stream. `template` comes first so drafts can
+ * be laid out; an `attempt` means a summarizer has started, so drafts from an
+ * earlier one no longer apply.
+ */
+export type SummaryStreamEvent =
+  | { type: 'template'; template: NoteTemplate }
+  | { type: 'attempt'; provider: string; label: string }
+  | { type: 'draft'; draft: SummaryDraft }
+  | { type: 'summary'; summary: SummaryData }
+  | { type: 'error'; error: string; attempts?: ProviderAttempt[] };
+
+/**
+ * Plain-language take-home version of the summary, in the patient's language.
+ */
+export interface PatientSummary {
+  language: string;
+  overview: string;
+  medications: Array<{
+    name: string;
+    instructions: string;
+  }>;
+  nextSteps: string[];
+}
@@ -0,0 +1,211 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { dataDirectory } from '@/lib/data-store';
+
+// Small enough that a dropped connection on pharmacy Wi-Fi only costs a few seconds
+export const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Unfinished uploads older than this are removed when the next one starts
+const UPLOAD_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+const AUDIO_FILE = 'audio';
+const META_FILE = 'upload.json';
+
+interface UploadMeta {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  finalized: boolean;
+  createdAt: number;
+}
+
+export interface UploadStatus extends UploadMeta {
+  // [start, end) byte ranges the server already has
+  received: [number, number][];
+  receivedBytes: number;
+}
+
+/**
+ * Thrown with a message that can be shown to the user as-is.
+ */
+export class UploadError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+/**
+ * Start a resumable upload. Chunks are kept in DATA_DIR so an upload can be
+ * resumed after a dropped connection, a reload or a server restart.
+ */
+export async function createUpload(name: string, type: string, size: number): Promise<UploadStatus> {
+  if (!type.startsWith('audio/')) {
+    throw new UploadError('Invalid file type. Please upload an audio file.', 400);
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new UploadError('File size is required', 400);
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new UploadError('Audio file is larger than 50MB', 413);
+  }
+
+  await removeExpiredUploads();
+
+  const meta: UploadMeta = {
+    id: randomUUID(),
+    name,
+    type,
+    size,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks: Math.ceil(size / UPLOAD_CHUNK_SIZE),
+    finalized: false,
+    createdAt: Date.now(),
+  };
+
+  await fs.mkdir(uploadPath(meta.id), { recursive: true });
+  await fs.writeFile(uploadPath(meta.id, META_FILE), JSON.stringify(meta));
+
+  return { ...meta, received: [], receivedBytes: 0 };
+}
+
+export async function getUploadStatus(id: string): Promise<UploadStatus> {
+  const meta = await readMeta(id);
+  const chunks = meta.finalized ? [] : await receivedChunks(meta);
+
+  const received: [number, number][] = meta.finalized ? [[0, meta.size]] : [];
+  for (const index of chunks) {
+    const [start, end] = chunkRange(meta, index);
+    const last = received[received.length - 1];
+    if (last && last[1] === start) {
+      last[1] = end;
+    } else {
+      received.push([start, end]);
+    }
+  }
+
+  return {
+    ...meta,
+    received,
+    receivedBytes: received.reduce((total, [start, end]) => total + end - start, 0),
+  };
+}
+
+/**
+ * Store one chunk after checking its size and SHA-256. Sending a chunk again
+ * replaces it, so retries are safe.
+ */
+export async function writeUploadChunk(id: string, index: number, data: Buffer, checksum: string | null) {
+  const meta = await readMeta(id);
+  if (meta.finalized) {
+    throw new UploadError('Upload has already been finalized', 409);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= meta.totalChunks) {
+    throw new UploadError(`Chunk ${index} is out of range`, 400);
+  }
+
+  const [start, end] = chunkRange(meta, index);
+  if (data.length !== end - start) {
+    throw new UploadError(`Chunk ${index} should be ${end - start} bytes but was ${data.length}`, 400);
+  }
+  if (!checksum) {
+    throw new UploadError('Chunk checksum is required', 400);
+  }
+  if (createHash('sha256').update(data).digest('hex') !== checksum.toLowerCase()) {
+    throw new UploadError(`Chunk ${index} was corrupted in transit`, 422);
+  }
+
+  // Write then rename so an interrupted write never counts as received
+  const file = uploadPath(id, `${index}.part`);
+  await fs.writeFile(`${file}.tmp`, data);
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Join the chunks into the finished file once every one has arrived.
+ */
+export async function finalizeUpload(id: string): Promise<UploadStatus> {
+  const meta = await readMeta(id);
+  if (meta.finalized) {
+    return getUploadStatus(id);
+  }
+
+  const chunks = await receivedChunks(meta);
+  if (chunks.length !== meta.totalChunks) {
+    throw new UploadError(`Upload is incomplete: ${chunks.length} of ${meta.totalChunks} chunks received`, 409);
+  }
+
+  const parts = await Promise.all(chunks.map(index => fs.readFile(uploadPath(id, `${index}.part`))));
+  await fs.writeFile(uploadPath(id, AUDIO_FILE), Buffer.concat(parts));
+  await fs.writeFile(uploadPath(id, META_FILE), JSON.stringify({ ...meta, finalized: true }));
+  await Promise.all(chunks.map(index => fs.rm(uploadPath(id, `${index}.part`), { force: true })));
+
+  return getUploadStatus(id);
+}
+
+export async function readUploadedAudio(id: string): Promise<Buffer> {
+  const meta = await readMeta(id);
+  if (!meta.finalized) {
+    throw new UploadError('Upload has not been finalized', 409);
+  }
+  return fs.readFile(uploadPath(id, AUDIO_FILE));
+}
+
+export async function deleteUpload(id: string) {
+  if (!UPLOAD_ID_PATTERN.test(id)) return;
+  await fs.rm(uploadPath(id), { recursive: true, force: true });
+}
+
+function uploadPath(id: string, file?: string) {
+  const directory = path.join(dataDirectory(), 'uploads', id);
+  return file ? path.join(directory, file) : directory;
+}
+
+async function readMeta(id: string): Promise<UploadMeta> {
+  if (!UPLOAD_ID_PATTERN.test(id)) {
+    throw new UploadError('Upload not found', 404);
+  }
+  try {
+    return JSON.parse(await fs.readFile(uploadPath(id, META_FILE), 'utf8'));
+  } catch {
+    throw new UploadError('Upload not found', 404);
+  }
+}
+
+async function receivedChunks(meta: UploadMeta): Promise<number[]> {
+  const files = await fs.readdir(uploadPath(meta.id));
+  return files
+    .filter(file => file.endsWith('.part'))
+    .map(file => Number(file.slice(0, -'.part'.length)))
+    .filter(index => Number.isInteger(index) && index < meta.totalChunks)
+    .sort((a, b) => a - b);
+}
+
+function chunkRange(meta: UploadMeta, index: number): [number, number] {
+  const start = index * meta.chunkSize;
+  return [start, Math.min(meta.size, start + meta.chunkSize)];
+}
+
+async function removeExpiredUploads() {
+  const root = path.join(dataDirectory(), 'uploads');
+  const ids = await fs.readdir(root).catch(() => [] as string[]);
+
+  await Promise.all(ids.map(async id => {
+    try {
+      const meta = await readMeta(id);
+      if (Date.now() - meta.createdAt > UPLOAD_EXPIRY_MS) {
+        await deleteUpload(id);
+      }
+    } catch {
+      // Not an upload directory, or already removed
+    }
+  }));
+}
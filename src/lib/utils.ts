@@ -53,7 +53,11 @@ export function validateAudioFile(file: File): boolean {
     'audio/m4a',
     'audio/webm',
     'audio/ogg',
-    'audio/mpeg'
+    'audio/mpeg',
+    'audio/mp4',
+    'audio/x-m4a',
+    'audio/x-wav',
+    'audio/wave'
   ];
   
   const maxSize = 50 * 1024 * 1024; // 50MB
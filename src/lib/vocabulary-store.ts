@@ -0,0 +1,17 @@
+import { readJsonFile, writeJsonFile } from '@/lib/data-store';
+import { DEFAULT_VOCABULARY, mergeVocabulary, VocabularyStore, VocabularyTerm } from '@/lib/vocabulary';
+
+const VOCABULARY_FILE = 'vocabulary';
+
+// Until someone edits it, the vocabulary is the built-in list with no pharmacies
+export async function loadVocabulary(): Promise<VocabularyStore> {
+  return readJsonFile<VocabularyStore>(VOCABULARY_FILE, { terms: DEFAULT_VOCABULARY, pharmacies: [] });
+}
+
+export async function saveVocabulary(store: VocabularyStore) {
+  await writeJsonFile(VOCABULARY_FILE, store);
+}
+
+export async function getVocabularyTerms(pharmacyId?: string): Promise<VocabularyTerm[]> {
+  return mergeVocabulary(await loadVocabulary(), pharmacyId);
+}
@@ -0,0 +1,204 @@
+export const VOCABULARY_CATEGORIES = ['drug', 'brand', 'strength', 'jargon', 'formulary', 'prescriber'] as const;
+
+export type VocabularyCategory = typeof VOCABULARY_CATEGORIES[number];
+
+export interface VocabularyTerm {
+  phrase: string;
+  category: VocabularyCategory;
+  // Google speech adaptation boost (0-20); the category default applies when unset
+  boost?: number;
+}
+
+/**
+ * Additions for one pharmacy, e.g. its local formulary names and the
+ * prescribers it sees most often.
+ */
+export interface PharmacyVocabulary {
+  id: string;
+  name: string;
+  terms: VocabularyTerm[];
+}
+
+export interface VocabularyStore {
+  // Shared by every pharmacy
+  terms: VocabularyTerm[];
+  pharmacies: PharmacyVocabulary[];
+}
+
+export const CATEGORY_LABELS: Record<VocabularyCategory, string> = {
+  drug: 'Drug name',
+  brand: 'Brand',
+  strength: 'Strength',
+  jargon: 'Pharmacy jargon',
+  formulary: 'Formulary',
+  prescriber: 'Prescriber',
+};
+
+// Names are boosted harder than generic jargon, which is more likely to be heard correctly anyway
+export const CATEGORY_BOOSTS: Record<VocabularyCategory, number> = {
+  drug: 15,
+  brand: 15,
+  strength: 10,
+  jargon: 10,
+  formulary: 15,
+  prescriber: 12,
+};
+
+const MAX_BOOST = 20;
+// Google rejects longer phrases and caps the number per request
+const MAX_PHRASE_LENGTH = 100;
+const MAX_SPEECH_CONTEXT_PHRASES = 5000;
+// Whisper only reads the last 224 tokens of its prompt; roughly 800 characters of terms
+const MAX_PROMPT_LENGTH = 800;
+
+const terms = (category: VocabularyCategory, phrases: string[]): VocabularyTerm[] =>
+  phrases.map(phrase => ({ phrase, category }));
+
+export const DEFAULT_VOCABULARY: VocabularyTerm[] = [
+  ...terms('drug', [
+    'atorvastatin', 'levothyroxine', 'metformin', 'lisinopril', 'amlodipine', 'metoprolol', 'omeprazole',
+    'simvastatin', 'losartan', 'albuterol', 'gabapentin', 'hydrochlorothiazide', 'sertraline', 'montelukast',
+    'escitalopram', 'rosuvastatin', 'bupropion', 'furosemide', 'pantoprazole', 'tramadol', 'prednisone',
+    'amoxicillin', 'azithromycin', 'warfarin', 'apixaban', 'rivaroxaban', 'clopidogrel', 'insulin glargine',
+    'insulin lispro', 'semaglutide', 'empagliflozin', 'sitagliptin', 'glipizide', 'carvedilol', 'spironolactone',
+    'fluoxetine', 'trazodone', 'duloxetine', 'cyclobenzaprine', 'meloxicam', 'ibuprofen', 'acetaminophen',
+    'cetirizine', 'fluticasone', 'tamsulosin', 'finasteride', 'allopurinol', 'alendronate', 'methotrexate',
+    'hydroxychloroquine', 'doxycycline', 'cephalexin', 'ciprofloxacin', 'nitrofurantoin', 'valacyclovir',
+    'ondansetron', 'famotidine', 'esomeprazole', 'quetiapine', 'aripiprazole', 'lamotrigine', 'levetiracetam',
+    'topiramate', 'clonazepam', 'lorazepam', 'alprazolam', 'zolpidem', 'oxycodone', 'hydrocodone', 'naloxone',
+  ]),
+  ...terms('brand', [
+    'Lipitor', 'Synthroid', 'Glucophage', 'Zestril', 'Norvasc', 'Lopressor', 'Toprol XL', 'Prilosec', 'Zocor',
+    'Cozaar', 'ProAir', 'Ventolin', 'Neurontin', 'Zoloft', 'Singulair', 'Lexapro', 'Crestor', 'Wellbutrin',
+    'Lasix', 'Protonix', 'Coumadin', 'Eliquis', 'Xarelto', 'Plavix', 'Lantus', 'Humalog', 'Ozempic', 'Wegovy',
+    'Jardiance', 'Januvia', 'Farxiga', 'Trulicity', 'Mounjaro', 'Flonase', 'Flomax', 'Zyrtec', 'Narcan',
+  ]),
+  ...terms('strength', [
+    'milligrams', 'micrograms', 'milliliters', 'units', 'mg', 'mcg', 'mL', '0.5 mg', '2.5 mg', '5 mg', '10 mg',
+    '20 mg', '25 mg', '40 mg', '50 mg', '81 mg', '100 mg', '250 mg', '500 mg', '1000 mg', '25 mcg', '50 mcg',
+    '75 mcg', '88 mcg', '100 mcg', '112 mcg', '125 mcg',
+  ]),
+  ...terms('jargon', [
+    'BID', 'TID', 'QID', 'QD', 'QHS', 'PRN', 'PO', 'sig', 'refill', 'prior authorization', 'formulary',
+    'generic', 'copay', 'days supply', 'NKDA', 'OTC', 'sublingual', 'extended release', 'delayed release',
+    'immediate release', 'inhaler', 'nebulizer', 'tablet', 'capsule', 'suspension', 'as needed', 'with food',
+    'on an empty stomach', 'at bedtime', 'twice daily', 'three times daily',
+  ]),
+];
+
+/**
+ * Base terms plus one pharmacy's additions. A pharmacy entry for a phrase that
+ * is already in the base list overrides its category and boost.
+ */
+export function mergeVocabulary(store: VocabularyStore, pharmacyId?: string): VocabularyTerm[] {
+  const merged = new Map<string, VocabularyTerm>();
+  const pharmacy = store.pharmacies.find(entry => entry.id === pharmacyId);
+
+  for (const term of [...store.terms, ...(pharmacy?.terms || [])]) {
+    merged.set(term.phrase.toLowerCase(), term);
+  }
+
+  return Array.from(merged.values());
+}
+
+export function termBoost(term: VocabularyTerm) {
+  return Math.min(MAX_BOOST, Math.max(0, term.boost ?? CATEGORY_BOOSTS[term.category]));
+}
+
+/**
+ * Google `speechContexts`: one context per distinct boost, since a boost
+ * applies to every phrase in its context.
+ */
+export function toSpeechContexts(vocabulary: VocabularyTerm[]): { phrases: string[]; boost: number }[] {
+  const byBoost = new Map<number, string[]>();
+
+  vocabulary
+    .filter(term => term.phrase.length <= MAX_PHRASE_LENGTH)
+    .slice(0, MAX_SPEECH_CONTEXT_PHRASES)
+    .forEach(term => {
+      const boost = termBoost(term);
+      byBoost.set(boost, [...(byBoost.get(boost) || []), term.phrase]);
+    });
+
+  return Array.from(byBoost.entries()).map(([boost, phrases]) => ({ phrases, boost }));
+}
+
+/**
+ * Whisper `prompt`: a short context sentence followed by as many terms as fit,
+ * most strongly boosted first. Whisper treats the prompt as preceding speech,
+ * so spelling in it carries over to the transcript.
+ */
+export function toWhisperPrompt(vocabulary: VocabularyTerm[]): string | undefined {
+  if (vocabulary.length === 0) return undefined;
+
+  let prompt = 'Pharmacy consultation between a pharmacist and a patient. Terms:';
+  const ranked = [...vocabulary].sort((a, b) => termBoost(b) - termBoost(a));
+
+  for (const term of ranked) {
+    const next = `${prompt} ${term.phrase},`;
+    if (next.length > MAX_PROMPT_LENGTH) break;
+    prompt = next;
+  }
+
+  return prompt.replace(/,$/, '.');
+}
+
+/**
+ * Check a vocabulary sent from the editor and tidy it up: trimmed phrases,
+ * no blanks or duplicates within a list, boosts in range.
+ */
+export function parseVocabularyStore(input: unknown): VocabularyStore {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Vocabulary must be an object with terms and pharmacies');
+  }
+  const { terms: baseTerms, pharmacies } = input as Record<string, unknown>;
+
+  if (!Array.isArray(pharmacies)) {
+    throw new Error('Vocabulary pharmacies must be a list');
+  }
+
+  return {
+    terms: parseTerms(baseTerms),
+    pharmacies: pharmacies.map((pharmacy, index) => {
+      const { id, name, terms: pharmacyTerms } = (pharmacy || {}) as Record<string, unknown>;
+      if (typeof id !== 'string' || !id.trim() || typeof name !== 'string' || !name.trim()) {
+        throw new Error(`Pharmacy ${index + 1} needs an id and a name`);
+      }
+      return { id: id.trim(), name: name.trim(), terms: parseTerms(pharmacyTerms) };
+    }),
+  };
+}
+
+function parseTerms(input: unknown): VocabularyTerm[] {
+  if (!Array.isArray(input)) {
+    throw new Error('Vocabulary terms must be a list');
+  }
+
+  const seen = new Set<string>();
+  const parsed: VocabularyTerm[] = [];
+
+  for (const entry of input) {
+    const { phrase, category, boost } = (entry || {}) as Record<string, unknown>;
+    if (typeof phrase !== 'string' || !phrase.trim()) continue;
+    if (!VOCABULARY_CATEGORIES.includes(category as VocabularyCategory)) {
+      throw new Error(`Unknown vocabulary category for "${phrase}"`);
+    }
+    if (phrase.trim().length > MAX_PHRASE_LENGTH) {
+      throw new Error(`"${phrase.slice(0, 30)}..." is longer than ${MAX_PHRASE_LENGTH} characters`);
+    }
+
+    const key = phrase.trim().toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    parsed.push({
+      phrase: phrase.trim(),
+      category: category as VocabularyCategory,
+      ...(typeof boost === 'number' && Number.isFinite(boost)
+        ? { boost: Math.min(MAX_BOOST, Math.max(0, boost)) }
+        : {}),
+    });
+  }
+
+  return parsed;
+}